@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server'
+import { devLog } from '@/lib/utils/log'
+import { validateBearerSecret } from '@/lib/utils/validation'
+import { ArtStyleUpdateSchema } from '@/lib/schemas/art-style'
+import { artStyleCatalog } from '@/lib/services/art-styles'
+import { ArtStyleCatalogError } from '@/lib/utils/errors'
+
+interface RouteContext {
+  params: Promise<{ key: string }>
+}
+
+function catalogErrorResponse(error: unknown, action: string) {
+  if (error instanceof ArtStyleCatalogError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+
+  devLog(`Art style ${action} failed`, {
+    prefix: 'api:admin:art-styles',
+    level: 'error'
+  }, { error })
+
+  return NextResponse.json({ error: `Failed to ${action} art style` }, { status: 500 })
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = validateBearerSecret(request, 'ADMIN_SECRET')
+  if (!auth.isValid) {
+    return NextResponse.json({ error: auth.message }, { status: 401 })
+  }
+
+  const { key } = await params
+  const style = await artStyleCatalog.getStyle(key, true)
+  if (!style) {
+    return NextResponse.json({ error: `Art style ${key} not found` }, { status: 404 })
+  }
+
+  return NextResponse.json({ style })
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = validateBearerSecret(request, 'ADMIN_SECRET')
+  if (!auth.isValid) {
+    return NextResponse.json({ error: auth.message }, { status: 401 })
+  }
+
+  const body = ArtStyleUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'Invalid art style update', details: body.error.flatten() },
+      { status: 400 }
+    )
+  }
+
+  const { key } = await params
+  try {
+    const style = await artStyleCatalog.update(key, body.data)
+
+    devLog('Art style updated', {
+      prefix: 'api:admin:art-styles',
+      level: 'info'
+    }, { data: { key, fields: Object.keys(body.data) } })
+
+    return NextResponse.json({ style })
+  } catch (error) {
+    return catalogErrorResponse(error, 'update')
+  }
+}
+
+// Deletes unused styles; styles already on a visualization are deactivated instead
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = validateBearerSecret(request, 'ADMIN_SECRET')
+  if (!auth.isValid) {
+    return NextResponse.json({ error: auth.message }, { status: 401 })
+  }
+
+  const { key } = await params
+  try {
+    const result = await artStyleCatalog.remove(key)
+
+    devLog(result.deleted ? 'Art style deleted' : 'Art style in use, deactivated', {
+      prefix: 'api:admin:art-styles',
+      level: 'info'
+    }, { data: { key } })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    return catalogErrorResponse(error, 'delete')
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { devLog } from '@/lib/utils/log'
+import { validateBearerSecret } from '@/lib/utils/validation'
+import { ArtStyleInputSchema } from '@/lib/schemas/art-style'
+import { artStyleCatalog } from '@/lib/services/art-styles'
+import { ArtStyleCatalogError } from '@/lib/utils/errors'
+
+export async function GET(request: Request) {
+  const auth = validateBearerSecret(request, 'ADMIN_SECRET')
+  if (!auth.isValid) {
+    return NextResponse.json({ error: auth.message }, { status: 401 })
+  }
+
+  return NextResponse.json({ styles: await artStyleCatalog.getStyles() })
+}
+
+export async function POST(request: Request) {
+  const auth = validateBearerSecret(request, 'ADMIN_SECRET')
+  if (!auth.isValid) {
+    return NextResponse.json({ error: auth.message }, { status: 401 })
+  }
+
+  const body = ArtStyleInputSchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'Invalid art style', details: body.error.flatten().fieldErrors },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const style = await artStyleCatalog.create(body.data)
+
+    devLog('Art style created', {
+      prefix: 'api:admin:art-styles',
+      level: 'info'
+    }, { data: { key: style.key, name: style.name } })
+
+    return NextResponse.json({ style }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ArtStyleCatalogError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    devLog('Art style creation failed', {
+      prefix: 'api:admin:art-styles',
+      level: 'error'
+    }, { error })
+
+    return NextResponse.json({ error: 'Failed to create art style' }, { status: 500 })
+  }
+}
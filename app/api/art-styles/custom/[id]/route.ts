@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { devLog } from '@/lib/utils/log'
+import { CustomArtStyleUpdateSchema } from '@/lib/schemas/art-style'
+import { userArtStyleService } from '@/lib/services/user-art-styles'
+import { ArtStyleCatalogError } from '@/lib/utils/errors'
+import { getRequestEmail } from '@/lib/supabase/auth'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+function styleErrorResponse(error: unknown, action: string) {
+  if (error instanceof ArtStyleCatalogError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+
+  devLog(`Custom art style ${action} failed`, {
+    prefix: 'api:art-styles:custom',
+    level: 'error'
+  }, { error })
+
+  return NextResponse.json({ error: `Failed to ${action} art style` }, { status: 500 })
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const email = await getRequestEmail(request)
+  if (!email) {
+    return NextResponse.json({ error: 'Sign in to edit art styles' }, { status: 401 })
+  }
+
+  const body = CustomArtStyleUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'Invalid art style update', details: body.error.flatten() },
+      { status: 400 }
+    )
+  }
+
+  const { id } = await params
+  try {
+    return NextResponse.json({ style: await userArtStyleService.update(email, id, body.data) })
+  } catch (error) {
+    return styleErrorResponse(error, 'update')
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const email = await getRequestEmail(request)
+  if (!email) {
+    return NextResponse.json({ error: 'Sign in to edit art styles' }, { status: 401 })
+  }
+
+  const { id } = await params
+  try {
+    return NextResponse.json({ style: await userArtStyleService.remove(email, id) })
+  } catch (error) {
+    return styleErrorResponse(error, 'delete')
+  }
+}
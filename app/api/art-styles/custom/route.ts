@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { devLog } from '@/lib/utils/log'
+import { CustomArtStyleInputSchema } from '@/lib/schemas/art-style'
+import { userArtStyleService } from '@/lib/services/user-art-styles'
+import { ArtStyleCatalogError } from '@/lib/utils/errors'
+import { getRequestEmail } from '@/lib/supabase/auth'
+
+export async function POST(request: Request) {
+  const email = await getRequestEmail(request)
+  if (!email) {
+    return NextResponse.json({ error: 'Sign in to create art styles' }, { status: 401 })
+  }
+
+  const body = CustomArtStyleInputSchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'Invalid art style', details: body.error.flatten().fieldErrors },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const style = await userArtStyleService.create(email, body.data)
+
+    devLog('Custom art style created', {
+      prefix: 'api:art-styles:custom',
+      level: 'info'
+    }, { data: { key: style.key, email } })
+
+    return NextResponse.json({ style }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ArtStyleCatalogError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    devLog('Custom art style creation failed', {
+      prefix: 'api:art-styles:custom',
+      level: 'error'
+    }, { error })
+
+    return NextResponse.json({ error: 'Failed to create art style' }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { devLog } from '@/lib/utils/log'
+import { StyleRecommendationRequestSchema } from '@/lib/schemas/art-style'
+import { styleRecommender } from '@/lib/services/style-recommender'
+
+// Top styles for a headline, with the reasons the card can show
+export async function POST(request: Request) {
+  const body = StyleRecommendationRequestSchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'Invalid recommendation request', details: body.error.flatten().fieldErrors },
+      { status: 400 }
+    )
+  }
+
+  try {
+    return NextResponse.json(await styleRecommender.recommend(body.data))
+  } catch (error) {
+    devLog('Art style recommendation failed', {
+      prefix: 'api:art-styles:recommend',
+      level: 'error'
+    }, { error })
+
+    return NextResponse.json({ error: 'Failed to recommend art styles' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { devLog } from '@/lib/utils/log'
+import { artStyleCatalog } from '@/lib/services/art-styles'
+import { userArtStyleService } from '@/lib/services/user-art-styles'
+import { sourceRegistry } from '@/lib/services/sources'
+import { SUBSCRIPTION_TIERS } from '@/lib/constants/plans'
+import { getRequestEmail } from '@/lib/supabase/auth'
+
+// Styles for the picker: the active catalog, then the caller's own styles
+export async function GET(request: Request) {
+  try {
+    const email = await getRequestEmail(request)
+    const [styles, custom, tier] = await Promise.all([
+      artStyleCatalog.getActiveStyles(),
+      email ? userArtStyleService.list(email) : [],
+      sourceRegistry.getTier(email ?? undefined)
+    ])
+
+    return NextResponse.json(
+      { styles, custom, customLimit: SUBSCRIPTION_TIERS[tier].customStyles },
+      { headers: { 'Vary': 'Authorization' } }
+    )
+  } catch (error) {
+    devLog('Failed to list art styles', {
+      prefix: 'api:art-styles',
+      level: 'error'
+    }, { error })
+
+    return NextResponse.json({ error: 'Failed to list art styles' }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { z } from 'zod'
+import { NextResponse } from 'next/server'
+import { devLog } from '@/lib/utils/log'
+import { validateBearerSecret } from '@/lib/utils/validation'
+import { ingestNewsBatch } from '@/lib/news'
+import { NEWS_API_CONFIG } from '@/lib/config/news-sources'
+import { NewsFilterQuerySchema } from '@/lib/schemas/news'
+import { NewsProviderError, PremiumSourceError } from '@/lib/utils/errors'
+import { sourceRegistry } from '@/lib/services/sources'
+
+const querySchema = NewsFilterQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(NEWS_API_CONFIG.maxLimit).optional(),
+  offset: z.coerce.number().int().min(0).optional()
+})
+
+// Upserts a page of headlines into news_history; a write, so cron only and POST only
+export async function POST(request: Request) {
+  const auth = validateBearerSecret(request, 'CRON_SECRET')
+  if (!auth.isValid) {
+    return NextResponse.json({ error: auth.message }, { status: 401 })
+  }
+
+  const parsedQuery = querySchema.safeParse(
+    Object.fromEntries(new URL(request.url).searchParams)
+  )
+  if (!parsedQuery.success) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid query parameters', details: parsedQuery.error.flatten().fieldErrors },
+      { status: 400 }
+    )
+  }
+
+  const { limit, offset, ...query } = parsedQuery.data
+  try {
+    // Like the poller, ingestion covers every active source; who may read them is decided at fetch time
+    const filter = await sourceRegistry.restrictFilter(query, 'UNLIMITED')
+    const batch = await ingestNewsBatch({ ...filter, limit, offset })
+
+    return NextResponse.json({
+      success: true,
+      provider: batch.provider,
+      news: batch.items,
+      batch: {
+        fetched: batch.fetched,
+        inserted: batch.inserted,
+        duplicates: batch.duplicates,
+        rejected: batch.rejected,
+        errors: batch.errors
+      },
+      pagination: batch.pagination
+    })
+  } catch (error) {
+    if (error instanceof PremiumSourceError) {
+      return NextResponse.json({ success: false, error: error.message, sources: error.sourceIds }, { status: 403 })
+    }
+
+    devLog('News batch ingestion failed', {
+      prefix: 'api:cron:ingest-news',
+      level: 'error'
+    }, { error, data: { failures: error instanceof NewsProviderError ? error.failures : undefined } })
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Batch ingestion failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { devLog } from '@/lib/utils/log'
+import { validateBearerSecret } from '@/lib/utils/validation'
+import { mediaJobRunner } from '@/lib/services/jobs'
+
+export async function GET(request: Request) {
+  const auth = validateBearerSecret(request, 'CRON_SECRET')
+  if (!auth.isValid) {
+    return NextResponse.json({ error: auth.message }, { status: 401 })
+  }
+
+  const { searchParams, origin } = new URL(request.url)
+  const limit = Number(searchParams.get('limit')) || undefined
+
+  try {
+    const jobs = await mediaJobRunner.run({
+      baseUrl: process.env.NEXT_PUBLIC_SITE_URL || origin,
+      limit
+    })
+
+    return NextResponse.json({ success: true, jobs })
+
+  } catch (error) {
+    devLog('Media job run failed', {
+      prefix: 'api:cron:media-jobs',
+      level: 'error'
+    }, { error })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Media job run failed'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const maxDuration = 300
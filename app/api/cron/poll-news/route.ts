@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { devLog } from '@/lib/utils/log'
+import { validateBearerSecret } from '@/lib/utils/validation'
+import { newsPoller } from '@/lib/services/poller'
+import { mediaJobRunner } from '@/lib/services/jobs'
+
+export async function GET(request: Request) {
+  const auth = validateBearerSecret(request, 'CRON_SECRET')
+  if (!auth.isValid) {
+    return NextResponse.json({ error: auth.message }, { status: 401 })
+  }
+
+  const { searchParams, origin } = new URL(request.url)
+  const force = searchParams.get('force') === 'true'
+  const sourceIds = searchParams.get('sources')?.split(',').filter(Boolean)
+  // Drain a batch of the queue right away unless ?jobs=false
+  const runJobs = searchParams.get('jobs') !== 'false'
+
+  try {
+    devLog('Starting scheduled news poll', {
+      prefix: 'api:cron:poll-news',
+      level: 'info'
+    }, { data: { force, sourceIds, runJobs } })
+
+    const poll = await newsPoller.run({ force, sourceIds })
+    const jobs = runJobs
+      ? await mediaJobRunner.run({ baseUrl: process.env.NEXT_PUBLIC_SITE_URL || origin })
+      : null
+
+    return NextResponse.json({ success: true, poll, jobs })
+
+  } catch (error) {
+    devLog('Scheduled news poll failed', {
+      prefix: 'api:cron:poll-news',
+      level: 'error'
+    }, { error })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Scheduled poll failed'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const maxDuration = 300
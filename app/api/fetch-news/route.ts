@@ -1,8 +1,40 @@
+import { z } from 'zod'
 import { devLog } from '@/lib/utils/log'
 import { fetchLatestNews } from '@/lib/news'
+import { NEWS_PROVIDER_CONFIG } from '@/lib/config/news-sources'
+import { NewsProviderError, PremiumSourceError } from '@/lib/utils/errors'
+import { NewsFilterQuerySchema } from '@/lib/schemas/news'
+import { sourceRegistry } from '@/lib/services/sources'
+import { getRequestEmail } from '@/lib/supabase/auth'
 
-export async function GET() {
+const querySchema = NewsFilterQuerySchema.extend({
+  // Skip the per-filter cache and hit the providers
+  fresh: z.enum(['true', 'false']).transform(value => value === 'true').optional()
+})
+
+export async function GET(request: Request) {
+  const parsedQuery = querySchema.safeParse(
+    Object.fromEntries(new URL(request.url).searchParams)
+  )
+
+  if (!parsedQuery.success) {
+    return Response.json(
+      {
+        success: false,
+        error: 'Invalid query parameters',
+        details: parsedQuery.error.flatten().fieldErrors,
+        news: []
+      },
+      { status: 400 }
+    )
+  }
+
+  const { fresh, ...query } = parsedQuery.data
   try {
+    const email = await getRequestEmail(request)
+    const tier = await sourceRegistry.getTier(email ?? undefined)
+    const filter = await sourceRegistry.restrictFilter(query, tier)
+
     devLog('Starting news fetch from API', {
       prefix: 'api:fetch-news',
       level: 'info',
@@ -13,13 +45,16 @@ export async function GET() {
       env: {
         MEDIASTACK_API_KEY: process.env.MEDIASTACK_API_KEY ? 'Set' : 'Not set',
         NODE_ENV: process.env.NODE_ENV,
-      }
+      },
+      providers: NEWS_PROVIDER_CONFIG.providers,
+      query: { fresh, filter },
+      tier
     }, {
       prefix: 'api:fetch-news',
       level: 'debug'
     })
 
-    const news = await fetchLatestNews()
+    const { provider, article, cached } = await fetchLatestNews(filter, { fresh })
 
     devLog('News fetch successful', {
       prefix: 'api:fetch-news',
@@ -27,16 +62,45 @@ export async function GET() {
       timestamp: true
     })
 
-    devLog({ news }, {
+    devLog({ provider, article, cached }, {
       prefix: 'api:fetch-news',
       level: 'debug'
     })
 
-    return Response.json({
-      success: true,
-      news: [news]
-    })
+    return Response.json(
+      {
+        success: true,
+        provider,
+        cached,
+        filter: query,
+        news: [article]
+      },
+      {
+        headers: {
+          // The filter is part of the URL, so shared caches key on it too;
+          // paid tiers see premium sources and must not share a cache entry
+          'Cache-Control': fresh
+            ? 'no-store'
+            : tier === 'FREE'
+              ? `public, s-maxage=${NEWS_PROVIDER_CONFIG.cacheTtlSeconds}, stale-while-revalidate=60`
+              : 'private, no-store',
+          'Vary': 'Authorization'
+        }
+      }
+    )
   } catch (error) {
+    if (error instanceof PremiumSourceError) {
+      return Response.json(
+        {
+          success: false,
+          error: error.message,
+          sources: error.sourceIds,
+          news: []
+        },
+        { status: 403 }
+      )
+    }
+
     devLog('News fetch failed', {
       prefix: 'api:fetch-news',
       level: 'error',
@@ -50,7 +114,8 @@ export async function GET() {
       env: {
         MEDIASTACK_API_KEY: process.env.MEDIASTACK_API_KEY ? 'Set' : 'Not set',
         NODE_ENV: process.env.NODE_ENV,
-      }
+      },
+      failures: error instanceof NewsProviderError ? error.failures : undefined
     }, {
       prefix: 'api:fetch-news',
       level: 'error'
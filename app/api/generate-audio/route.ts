@@ -1,7 +1,9 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { devLog } from '@/lib/utils/log'
-import { elevenLabsApi } from '@/lib/elevenlabs'
+import { elevenLabsApi, getSpeechModelId } from '@/lib/elevenlabs'
+import { NewsLanguageSchema } from '@/lib/schemas/news'
+import { headlineTranslator } from '@/lib/services/translation'
 
 // Validate environment variables
 const requiredEnvVars = {
@@ -54,7 +56,7 @@ export async function POST(request: Request) {
     }
 
     // Validate request body
-    const { headline, newsId } = await request.json()
+    const { headline, newsId, language } = await request.json()
     if (!headline || !newsId) {
       return NextResponse.json({ 
         error: 'Missing required fields', 
@@ -63,11 +65,27 @@ export async function POST(request: Request) {
       }, { status: 400 })
     }
 
+    const viewerLanguage = language === undefined || language === null ? undefined : NewsLanguageSchema.safeParse(language)
+    if (viewerLanguage && !viewerLanguage.success) {
+      return NextResponse.json({ 
+        error: 'Unsupported language', 
+        errorType: 'validation',
+        message: `Narration is not available in ${language}.`
+      }, { status: 400 })
+    }
+
+    // Narrate in the viewer's language when one is asked for, otherwise in the headline's own
+    const translation = viewerLanguage?.success
+      ? await headlineTranslator.translate(headline, { to: viewerLanguage.data })
+      : null
+    const narration = translation?.translated ? translation.text : headline
+    const narrationLanguage = translation?.translated ? translation.to : headlineTranslator.detect(headline, 'en').language
+
     // Generate audio using ElevenLabs API
-    const audioData = await elevenLabsApi.generateSpeech(headline)
+    const audioData = await elevenLabsApi.generateSpeech(narration, undefined, getSpeechModelId(narrationLanguage))
     
-    // Upload audio to Supabase storage
-    const audioPath = `audio/${newsId}.mp3`
+    // Translated narrations get their own file so the original stays in place
+    const audioPath = translation?.translated ? `audio/${newsId}.${narrationLanguage}.mp3` : `audio/${newsId}.mp3`
     const { data: uploadData, error: uploadError } = await supabase.storage
       .from('news-audio')
       .upload(audioPath, Buffer.from(audioData.audio_base64, 'base64'), {
@@ -119,26 +137,30 @@ export async function POST(request: Request) {
       }
     })
 
-    // Update news_history with audio URL and alignment
-    const { error: updateError } = await supabase
-      .from('news_history')
-      .update({
-        audio_url: publicUrl,
-        audio_alignment: transformedAlignment,
-        audio_status: 'ready'
-      })
-      .eq('id', newsId)
+    // Update news_history with audio URL and alignment, unless this is a translated narration
+    if (!translation?.translated) {
+      const { error: updateError } = await supabase
+        .from('news_history')
+        .update({
+          audio_url: publicUrl,
+          audio_alignment: transformedAlignment,
+          audio_status: 'ready'
+        })
+        .eq('id', newsId)
 
-    if (updateError) {
-      devLog('Failed to update news_history with audio data', {
-        prefix: 'generate-audio',
-        level: 'error'
-      }, { error: updateError })
+      if (updateError) {
+        devLog('Failed to update news_history with audio data', {
+          prefix: 'generate-audio',
+          level: 'error'
+        }, { error: updateError })
+      }
     }
 
     return NextResponse.json({ 
       audioUrl: publicUrl,
-      alignment: transformedAlignment
+      alignment: transformedAlignment,
+      language: narrationLanguage,
+      translated: !!translation?.translated
     })
   } catch (error) {
     devLog('Audio generation failed', {
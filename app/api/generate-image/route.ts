@@ -1,15 +1,25 @@
-import { ArtStyle, type ArtStyleKey, type ArtStyleValue } from '@/types/art'
-import { headers } from 'next/headers'
 import { NextResponse } from 'next/server'
 import { Ratelimit } from "@upstash/ratelimit"
 import { Redis } from "@upstash/redis"
 
 // UTILS
 import { devLog } from '@/lib/utils/log'
-import { generateImage } from '@/lib/image'
+import { generateImageVariants, type ImageVariantStyle } from '@/lib/image'
+import { IMAGE_PROVIDERS } from '@/lib/providers/image'
 import { getArtStylePrompt } from '@/lib/art-styles'
-import { isValidArtStyle, normalizeArtStyle } from '@/lib/utils/art/server'
+import { normalizeArtStyle } from '@/lib/utils/art/server'
+import { artStyleCatalog } from '@/lib/services/art-styles'
 import { getArtStyleValue } from '@/lib/utils/art/artStyles'
+import { rewriteFlaggedTerms, screenText, softenPrompt } from '@/lib/utils/moderation'
+import { moderationService } from '@/lib/services/moderation'
+import { ImageParamsSchema, ImageVariantsSchema } from '@/lib/schemas/image'
+import { ImagePromptMetadataSchema } from '@/lib/schemas/prompt'
+import { sourceRegistry } from '@/lib/services/sources'
+import { ImageParamsError, RateLimitError } from '@/lib/utils/errors'
+import { SUBSCRIPTION_TIERS } from '@/lib/constants/plans'
+import { IMAGE_MODEL_CONFIG } from '@/lib/config/image-models'
+import { chargeUsage, getDailyUsage } from '@/lib/usage'
+import { getRequestEmail } from '@/lib/supabase/auth'
 
 let ratelimit: Ratelimit | undefined
 
@@ -24,7 +34,7 @@ if (process.env.UPSTASH_REDIS_REST_URL) {
 
 export async function POST(request: Request) {
   try {
-    const { headline, style, prompt, newsId } = await request.json()
+    const { headline, style, prompt, newsId, provider, params, variants, metadata } = await request.json()
 
     // Validate required fields
     if (!headline || !style || !prompt) {
@@ -34,29 +44,143 @@ export async function POST(request: Request) {
       )
     }
 
-    // Validate art style
-    if (!isValidArtStyle(style)) {
+    if (provider !== undefined && !Object.keys(IMAGE_PROVIDERS).includes(provider)) {
+      return NextResponse.json(
+        { details: 'Unknown image provider', validProviders: Object.keys(IMAGE_PROVIDERS) },
+        { status: 400 }
+      )
+    }
+
+    // Size, steps and seed; stored image_params can be sent back as is to redraw an image
+    const imageParams = ImageParamsSchema.safeParse(params ?? {})
+    if (!imageParams.success) {
+      return NextResponse.json(
+        { details: 'Invalid image parameters', errors: imageParams.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const imageVariants = ImageVariantsSchema.safeParse(variants ?? {})
+    if (!imageVariants.success) {
+      return NextResponse.json(
+        { details: 'Invalid image variants', errors: imageVariants.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    // Style notes, composition, lighting, palette and negative prompt from /api/generate-prompt
+    const promptMetadata = ImagePromptMetadataSchema.safeParse(metadata ?? {})
+    if (!promptMetadata.success) {
+      return NextResponse.json(
+        { details: 'Invalid prompt metadata', errors: promptMetadata.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    // Signed-in callers get their own styles and their plan's image limits; everyone else the free tier's
+    const email = await getRequestEmail(request) ?? undefined
+
+    // Validate art style against the catalog
+    const artStyle = await normalizeArtStyle(style, email)
+    if (!artStyle) {
+      const validStyles = (await artStyleCatalog.getActiveStyles()).map(entry => entry.name)
       devLog('Invalid art style received', {
         prefix: 'api:generate-image',
         level: 'error'
       }, {
         data: {
           receivedStyle: style,
-          validStyles: Object.values(ArtStyle)
+          validStyles
         }
       })
       
       return NextResponse.json(
         { 
           details: 'Invalid art style',
-          validStyles: Object.values(ArtStyle)
+          validStyles
         },
         { status: 400 }
       )
     }
 
-    // Convert style to proper format
-    const normalizedStyle = normalizeArtStyle(style) as ArtStyleKey
+    // Backstop for callers that skip /api/moderate-prompt: blocklisted prompts never reach the model.
+    // The metadata is screened with them, constructFullPrompt appends it to the prompt
+    const { style_notes, composition, lighting, color_palette } = promptMetadata.data
+    const metadataText = [...(style_notes ?? []), composition, lighting, color_palette].filter(Boolean).join('\n')
+    const flags = screenText([headline, prompt, metadataText].filter(Boolean).join('\n'))
+    const decision = moderationService.decide(prompt, flags, promptMetadata.data.negative_prompt ?? artStyle.negativePrompt)
+    const { action } = decision
+    // The decision this route acted on is the one the story's audit trail keeps
+    const recordDecision = async () => {
+      if (!newsId) return
+      await moderationService.record(newsId, decision).catch(error => {
+        devLog('Failed to record moderation decision', {
+          prefix: 'api:generate-image',
+          level: 'error'
+        }, { error, data: { newsId } })
+      })
+    }
+
+    if (action === 'block') {
+      await recordDecision()
+      devLog('Blocked prompt rejected', {
+        prefix: 'api:generate-image',
+        level: 'warn'
+      }, {
+        data: { newsId, matches: flags.map(flag => flag.match) }
+      })
+
+      return NextResponse.json(
+        { details: 'Prompt blocked by editorial guardrails' },
+        { status: 422 }
+      )
+    }
+
+    // ...and prompts that call for softening are softened, the same way. A prompt
+    // /api/moderate-prompt already softened comes through unchanged
+    const soften = (text: string, negativePrompt?: string) =>
+      action === 'soften' ? softenPrompt(text, flags, negativePrompt) : { prompt: text, negative_prompt: negativePrompt }
+    const moderated = { prompt: decision.prompt ?? prompt, negative_prompt: decision.negative_prompt }
+    const rewrite = (text?: string) => text && rewriteFlaggedTerms(text, flags)
+    const moderatedMetadata = action === 'soften'
+      ? {
+          ...promptMetadata.data,
+          style_notes: style_notes?.map(note => rewriteFlaggedTerms(note, flags)),
+          composition: rewrite(composition),
+          lighting: rewrite(lighting),
+          color_palette: rewrite(color_palette)
+        }
+      : promptMetadata.data
+
+    // Style variants are drawn from each style's own template prompt
+    const variantStyles: ImageVariantStyle[] = []
+    for (const variantStyle of imageVariants.data.styles ?? []) {
+      const entry = await normalizeArtStyle(variantStyle, email)
+      if (!entry) {
+        return NextResponse.json(
+          { details: `Invalid variant art style: ${variantStyle}` },
+          { status: 400 }
+        )
+      }
+      if (entry.key === artStyle.key) continue
+      // The style's negative prompt goes in the metadata, not the prompt text, like any other
+      const variant = soften(getArtStylePrompt({ ...entry, negativePrompt: undefined }, headline), entry.negativePrompt)
+      variantStyles.push({
+        style: entry.key,
+        prompt: variant.prompt,
+        colorPalette: entry.colorPalette,
+        metadata: { negative_prompt: variant.negative_prompt }
+      })
+    }
+
+    const tier = await sourceRegistry.getTier(email)
+    const variantCount = variantStyles.length ? variantStyles.length + 1 : imageVariants.data.count ?? 1
+
+    // A single image is counted by the client as before; a variant set is charged here, by weight
+    const usageCost = variantCount > 1 ? Math.ceil(variantCount * IMAGE_MODEL_CONFIG.variants.usageWeight) : 0
+    if (email && usageCost > 0 && await getDailyUsage(email) + usageCost > SUBSCRIPTION_TIERS[tier].dailyLimit) {
+      throw new RateLimitError()
+    }
 
     devLog('Generating image', {
       prefix: 'api:generate-image',
@@ -64,41 +188,79 @@ export async function POST(request: Request) {
     }, {
       data: {
         headline,
-        style: normalizedStyle,
-        prompt,
-        newsId
+        style: artStyle.key,
+        prompt: moderated.prompt,
+        moderation: action,
+        newsId,
+        variants: variantCount
       }
     })
 
-    // Generate the image using the provided prompt
-    const base64Image = await generateImage({
-      prompt,
-      style: normalizedStyle,
-      metadata: {
-        style_notes: [],
-        composition: '',
-        lighting: '',
-        color_palette: ''
-      }
-    })
+    // Generate the image (or variants) using the provided prompt
+    const images = await generateImageVariants({
+      prompt: moderated.prompt,
+      style: artStyle.key,
+      headline,
+      colorPalette: artStyle.colorPalette,
+      params: { ...imageParams.data, provider: imageParams.data.provider ?? provider },
+      tier,
+      // Without metadata the style's own negative prompt still applies
+      metadata: { ...moderatedMetadata, negative_prompt: moderated.negative_prompt }
+    }, { count: variantCount, styles: variantStyles })
+
+    if (email && usageCost > 0) await chargeUsage(email, usageCost)
+    await recordDecision()
+
+    const [image] = images
 
     devLog('Image generated successfully', {
       prefix: 'api:generate-image',
       level: 'info'
     }, {
       data: {
-        hasImageData: !!base64Image,
+        hasImageData: !!image.base64,
+        params: image.params,
+        variants: images.length,
+        usageCost,
         newsId
       }
     })
 
     return NextResponse.json({
-      imageData: base64Image,
-      prompt,
-      style: ArtStyle[normalizedStyle]
+      imageData: image.base64,
+      mimeType: image.mimeType,
+      prompt: moderated.prompt,
+      style: artStyle.name,
+      // What news_history.art_style stores: the catalog key, `blend:` spec or `custom:` key
+      artStyle: artStyle.key,
+      provider: image.provider,
+      model: image.model,
+      params: image.params,
+      // Exactly what the provider was sent, after metadata and any negative prompt fallback
+      finalPrompt: image.prompt,
+      negativePrompt: image.negativePrompt,
+      // Only for variant requests; the first is the image above
+      ...(images.length > 1 && {
+        variants: images.map(variant => ({
+          imageData: variant.base64,
+          mimeType: variant.mimeType,
+          style: variant.style,
+          params: variant.params,
+          finalPrompt: variant.prompt,
+          negativePrompt: variant.negativePrompt
+        })),
+        usageCost
+      })
     })
 
   } catch (error) {
+    if (error instanceof ImageParamsError) {
+      return NextResponse.json({ details: error.message }, { status: error.status })
+    }
+    if (error instanceof RateLimitError) {
+      return NextResponse.json({ details: 'Not enough of today\'s quota left for these variants' }, { status: 429 })
+    }
+
     devLog('Image generation failed', {
       prefix: 'api:generate-image',
       level: 'error'
@@ -111,10 +273,4 @@ export async function POST(request: Request) {
   }
 }
 
-async function getIPAddress() {
-  const headersList = await headers()
-  const forwardedFor = headersList.get('x-forwarded-for')
-  return forwardedFor || 'unknown'
-}
-
 export const runtime = "edge" 
\ No newline at end of file
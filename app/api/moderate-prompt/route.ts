@@ -0,0 +1,56 @@
+import { z } from 'zod'
+import { devLog } from '@/lib/utils/log'
+import { moderationService } from '@/lib/services/moderation'
+
+const bodySchema = z.object({
+  headline: z.string().trim().min(1).max(500),
+  prompt: z.string().trim().min(1).max(5000),
+  negativePrompt: z.string().max(2000).optional()
+})
+
+// Sits between /api/generate-prompt and /api/generate-image; blocked prompts get a 422.
+// A preview only: /api/generate-image records the decision it acts on
+export async function POST(request: Request) {
+  const parsedBody = bodySchema.safeParse(await request.json().catch(() => null))
+
+  if (!parsedBody.success) {
+    return Response.json(
+      {
+        success: false,
+        error: 'Invalid request body',
+        details: parsedBody.error.flatten().fieldErrors
+      },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const decision = await moderationService.moderate(parsedBody.data)
+    const blocked = decision.action === 'block'
+
+    return Response.json(
+      {
+        success: !blocked,
+        action: decision.action,
+        prompt: decision.prompt ?? decision.original_prompt,
+        negative_prompt: decision.negative_prompt,
+        decision,
+        ...(blocked ? { error: 'Prompt blocked by editorial guardrails' } : {})
+      },
+      { status: blocked ? 422 : 200 }
+    )
+  } catch (error) {
+    devLog('Prompt moderation failed', {
+      prefix: 'api:moderate-prompt',
+      level: 'error'
+    }, { error })
+
+    return Response.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Moderation failed'
+      },
+      { status: 500 }
+    )
+  }
+}
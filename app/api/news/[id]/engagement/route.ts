@@ -0,0 +1,72 @@
+import { z } from 'zod'
+import { NextResponse } from 'next/server'
+import { Ratelimit } from '@upstash/ratelimit'
+import { Redis } from '@upstash/redis'
+import { devLog } from '@/lib/utils/log'
+import { getIPAddress } from '@/lib/utils/request'
+import { recordNewsEngagement } from '@/lib/news'
+import { NewsEngagementKindSchema } from '@/lib/schemas/news'
+
+const bodySchema = z.object({ kind: NewsEngagementKindSchema })
+
+let clientLimit: Ratelimit | undefined
+let storyLimit: Ratelimit | undefined
+
+if (process.env.UPSTASH_REDIS_REST_URL) {
+  const redis = Redis.fromEnv()
+  // Requests per client across all stories
+  clientLimit = new Ratelimit({
+    redis,
+    limiter: Ratelimit.slidingWindow(60, '1 m'),
+    prefix: 'ai24news:engagement'
+  })
+  // One view, share or save per client, story and kind a day; repeats answer as usual but aren't counted
+  storyLimit = new Ratelimit({
+    redis,
+    limiter: Ratelimit.fixedWindow(1, '1440 m'),
+    prefix: 'ai24news:engagement:story'
+  })
+}
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  if (!z.string().uuid().safeParse(id).success) {
+    return NextResponse.json({ error: 'Invalid news id' }, { status: 400 })
+  }
+
+  const body = bodySchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'kind must be views, shares or saves', details: body.error.flatten().fieldErrors },
+      { status: 400 }
+    )
+  }
+
+  const ip = await getIPAddress()
+  if (clientLimit && !(await clientLimit.limit(ip)).success) {
+    return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+  }
+  if (storyLimit && !(await storyLimit.limit(`${ip}:${id}:${body.data.kind}`)).success) {
+    return NextResponse.json({ counted: false })
+  }
+
+  try {
+    const engagement = await recordNewsEngagement(id, body.data.kind)
+    if (!engagement) {
+      return NextResponse.json({ error: 'News item not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ counted: true, engagement })
+  } catch (error) {
+    devLog('Failed to record engagement', {
+      prefix: 'api:news:engagement',
+      level: 'error'
+    }, { error, data: { id, kind: body.data.kind } })
+
+    return NextResponse.json({ error: 'Failed to record engagement' }, { status: 500 })
+  }
+}
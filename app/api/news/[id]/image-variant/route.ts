@@ -0,0 +1,64 @@
+import { z } from 'zod'
+import { NextResponse } from 'next/server'
+import { devLog } from '@/lib/utils/log'
+import { getImageOwner, promoteImageAlternate } from '@/lib/news'
+import { getRequestEmail } from '@/lib/supabase/auth'
+import { sourceRegistry } from '@/lib/services/sources'
+import { SUBSCRIPTION_TIERS } from '@/lib/constants/plans'
+
+const bodySchema = z.object({ imageUrl: z.string().url() })
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// The reader picked one of the story's alternate images. Only the reader who drew them,
+// on a plan that includes variants, may pick
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  if (!z.string().uuid().safeParse(id).success) {
+    return NextResponse.json({ error: 'Invalid news id' }, { status: 400 })
+  }
+
+  const email = await getRequestEmail(request)
+  if (!email) {
+    return NextResponse.json({ error: 'Sign in to pick an image variant' }, { status: 401 })
+  }
+
+  const body = bodySchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'imageUrl must be the URL of one of the alternates', details: body.error.flatten().fieldErrors },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const plan = SUBSCRIPTION_TIERS[await sourceRegistry.getTier(email)]
+    if (plan.imageVariants <= 1) {
+      return NextResponse.json({ error: `The ${plan.name} plan doesn't include image variants` }, { status: 403 })
+    }
+
+    const owner = await getImageOwner(id)
+    if (owner === undefined) {
+      return NextResponse.json({ error: 'News item not found' }, { status: 404 })
+    }
+    if (owner !== email) {
+      return NextResponse.json({ error: 'Only the reader who drew these variants can pick one' }, { status: 403 })
+    }
+
+    const news = await promoteImageAlternate(id, body.data.imageUrl)
+    if (!news) {
+      return NextResponse.json({ error: 'News item or image variant not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(news)
+  } catch (error) {
+    devLog('Failed to promote image variant', {
+      prefix: 'api:news:image-variant',
+      level: 'error'
+    }, { error, data: { id, imageUrl: body.data.imageUrl } })
+
+    return NextResponse.json({ error: 'Failed to pick image variant' }, { status: 500 })
+  }
+}
@@ -0,0 +1,85 @@
+import { z } from 'zod'
+import { devLog } from '@/lib/utils/log'
+import { newsSearchService } from '@/lib/services/search'
+import { InvalidSearchCursorError } from '@/lib/utils/errors'
+import { artStyleCatalog } from '@/lib/services/art-styles'
+
+const querySchema = z.object({
+  q: z.string().trim().min(2, 'Query must be at least 2 characters').max(200),
+  style: z.string().trim().min(1).max(80).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  cursor: z.string().max(500).optional()
+})
+
+export async function GET(request: Request) {
+  const parsedQuery = querySchema.safeParse(
+    Object.fromEntries(new URL(request.url).searchParams)
+  )
+
+  if (!parsedQuery.success) {
+    return Response.json(
+      {
+        success: false,
+        error: 'Invalid query parameters',
+        details: parsedQuery.error.flatten().fieldErrors,
+        results: []
+      },
+      { status: 400 }
+    )
+  }
+
+  const { q, style, limit, cursor } = parsedQuery.data
+
+  try {
+    // Retired styles stay searchable, their visualizations are still in history
+    const artStyle = style ? await artStyleCatalog.getStyle(style, true) : null
+    if (style && !artStyle) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          details: { style: [`Unknown art style ${style}`] },
+          results: []
+        },
+        { status: 400 }
+      )
+    }
+
+    const page = await newsSearchService.search({ query: q, style: artStyle ?? undefined, limit, cursor })
+
+    devLog('News search complete', {
+      prefix: 'api:news:search',
+      level: 'debug'
+    }, {
+      data: {
+        query: q,
+        style,
+        resultCount: page.results.length,
+        hasMore: !!page.nextCursor
+      }
+    })
+
+    return Response.json({ success: true, ...page })
+  } catch (error) {
+    if (error instanceof InvalidSearchCursorError) {
+      return Response.json(
+        { success: false, error: error.message, results: [] },
+        { status: 400 }
+      )
+    }
+
+    devLog('News search failed', {
+      prefix: 'api:news:search',
+      level: 'error'
+    }, { error })
+
+    return Response.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Search failed',
+        results: []
+      },
+      { status: 500 }
+    )
+  }
+}
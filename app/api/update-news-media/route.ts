@@ -1,17 +1,68 @@
+import { z } from 'zod'
 import { NextResponse } from 'next/server'
 import { devLog } from '@/lib/utils/log'
 import { getAdminSupabase } from '@/lib/supabase/client'
+import { getRequestEmail } from '@/lib/supabase/auth'
+import { validateBearerSecret } from '@/lib/utils/validation'
+import { ImageManifestSchema, ImageParamsSchema, ImageVariantSchema, MediaUrlSchema } from '@/lib/schemas/image'
+import { NewsLanguageSchema } from '@/lib/schemas/news'
+import { IMAGE_MODEL_CONFIG } from '@/lib/config/image-models'
 import { NEWS_TABLE } from '@/constants/tables'
 
+const bodySchema = z.object({
+  newsId: z.string().uuid(),
+  imageUrl: MediaUrlSchema.optional(),
+  artStyle: z.string().trim().min(1).max(200).optional(),
+  audioUrl: MediaUrlSchema.optional(),
+  audioAlignment: z.object({
+    characters: z.array(z.string()),
+    character_start_times_seconds: z.array(z.number()),
+    character_end_times_seconds: z.array(z.number())
+  }).optional(),
+  prompt: z.string().max(5000).optional(),
+  promptVersion: z.string().trim().min(1).max(50).optional(),
+  imageParams: ImageParamsSchema.optional(),
+  imageManifest: ImageManifestSchema.optional(),
+  imagePrompt: z.string().max(5000).optional(),
+  imageNegativePrompt: z.string().max(2000).optional(),
+  imageAlternates: z.array(ImageVariantSchema).max(IMAGE_MODEL_CONFIG.variants.max - 1).optional(),
+  headlineEn: z.string().trim().min(1).max(500).optional(),
+  language: NewsLanguageSchema.optional()
+})
+
+// Signed-in readers save media for stories they drew; the media job runner sends CRON_SECRET instead
 export async function POST(request: Request) {
+  const email = await getRequestEmail(request)
+  if (!email && !validateBearerSecret(request, 'CRON_SECRET').isValid) {
+    return NextResponse.json({ error: 'Sign in to save news media' }, { status: 401 })
+  }
+
+  const body = bodySchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'Invalid news media', details: body.error.flatten().fieldErrors },
+      { status: 400 }
+    )
+  }
+
   try {
-    const { newsId, imageUrl, audioUrl, audioAlignment, prompt } = await request.json()
+    const { newsId, imageUrl, artStyle, audioUrl, audioAlignment, prompt, promptVersion, imageParams, imageManifest, imagePrompt, imageNegativePrompt, imageAlternates, headlineEn, language } = body.data
 
-    if (!newsId) {
-      return NextResponse.json(
-        { error: 'News ID is required' },
-        { status: 400 }
-      )
+    // A reader may fill in a story's missing image or redo their own, never replace someone else's
+    if (email) {
+      const { data: current, error: lookupError } = await getAdminSupabase()
+        .from(NEWS_TABLE)
+        .select('image_url, image_generated_by')
+        .eq('id', newsId)
+        .maybeSingle()
+
+      if (lookupError) throw lookupError
+      if (!current) {
+        return NextResponse.json({ error: 'News item not found' }, { status: 404 })
+      }
+      if (current.image_url && current.image_generated_by !== email) {
+        return NextResponse.json({ error: 'This story already has an image drawn by another reader' }, { status: 403 })
+      }
     }
 
     devLog('Updating news media', {
@@ -21,27 +72,46 @@ export async function POST(request: Request) {
       data: {
         newsId,
         hasImage: !!imageUrl,
+        artStyle,
         hasAudio: !!audioUrl,
         hasAlignment: !!audioAlignment,
         alignmentType: audioAlignment ? typeof audioAlignment : 'undefined',
         alignmentKeys: audioAlignment ? Object.keys(audioAlignment) : [],
-        hasPrompt: !!prompt
+        hasPrompt: !!prompt,
+        promptVersion,
+        imageParams,
+        imageRenditions: imageManifest?.renditions.length,
+        hasImagePrompt: !!imagePrompt,
+        hasImageNegativePrompt: !!imageNegativePrompt,
+        imageAlternates: imageAlternates?.length,
+        language
       }
     })
 
     // Prepare update data
     const updateData: Record<string, any> = {}
     
-    if (imageUrl) updateData.image_url = imageUrl
-    if (audioUrl) updateData.audio_url = audioUrl
-    if (audioAlignment) {
-      updateData.audio_alignment = {
-        characters: audioAlignment.characters || [],
-        character_start_times_seconds: audioAlignment.character_start_times_seconds || [],
-        character_end_times_seconds: audioAlignment.character_end_times_seconds || []
-      }
+    if (imageUrl) {
+      updateData.image_url = imageUrl
+      // Decides who may pick among its alternates; images from the job runner have no owner
+      updateData.image_generated_by = email
     }
+    if (artStyle) updateData.art_style = artStyle
+    if (audioUrl) updateData.audio_url = audioUrl
+    if (audioAlignment) updateData.audio_alignment = audioAlignment
     if (prompt) updateData.prompt = prompt
+    if (promptVersion) updateData.prompt_version = promptVersion
+    if (imageParams) updateData.image_params = imageParams
+    if (imageManifest) updateData.image_manifest = imageManifest
+    // Recorded together: a new image without a negative prompt clears the old one
+    if (imagePrompt) {
+      updateData.image_prompt = imagePrompt
+      updateData.image_negative_prompt = imageNegativePrompt ?? null
+    }
+    // A new image replaces the previous set's alternates
+    if (imageAlternates) updateData.image_alternates = imageAlternates
+    if (headlineEn) updateData.headline_en = headlineEn
+    if (language) updateData.language = language
 
     // Update the news item
     const { data, error } = await getAdminSupabase()
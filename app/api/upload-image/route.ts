@@ -1,10 +1,12 @@
 import { NextResponse } from 'next/server'
 import { devLog } from '@/lib/utils/log'
-import { uploadImageToStorage } from '@/lib/actions/storage'
+import { uploadOptimizedImage } from '@/lib/actions/storage'
+import { IMAGE_OPTIMIZATION_CONFIG } from '@/lib/config/image-models'
+import { ImageUploadError } from '@/lib/utils/errors'
 
 export async function POST(request: Request) {
   try {
-    const { imageData, headline, newsId } = await request.json()
+    const { imageData, headline, newsId, variant } = await request.json()
 
     devLog('Starting image upload', {
       prefix: 'api:upload-image',
@@ -34,6 +36,16 @@ export async function POST(request: Request) {
       throw new Error('No image data provided')
     }
 
+    if (typeof imageData !== 'string') {
+      throw new ImageUploadError('Image data must be a base64 string')
+    }
+
+    // Decoded size from the base64 length, so an oversized payload is never decoded
+    const decodedBytes = Math.floor(imageData.length * 3 / 4)
+    if (decodedBytes > IMAGE_OPTIMIZATION_CONFIG.maxInputBytes) {
+      throw new ImageUploadError(`Image is ${decodedBytes} bytes, over the ${IMAGE_OPTIMIZATION_CONFIG.maxInputBytes} byte limit`, 413)
+    }
+
     if (!headline) {
       devLog('No headline provided', {
         prefix: 'api:upload-image',
@@ -49,7 +61,7 @@ export async function POST(request: Request) {
       throw new Error('No headline provided')
     }
 
-    devLog('Calling uploadImageToStorage', {
+    devLog('Calling uploadOptimizedImage', {
       prefix: 'api:upload-image',
       level: 'debug'
     }, {
@@ -61,12 +73,14 @@ export async function POST(request: Request) {
       }
     })
 
-    const imageUrl = await uploadImageToStorage(
+    // AVIF, WebP and PNG at each responsive width; imageUrl is the widest PNG
+    const { imageUrl, manifest } = await uploadOptimizedImage(
       imageData,
       headline,
       {
         newsId,
-        bucket: 'news-images'
+        bucket: 'news-images',
+        variant: typeof variant === 'number' ? variant : undefined
       }
     )
 
@@ -77,12 +91,13 @@ export async function POST(request: Request) {
       data: {
         newsId,
         imageUrl,
+        renditions: manifest.renditions.length,
         timestamp: new Date().toISOString()
       }
     })
 
     if (!imageUrl) {
-      devLog('No image URL returned from uploadImageToStorage', {
+      devLog('No image URL returned from uploadOptimizedImage', {
         prefix: 'api:upload-image',
         level: 'error'
       }, {
@@ -94,7 +109,7 @@ export async function POST(request: Request) {
       throw new Error('Failed to get image URL')
     }
 
-    return NextResponse.json({ imageUrl })
+    return NextResponse.json({ imageUrl, manifest })
 
   } catch (error) {
     devLog('Image upload failed', {
@@ -109,7 +124,9 @@ export async function POST(request: Request) {
 
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to upload image' },
-      { status: 500 }
+      { status: error instanceof ImageUploadError ? error.status : 500 }
     )
   }
-} 
\ No newline at end of file
+} 
+// sharp has no edge build
+export const runtime = 'nodejs'
@@ -0,0 +1,53 @@
+'use client'
+
+import Image from 'next/image'
+import { cn } from '@/lib/utils'
+import type { ImageVariant } from '@/types/image'
+
+interface ImageVariantPickerProps {
+  // The story's current image, shown first and marked as picked
+  imageUrl?: string
+  alternates: ImageVariant[]
+  onPick: (imageUrl: string) => void | Promise<void>
+  disabled?: boolean
+  className?: string
+}
+
+// Thumbnail strip under a news card's image; picking one makes it the story's image
+export function ImageVariantPicker({
+  imageUrl,
+  alternates,
+  onPick,
+  disabled = false,
+  className
+}: ImageVariantPickerProps) {
+  if (!alternates.length) return null
+
+  const thumbnails = [
+    ...(imageUrl ? [{ url: imageUrl, seed: undefined, picked: true }] : []),
+    ...alternates.map(variant => ({ url: variant.image_url, seed: variant.params.seed, picked: false }))
+  ]
+
+  return (
+    <div role="group" aria-label="Image variants" className={cn('flex gap-2 overflow-x-auto py-2', className)}>
+      {thumbnails.map(({ url, seed, picked }, index) => (
+        <button
+          key={url}
+          type="button"
+          aria-pressed={picked}
+          aria-label={picked ? 'Current image' : `Use variant ${index + 1}`}
+          title={seed === undefined ? undefined : `Seed ${seed}`}
+          disabled={disabled || picked}
+          onClick={() => onPick(url)}
+          className={cn(
+            'relative h-16 w-24 shrink-0 overflow-hidden rounded-md border-2 transition',
+            picked ? 'border-primary' : 'border-transparent opacity-80 hover:opacity-100',
+            disabled && !picked && 'cursor-wait opacity-50'
+          )}
+        >
+          <Image src={url} alt="" fill sizes="96px" className="object-cover" />
+        </button>
+      ))}
+    </div>
+  )
+}
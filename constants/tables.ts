@@ -1 +1,6 @@
-export const NEWS_TABLE = 'news_history'
\ No newline at end of file
+export const NEWS_TABLE = 'news_history'
+export const SOURCE_CURSORS_TABLE = 'news_source_cursors'
+export const MEDIA_JOBS_TABLE = 'media_generation_jobs'
+export const NEWS_SOURCES_TABLE = 'news_sources'
+export const ART_STYLES_TABLE = 'art_styles'
+export const USER_ART_STYLES_TABLE = 'user_art_styles'
@@ -1,8 +1,25 @@
 'use client'
 
-import { ArtStyle } from '@/types/art'
-import type { ArtStyleKey } from '@/types/news'
+import { useCallback } from 'react'
+import { ArtStyle, type ArtStyleDefinition, type StyleRecommendation } from '@/types/art'
+import type { ArtStyleKey, NewsCategory, NewsLanguage } from '@/types/news'
 import { getArtStyleValue } from '@/lib/utils/art'
+import { devLog } from '@/lib/utils/log'
+import { getAuthHeaders } from '@/lib/supabase/client'
+
+// What the style picker offers: the shared catalog next to the caller's own styles
+export interface AvailableArtStyles {
+  styles: ArtStyleDefinition[]
+  custom: ArtStyleDefinition[]
+  customLimit: number
+}
+
+// Story details the recommender can use beyond the headline
+export interface StyleRecommendationOptions {
+  category?: NewsCategory
+  language?: NewsLanguage
+  limit?: number
+}
 
 interface ArtStyleConfig {
   id: string
@@ -40,14 +57,64 @@ const artStyles: ArtStyleConfig[] = [
 ]
 
 export function useArtStyle() {
-  const getRandomStyle = (): ArtStyleKey => {
+  const getRandomStyle = useCallback((): ArtStyleKey => {
     const styles = Object.keys(ArtStyle) as ArtStyleKey[]
     const randomIndex = Math.floor(Math.random() * styles.length)
     return styles[randomIndex]
-  }
+  }, [])
+
+  const loadStyles = useCallback(async (): Promise<AvailableArtStyles> => {
+    const response = await fetch('/api/art-styles', {
+      // Custom styles belong to the signed-in user
+      headers: await getAuthHeaders()
+    })
+
+    if (!response.ok) {
+      throw new Error('Failed to load art styles')
+    }
+
+    return response.json()
+  }, [])
+
+  const recommendStyles = useCallback(async (
+    headline: string,
+    options: StyleRecommendationOptions = {}
+  ): Promise<StyleRecommendation[]> => {
+    const response = await fetch('/api/art-styles/recommend', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ headline, ...options })
+    })
+
+    if (!response.ok) {
+      throw new Error('Failed to recommend art styles')
+    }
+
+    return (await response.json()).recommendations
+  }, [])
+
+  // Top recommendation for a card, or a random built-in style when the recommender is unreachable
+  const pickStyle = useCallback(async (
+    headline: string,
+    options: StyleRecommendationOptions = {}
+  ): Promise<string> => {
+    try {
+      const [top] = await recommendStyles(headline, { ...options, limit: 1 })
+      if (top) return top.style
+    } catch (error) {
+      devLog('Style recommendation failed, picking at random', {
+        prefix: 'art-style',
+        level: 'warn'
+      }, { error })
+    }
+    return getRandomStyle()
+  }, [recommendStyles, getRandomStyle])
 
   return {
     getRandomStyle,
-    getArtStyleValue
+    getArtStyleValue,
+    loadStyles,
+    recommendStyles,
+    pickStyle
   }
 } 
\ No newline at end of file
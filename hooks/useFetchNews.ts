@@ -1,7 +1,10 @@
 import { useState, useCallback } from 'react'
+import { useAtomValue } from 'jotai'
 import { useRateLimit } from '../hooks/useRateLimit'
-import { useSession } from '../hooks/useSession'
+import { getAuthHeaders } from '@/lib/supabase/client'
 import { devLog } from '../lib/utils/log'
+import { toNewsFilterParams } from '@/lib/utils/filters'
+import { newsFiltersAtom } from '@/lib/atoms/news'
 import type { NewsData } from '@/types/news'
 
 interface FetchNewsState {
@@ -12,7 +15,7 @@ interface FetchNewsState {
 
 export function useFetchNews() {
   const { checkAndDecrementLimit, remainingLimit, isAnonymous } = useRateLimit()
-  const { getSession } = useSession()
+  const filters = useAtomValue(newsFiltersAtom)
   const [state, setState] = useState<FetchNewsState>({
     isLoading: false,
     error: null,
@@ -29,15 +32,11 @@ export function useFetchNews() {
         throw new Error('Rate limit exceeded')
       }
 
-      // Fetch news from API
-      const response = await fetch('/api/fetch-news', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          session: getSession()
-        })
+      // Fetch news from API for the active filters
+      const query = toNewsFilterParams(filters).toString()
+      const response = await fetch(query ? `/api/fetch-news?${query}` : '/api/fetch-news', {
+        // Premium sources are unlocked by the signed-in user's subscription
+        headers: await getAuthHeaders()
       })
 
       if (!response.ok) {
@@ -68,7 +67,7 @@ export function useFetchNews() {
 
       throw error
     }
-  }, [checkAndDecrementLimit, getSession])
+  }, [checkAndDecrementLimit, filters])
 
   return {
     ...state,
@@ -2,6 +2,8 @@ import { useState, useCallback } from 'react'
 import { devLog } from '@/lib/utils/log'
 import type { NewsItem } from '@/types/news'
 import { mediaService } from '@/lib/services/media'
+import { getAccessToken } from '@/lib/supabase/client'
+import { useSubscription } from '@/hooks/useSubscription'
 import type { ArtStyleKey } from '@/types/art'
 
 interface ImageState {
@@ -13,6 +15,7 @@ interface ImageState {
 }
 
 export function useImageGeneration() {
+  const { getPlan } = useSubscription()
   const [state, setState] = useState<ImageState>({
     url: undefined,
     isGenerating: false,
@@ -39,10 +42,16 @@ export function useImageGeneration() {
         }
       })
 
+      // Plans with variants draw a set for the card's picker; the first is the image
+      const { imageVariants } = await getPlan()
+
       const result = await mediaService.generateMedia({
         headline: newsItem.headline,
         artStyle: newsItem.art_style as ArtStyleKey,
         newsId: newsItem.id,
+        // Lets the reader's own styles and plan limits apply
+        accessToken: await getAccessToken() ?? undefined,
+        imageVariants: imageVariants > 1 ? { count: imageVariants } : undefined,
         onProgress: (progress) => {
           devLog('Generation progress', {
             prefix: 'useImageGeneration',
@@ -98,7 +107,7 @@ export function useImageGeneration() {
 
       throw error
     }
-  }, [])
+  }, [getPlan])
 
   return {
     ...state,
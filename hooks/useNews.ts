@@ -1,11 +1,12 @@
 'use client'
 
-import type { NewsResponse, ImageResponse, NewsState } from '@/types/news'
-import type { ArtStyleKey } from '@/types/news'
+import type { NewsState } from '@/types/news'
 import { NEWS_TABLE } from '@/constants/tables'
+import { getAuthHeaders } from '@/lib/supabase/client'
 
 // REACT
 import { useState, useCallback, useEffect } from 'react'
+import { useAtomValue } from 'jotai'
 
 // HOOKS
 import { useApi } from './useApi'
@@ -16,6 +17,11 @@ import { devLog } from '@/lib/utils/log'
 import { ArtStyle } from '@/types/art'
 import { config } from '@/lib/config'
 import { getArtStyleKey } from '@/lib/utils/art'
+import { toNewsFilterParams } from '@/lib/utils/filters'
+import { newsFiltersAtom } from '@/lib/atoms/news'
+import { FetchNewsResponseSchema, formatIssues, type FetchNewsResponse } from '@/lib/schemas/news'
+import { NewsPayloadError } from '@/lib/utils/errors'
+import { toNewsItem, type NewsItemInput } from '@/lib/utils/news-item'
 
 // SUPABASE
 import { useSupabaseApp } from '@/hooks/useSupabaseApp'
@@ -39,50 +45,66 @@ export function useNews() {
   const { supabase } = useSupabaseApp()
   const { checkAndDecrementLimit, remainingLimit, isAnonymous } = useRateLimit()
   const { getSession } = useSession()
+  const filters = useAtomValue(newsFiltersAtom)
   const [state, setState] = useState<NewsState>({
     isLoading: false,
     isSaving: false,
     error: null,
-    data: null,
-    headline: '',
-    source: '',
-    url: '',
-    art_style: 'Vincent Van Gogh'
+    data: null
   })
 
-  const saveNewsToHistory = useCallback(async (newsData: NewsState) => {
+  const saveNewsToHistory = useCallback(async (article: FetchNewsResponse['news'][number]) => {
+    if (!supabase) {
+      throw new Error('Supabase client is not initialized')
+    }
+
     setState(prev => ({ ...prev, isSaving: true, error: null }))
 
     try {
       const session = getSession()
       
-      // Save to news_history
-      const { data, error: dbError } = await supabase
+      // Save to news_history; a story someone already saved comes back as it is, media included
+      const { data: inserted, error: dbError } = await supabase
         .from(NEWS_TABLE)
-        .insert({
-          headline: newsData.headline,
-          source_name: newsData.source,
-          url: newsData.url,
-          image_url: newsData.image_url,
-          audio_url: newsData.audio_url,
-          audio_alignment: newsData.audio_alignment,
-          art_style: newsData.art_style,
+        .upsert({
+          headline: article.headline,
+          source: article.source,
+          url: article.url,
+          published_at: article.published_at ?? null,
           user_email: session?.email || null,
           created_at: new Date().toISOString()
+        }, {
+          onConflict: 'headline,source',
+          ignoreDuplicates: true
         })
         .select()
-        .single()
+        .maybeSingle()
 
       if (dbError) {
         throw dbError
       }
 
+      let data = inserted
+      if (!data) {
+        const { data: existing, error: lookupError } = await supabase
+          .from(NEWS_TABLE)
+          .select()
+          .eq('headline', article.headline)
+          .eq('source', article.source)
+          .single()
+
+        if (lookupError) {
+          throw lookupError
+        }
+        data = existing
+      }
+
       devLog('News saved to history', {
         prefix: 'news',
         level: 'info'
       }, { data })
 
-      return data
+      return data as unknown as NewsItemInput
 
     } catch (error) {
       devLog('Failed to save news to history', {
@@ -105,22 +127,31 @@ export function useNews() {
         throw new Error('Rate limit exceeded')
       }
 
-      // Fetch news from API
-      const response = await fetch('/api/fetch-news')
+      // Fetch news from API for the active filters
+      const query = toNewsFilterParams(filters).toString()
+      const response = await fetch(query ? `/api/fetch-news?${query}` : '/api/fetch-news', {
+        // Premium sources are unlocked by the signed-in user's subscription
+        headers: await getAuthHeaders()
+      })
       if (!response.ok) {
         throw new Error('Failed to fetch news')
       }
 
-      const newsData = await response.json()
+      // Reject malformed payloads here rather than saving or rendering them
+      const parsed = FetchNewsResponseSchema.safeParse(await response.json().catch(() => null))
+      if (!parsed.success) {
+        throw new NewsPayloadError('api', 'Malformed news response', formatIssues(parsed.error))
+      }
+      const newsData = parsed.data
 
-      // Save to history
-      const savedNews = await saveNewsToHistory(newsData)
+      // Save the lead article to history
+      const savedNews = await saveNewsToHistory(newsData.news[0])
 
       setState(prev => ({
         ...prev,
         isLoading: false,
         error: null,
-        data: savedNews
+        data: toNewsItem(savedNews)
       }))
 
       devLog('News fetched and saved', {
@@ -148,7 +179,7 @@ export function useNews() {
 
       throw error
     }
-  }, [checkAndDecrementLimit, saveNewsToHistory])
+  }, [checkAndDecrementLimit, saveNewsToHistory, filters])
 
   const getLatestNews = useCallback(async () => {
     try {
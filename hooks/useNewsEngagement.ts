@@ -0,0 +1,74 @@
+'use client'
+
+import { useCallback, useEffect } from 'react'
+import { z } from 'zod'
+import { devLog } from '@/lib/utils/log'
+import type { NewsEngagementKind, NewsItem } from '@/types/news'
+
+// Stories already counted as viewed in this tab, so re-renders and remounts don't add views
+const viewedNews = new Set<string>()
+
+// Fire and forget: engagement only steers style recommendations, it never blocks the card
+function recordEngagement(newsId: string, kind: NewsEngagementKind) {
+  fetch(`/api/news/${newsId}/engagement`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ kind }),
+    keepalive: true
+  }).catch(error => {
+    devLog('Recording engagement failed', {
+      prefix: 'news-engagement',
+      level: 'warn'
+    }, { error, data: { newsId, kind } })
+  })
+}
+
+// Articles not stored yet carry a headline-derived id and have nothing to count against
+function isStoredNews(newsId?: string): newsId is string {
+  return z.string().uuid().safeParse(newsId).success
+}
+
+/**
+ * Counts a view once the card shows a stored story, and hands back the
+ * share and save actions that count the other two kinds.
+ */
+export function useNewsEngagement(news?: Pick<NewsItem, 'id' | 'headline' | 'url'> | null) {
+  const newsId = news?.id
+
+  useEffect(() => {
+    if (!isStoredNews(newsId) || viewedNews.has(newsId)) return
+    viewedNews.add(newsId)
+    recordEngagement(newsId, 'views')
+  }, [newsId])
+
+  // Native share sheet where there is one, the clipboard otherwise; cancelling the sheet isn't a share
+  const shareNews = useCallback(async () => {
+    if (!news) return false
+
+    try {
+      if (typeof navigator.share === 'function') {
+        await navigator.share({ title: news.headline, url: news.url })
+      } else {
+        await navigator.clipboard.writeText(news.url)
+      }
+    } catch (error) {
+      devLog('Sharing news failed', {
+        prefix: 'news-engagement',
+        level: 'debug'
+      }, { error, data: { newsId: news.id } })
+      return false
+    }
+
+    if (isStoredNews(news.id)) recordEngagement(news.id, 'shares')
+    return true
+  }, [news])
+
+  const recordSave = useCallback(() => {
+    if (isStoredNews(newsId)) recordEngagement(newsId, 'saves')
+  }, [newsId])
+
+  return {
+    shareNews,
+    recordSave
+  }
+}
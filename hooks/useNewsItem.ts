@@ -1,9 +1,9 @@
 import { useState, useEffect, useMemo } from 'react'
 import { devLog } from '@/lib/utils/log'
-import type { NewsItem, NewsSource } from '@/types/news'
+import type { NewsItem } from '@/types/news'
 import type { NewsHistoryItem } from '@/lib/atoms'
-import type { ArtStyleKey } from '@/types/art'
-import { normalizeAudioAlignment } from '@/lib/audio/alignment'
+import { toNewsItem } from '@/lib/utils/news-item'
+import { useNewsEngagement } from '@/hooks/useNewsEngagement'
 
 interface UseNewsItemProps {
   initialData: NewsHistoryItem | null
@@ -69,30 +69,7 @@ export function useNewsItem({ initialData, onUpdate }: UseNewsItemProps) {
       }
     })
 
-    const transformed: NewsItem = {
-      id: initialData.id,
-      headline: initialData.headline,
-      source_name: initialData.source_name,
-      source_url: initialData.url,
-      url: initialData.url,
-      published_at: initialData.created_at,
-      image: {
-        url: initialData.image_url,
-        isGenerating: false,
-        isPending: false,
-        error: null
-      },
-      audio_url: initialData.audio_url,
-      audio_alignment: normalizeAudioAlignment(initialData.audio_alignment),
-      art_style: (initialData.art_style || 'VanGogh') as ArtStyleKey,
-      prompt: initialData.prompt,
-      source: {
-        id: initialData.source_name,
-        name: initialData.source_name,
-        url: initialData.url,
-        type: 'api'
-      }
-    }
+    const transformed = toNewsItem(initialData)
 
     devLog('useNewsItem: Transformation complete', {
       prefix: 'use-news-item',
@@ -152,5 +129,8 @@ export function useNewsItem({ initialData, onUpdate }: UseNewsItemProps) {
     }
   }, [transformedData, newsItem, onUpdate])
 
+  // The card showing this item counts as a view
+  useNewsEngagement(newsItem)
+
   return newsItem
 } 
\ No newline at end of file
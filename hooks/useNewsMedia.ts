@@ -3,11 +3,14 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
 import { devLog } from '@/lib/utils/log'
 import { useToast } from '@/hooks/use-toast'
-import { ArtStyle } from '@/types/art'
 import { audioService } from '@/lib/services/audio'
 import { useArtStyle } from '@/hooks/useArtStyle'
+import { formatArtStyleLabel } from '@/lib/utils/art'
+import { getAuthHeaders } from '@/lib/supabase/client'
 import type { AudioState, ImageState } from '@/types/news'
 import type { ArtStyleKey } from '@/types/art'
+import type { ImageVariant } from '@/types/image'
+import type { NewsItem } from '@/types/news'
 
 interface UseNewsMediaProps {
   headline: string
@@ -17,6 +20,8 @@ interface UseNewsMediaProps {
   audioUrl?: string
   audioAlignment?: any
   artStyle?: ArtStyleKey
+  // Variants drawn with the image and not picked, from news_history.image_alternates
+  imageAlternates?: ImageVariant[]
   currentNews?: { id: string }
   onImageGenerated?: (url: string) => Promise<void>
   autoGenerate?: boolean
@@ -35,12 +40,13 @@ export function useNewsMedia({
   audioUrl,
   audioAlignment,
   artStyle,
+  imageAlternates: initialAlternates,
   currentNews,
   onImageGenerated,
   autoGenerate = false
 }: UseNewsMediaProps) {
   const { toast } = useToast()
-  const { getRandomStyle } = useArtStyle()
+  const { pickStyle } = useArtStyle()
   const hasGeneratedAudio = useRef(false)
   const isGeneratingRef = useRef(false)
   const generationAttempts = useRef(0)
@@ -91,6 +97,9 @@ export function useNewsMedia({
     }
   })
 
+  const [imageAlternates, setImageAlternates] = useState<ImageVariant[]>(initialAlternates ?? [])
+  const [isPickingVariant, setIsPickingVariant] = useState(false)
+
   // Log state changes
   useEffect(() => {
     devLog('useNewsMedia: State updated', {
@@ -238,9 +247,8 @@ export function useNewsMedia({
         }
       }))
       
-      // Use existing art style or get random one using the proper function
-      const artStyle = state.image.artStyle || getRandomStyle()
-      const displayStyle = ArtStyle[artStyle]
+      // Keep an existing art style, otherwise use the one recommended for this headline
+      const artStyle = state.image.artStyle || await pickStyle(headline)
       
       devLog('Generating image', {
         prefix: 'news-media',
@@ -249,7 +257,6 @@ export function useNewsMedia({
         data: {
           headline,
           artStyle,
-          displayStyle,
           existingImage: state.image.url
         }
       })
@@ -259,7 +266,7 @@ export function useNewsMedia({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           headline,
-          style: displayStyle,
+          style: artStyle,
           newsId: currentNews?.id // Pass the newsId if available
         })
       })
@@ -278,7 +285,8 @@ export function useNewsMedia({
           ...prev.image,
           isGenerating: false,
           url: data.imageUrl,
-          artStyle
+          // The key the route resolved to, `blend:` specs included
+          artStyle: data.artStyle ?? artStyle
         }
       }))
 
@@ -311,7 +319,7 @@ export function useNewsMedia({
         variant: 'destructive'
       })
     }
-  }, [headline, state.image.isGenerating, state.image.url, state.image.artStyle, toast, currentNews?.id, onImageGenerated, getRandomStyle])
+  }, [headline, state.image.isGenerating, state.image.url, state.image.artStyle, toast, currentNews?.id, onImageGenerated, pickStyle])
   
   const generateAudio = useCallback(async () => {
     // Add detailed logging for the initial check
@@ -459,7 +467,7 @@ export function useNewsMedia({
         })
       }
     }
-  }, [headline, state.audio.isGenerating, state.audio.url, toast, currentNews, getRandomStyle])
+  }, [headline, state.audio.isGenerating, state.audio.url, toast, currentNews])
 
   // Update audio state when props change
   useEffect(() => {
@@ -546,8 +554,61 @@ export function useNewsMedia({
     }
   }, [generateImage, generateAudio, state, isThrottled])
 
+  // Promotes an alternate to the story's image; the one it replaces becomes an alternate
+  const pickImageVariant = useCallback(async (variantUrl: string) => {
+    if (!currentNews?.id || isPickingVariant) return
+
+    try {
+      setIsPickingVariant(true)
+      const response = await fetch(`/api/news/${currentNews.id}/image-variant`, {
+        method: 'POST',
+        // Only the reader who drew the variants may pick one
+        headers: { 'Content-Type': 'application/json', ...await getAuthHeaders() },
+        body: JSON.stringify({ imageUrl: variantUrl })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to pick image variant')
+      }
+
+      const news: NewsItem = await response.json()
+      setImageAlternates(news.image_alternates ?? [])
+      setState(prev => ({
+        ...prev,
+        image: {
+          ...prev.image,
+          url: news.image.url,
+          artStyle: news.art_style
+        }
+      }))
+
+      if (news.image.url && onImageGenerated) {
+        await onImageGenerated(news.image.url)
+      }
+    } catch (error) {
+      devLog('Picking image variant failed', {
+        prefix: 'news-media',
+        level: 'error'
+      }, { error, data: { newsId: currentNews.id, variantUrl } })
+
+      toast({
+        title: 'Could Not Switch Image',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsPickingVariant(false)
+    }
+  }, [currentNews?.id, isPickingVariant, onImageGenerated, toast])
+
   return {
     state,
+    // Short label for the card and history, e.g. `Monet \u00d7 Dali` for a blend
+    artStyleLabel: formatArtStyleLabel(state.image.artStyle ?? artStyle),
+    imageAlternates,
+    isPickingVariant,
+    pickImageVariant,
     generateMedia,
     retryGeneration
   }
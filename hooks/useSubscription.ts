@@ -1,6 +1,7 @@
+import { useCallback } from 'react'
 import { useAtom } from 'jotai'
 import { userEmailAtom } from '../lib/atoms'
-import { SUBSCRIPTION_TIERS, SubscriptionTier } from '../lib/constants/plans'
+import { SUBSCRIPTION_TIERS, SubscriptionTier, type Plan } from '../lib/constants/plans'
 import { subscriptionQueries } from '../lib/supabase'
 
 type UsageCheckResult = {
@@ -29,5 +30,13 @@ export function useSubscription() {
     };
   };
 
-  return { checkUsageLimit };
+  // The signed-in reader's plan; Free for anonymous readers and when there's no active subscription
+  const getPlan = useCallback(async (): Promise<Plan> => {
+    const subscription = email
+      ? await subscriptionQueries.getCurrentSubscription(email).catch(() => null)
+      : null;
+    return SUBSCRIPTION_TIERS[(subscription?.tier || 'FREE') as SubscriptionTier];
+  }, [email]);
+
+  return { checkUsageLimit, getPlan };
 } 
\ No newline at end of file
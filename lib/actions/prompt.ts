@@ -0,0 +1,10 @@
+'use server'
+
+import { PromptRequestSchema, type PromptRequest } from '@/lib/schemas/prompt'
+import { promptGenerator } from '@/lib/services/prompt-generator'
+import type { PromptResponse } from '@/types/prompt'
+
+// Same generation as /api/generate-prompt, without the HTTP round trip
+export async function generatePrompt(input: PromptRequest): Promise<PromptResponse> {
+  return promptGenerator.generate(PromptRequestSchema.parse(input))
+}
@@ -2,16 +2,21 @@
 
 import { devLog } from '../utils/log'
 import { getAdminSupabase } from '../supabase/client'
+import { optimizeImage } from '../utils/optimize-image'
+import { IMAGE_MIME_TYPES } from '../utils/image-manifest'
+import { IMAGE_OPTIMIZATION_CONFIG } from '../config/image-models'
+import type { ImageManifest } from '@/types/image'
 
 export async function uploadToStorage(
   imageData: Blob,
   fileName: string,
-  options: { bucket?: string; path?: string } = {}
+  options: { bucket?: string; path?: string; contentType?: string; cacheControl?: string } = {}
 ): Promise<string> {
   try {
     const bucket = options.bucket || 'news-images'
     const path = options.path || 'generated'
     const fullPath = `${path}/${fileName}`
+    const contentType = options.contentType || 'image/png'
 
     devLog('Starting storage upload', {
       prefix: 'storage-action',
@@ -58,7 +63,8 @@ export async function uploadToStorage(
       .from(bucket)
       .upload(fullPath, buffer, {
         upsert: true,
-        contentType: 'image/png'
+        contentType,
+        cacheControl: options.cacheControl
       })
 
     if (error) {
@@ -246,4 +252,66 @@ export async function uploadImageToStorage(
     }, { error })
     throw error
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Runs a generated image through the optimization pipeline and writes
+ * every rendition through uploadToStorage, under one folder per image.
+ * `imageUrl` is the widest PNG, for anything that can't use the manifest.
+ */
+export async function uploadOptimizedImage(
+  base64Data: string,
+  headline: string,
+  options: { bucket?: string; newsId?: string; variant?: number } = {}
+): Promise<{ imageUrl: string; manifest: ImageManifest }> {
+  const { bucket = 'news-images', newsId, variant } = options
+  const optimized = await optimizeImage(Buffer.from(base64Data, 'base64'))
+
+  // Variants of one request upload within the same millisecond, the index keeps them apart
+  const variantSuffix = variant === undefined ? '' : `_v${variant}`
+  const folder = `optimized/ai24live_${headline.slice(0, 50).replace(/[^a-z0-9]/gi, '_')}_${Date.now()}${variantSuffix}`
+
+  devLog('Uploading optimized image', {
+    prefix: 'storage-action',
+    level: 'debug'
+  }, {
+    data: {
+      folder,
+      newsId,
+      width: optimized.width,
+      height: optimized.height,
+      renditions: optimized.renditions.map(({ format, width, data }) => `${format}@${width}: ${data.length}`)
+    }
+  })
+
+  const renditions: ImageManifest['renditions'] = []
+  for (const rendition of optimized.renditions) {
+    const contentType = IMAGE_MIME_TYPES[rendition.format]
+    const url = await uploadToStorage(
+      new Blob([rendition.data], { type: contentType }),
+      `${rendition.width}w.${rendition.format}`,
+      { bucket, path: folder, contentType, cacheControl: IMAGE_OPTIMIZATION_CONFIG.cacheControl }
+    )
+    renditions.push({
+      url,
+      format: rendition.format,
+      width: rendition.width,
+      height: rendition.height,
+      bytes: rendition.data.length
+    })
+  }
+
+  const fallback = renditions.filter(rendition => rendition.format === 'png').at(-1)
+  if (!fallback) {
+    throw new Error('Image optimization produced no PNG fallback')
+  }
+
+  return {
+    imageUrl: fallback.url,
+    manifest: {
+      width: optimized.width,
+      height: optimized.height,
+      placeholder: optimized.placeholder,
+      renditions
+    }
+  }
+}
@@ -1,14 +1,5 @@
-import { ArtStyle } from '@/types/art'
-
-export interface ArtStyleDescription {
-  name: string
-  description: string
-  keywords: string[]
-  negativePrompt?: string
-  composition?: string
-  lighting?: string
-  colorPalette?: string
-}
+import { ArtStyle, type ArtStyleBlend, type ArtStyleDefinition, type ArtStyleDescription } from '@/types/art'
+import { formatBlendSpec } from '@/lib/utils/art/blend'
 
 export const artStyleDescriptions: Record<keyof typeof ArtStyle, ArtStyleDescription> = {
   VanGogh: {
@@ -76,17 +67,91 @@ export const artStyleDescriptions: Record<keyof typeof ArtStyle, ArtStyleDescrip
   }
 }
 
+// Seed for the art_styles catalog and its fallback when the table is unreachable
+export const BUILT_IN_ART_STYLES: ArtStyleDefinition[] = Object.entries(artStyleDescriptions)
+  .map(([key, description]) => ({ key, ...description, isActive: true }))
+
+const BLEND_KEYWORDS = 10
+
+function splitTerms(text?: string): string[] {
+  return (text ?? '').split(',').map(term => term.trim().toLowerCase()).filter(Boolean)
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z]+/g) ?? []
+}
+
+// Leading style's phrase, then the other's, worded by how much of it there is
+function blendPhrase(major?: string, minor?: string, minorWeight = 0): string | undefined {
+  if (!major || !minor) return major ?? minor
+  return minorWeight <= 30 ? `${major}, with touches of ${minor}` : `${major}, combined with ${minor}`
+}
+
+/**
+ * Two styles mixed by weight. Keywords are drawn in proportion; a minor
+ * keyword the leading style explicitly avoids is dropped, and any avoided
+ * term the blend now asks for (as a keyword or in its composition, lighting
+ * or palette) leaves the negative prompt, so the two never contradict.
+ */
+export function blendArtStyles(
+  blend: ArtStyleBlend,
+  styles: [ArtStyleDescription, ArtStyleDescription]
+): ArtStyleDefinition {
+  const order = blend.parts[0].weight >= blend.parts[1].weight ? [0, 1] : [1, 0]
+  const [major, minor] = order.map(index => styles[index])
+  const [majorPart, minorPart] = order.map(index => blend.parts[index])
+
+  const majorAvoids = new Set(splitTerms(major.negativePrompt))
+  const minorCount = Math.max(1, Math.round(BLEND_KEYWORDS * minorPart.weight / 100))
+  const keywords = Array.from(new Set([
+    ...major.keywords.slice(0, BLEND_KEYWORDS - minorCount),
+    ...minor.keywords.filter(keyword => !majorAvoids.has(keyword.toLowerCase())).slice(0, minorCount)
+  ]))
+
+  const composition = blendPhrase(major.composition, minor.composition, minorPart.weight)
+  const lighting = blendPhrase(major.lighting, minor.lighting, minorPart.weight)
+  const colorPalette = blendPhrase(major.colorPalette, minor.colorPalette, minorPart.weight)
+
+  const wanted = new Set([
+    ...keywords.flatMap(words),
+    ...words([composition, lighting, colorPalette].filter(Boolean).join(' '))
+  ])
+  const negativeTerms = Array.from(new Set([
+    ...splitTerms(major.negativePrompt),
+    ...splitTerms(minor.negativePrompt)
+  ])).filter(term => !words(term).every(word => wanted.has(word)))
+
+  return {
+    key: formatBlendSpec(blend),
+    name: `${major.name} \u00d7 ${minor.name}`,
+    description: `A blend of ${majorPart.weight}% ${major.name} and ${minorPart.weight}% ${minor.name}. ` +
+      `Mostly ${major.description.charAt(0).toLowerCase()}${major.description.slice(1)} ` +
+      `Borrowing from ${minor.name}: ${minor.description.charAt(0).toLowerCase()}${minor.description.slice(1)}`,
+    keywords,
+    negativePrompt: negativeTerms.length ? negativeTerms.join(', ') : undefined,
+    composition,
+    lighting,
+    colorPalette,
+    isActive: true
+  }
+}
+
 // Helper function to randomly select elements from an array
-function getRandomElements<T>(array: T[], count: number): T[] {
-  const shuffled = [...array].sort(() => 0.5 - Math.random());
+function getRandomElements<T>(array: T[], count: number, random: () => number = Math.random): T[] {
+  const shuffled = [...array].sort(() => 0.5 - random());
   return shuffled.slice(0, count);
 }
 
-export function getArtStylePrompt(style: keyof typeof ArtStyle, headline: string): string {
-  const description = artStyleDescriptions[style]
+// Pass a seeded `random` to get the same keywords for the same input
+export function getArtStylePrompt(
+  style: keyof typeof ArtStyle | ArtStyleDescription,
+  headline: string,
+  random: () => number = Math.random
+): string {
+  const description = typeof style === 'string' ? artStyleDescriptions[style] : style
   
   // Randomly select 5 keywords for variety
-  const selectedKeywords = getRandomElements(description.keywords, 5)
+  const selectedKeywords = getRandomElements(description.keywords, 5, random)
   
   // Create the prompt with all necessary elements
   const promptParts = [
@@ -1,5 +1,5 @@
 import { atom } from 'jotai'
-import type { NewsItem } from '@/types/news'
+import type { NewsCategory, NewsCountry, NewsItem, NewsLanguage } from '@/types/news'
 
 // Atom for the current news item
 export const newsAtom = atom<NewsItem | null>(null)
@@ -25,6 +25,11 @@ export const newsGenerationAtom = atom<{
 // Atom for news filters
 export const newsFiltersAtom = atom<{
   source?: string
+  sources?: string[]
+  categories?: NewsCategory[]
+  countries?: NewsCountry[]
+  languages?: NewsLanguage[]
+  search?: string
   dateRange?: {
     start: string
     end: string
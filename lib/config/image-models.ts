@@ -0,0 +1,98 @@
+import type { ImageAspectPreset, ImageFormat, ImageProviderId } from '@/types/image'
+import { modelList } from './models'
+
+const TOGETHER_API_KEY = process.env.TOGETHER_API_KEY || ''
+const HELICONE_API_KEY = process.env.HELICONE_API_KEY || ''
+const TOGETHER_IMAGE_MODEL = 'black-forest-labs/FLUX.1-schnell'
+const OPENAI_IMAGE_MODEL = process.env.OPENAI_IMAGE_MODEL || 'dall-e-3'
+
+function defaultProvider(): ImageProviderId {
+  // The mock flag used to return a 1x1 PNG; the procedural renderer draws a real placeholder instead
+  if (process.env.NEXT_PUBLIC_MOCK_API === 'true') return 'procedural'
+  if (TOGETHER_API_KEY) return HELICONE_API_KEY ? 'helicone' : 'together'
+  // Production without a key keeps Together so getDefaultImageProvider reports it instead of drawing placeholders
+  return process.env.NODE_ENV === 'production' ? 'together' : 'procedural'
+}
+
+const IMAGE_PROVIDER = (process.env.IMAGE_PROVIDER || defaultProvider()) as ImageProviderId
+const IMAGE_MODEL = process.env.IMAGE_MODEL || undefined
+
+// IMAGE_MODEL names a model of the configured provider, not of a fallback
+function configuredModel(provider: ImageProviderId): string | undefined {
+  return provider === IMAGE_PROVIDER ? IMAGE_MODEL : undefined
+}
+
+export const IMAGE_MODEL_CONFIG = {
+  provider: IMAGE_PROVIDER,
+  // Overrides the selected provider's default model
+  model: IMAGE_MODEL,
+  // Models a request may pick with `model`; anything else is refused rather than paid for
+  allowedModels: {
+    together: modelList(process.env.TOGETHER_IMAGE_MODELS, TOGETHER_IMAGE_MODEL, configuredModel('together')),
+    helicone: modelList(process.env.TOGETHER_IMAGE_MODELS, TOGETHER_IMAGE_MODEL, configuredModel('helicone')),
+    openai: modelList(process.env.OPENAI_IMAGE_MODELS, OPENAI_IMAGE_MODEL, configuredModel('openai')),
+    procedural: modelList(undefined, 'procedural-v1', configuredModel('procedural'))
+  } satisfies Record<ImageProviderId, string[]>,
+  // Used when a request names neither a preset nor a size
+  preset: 'landscape' as ImageAspectPreset,
+  steps: 3,
+  // Request bounds; the caller's plan may cap them lower (imageLimits in lib/constants/plans.ts)
+  minSide: 256,
+  maxSide: 2048,
+  maxSteps: 50,
+  // FLUX and most diffusion models want sides in multiples of 16
+  sideMultiple: 16,
+  requestTimeoutMs: 60000,
+  // Several drawings per call for the reader to pick from; the plan caps the count (imageVariants)
+  variants: {
+    max: 8,
+    // Visualizations each variant uses from the daily quota, rounded up per request
+    usageWeight: Number(process.env.IMAGE_VARIANT_USAGE_WEIGHT || 0.5)
+  },
+  together: {
+    apiKey: TOGETHER_API_KEY,
+    baseUrl: 'https://api.together.xyz/v1',
+    model: TOGETHER_IMAGE_MODEL
+  },
+  // Together behind Helicone's proxy, for request logging and cost tracking
+  helicone: {
+    apiKey: TOGETHER_API_KEY,
+    heliconeApiKey: HELICONE_API_KEY,
+    baseUrl: 'https://together.helicone.ai/v1',
+    model: TOGETHER_IMAGE_MODEL
+  },
+  // Any server speaking the OpenAI images API: OpenAI, LocalAI, a self-hosted diffusion gateway
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY || '',
+    baseUrl: (process.env.OPENAI_IMAGE_BASE_URL || process.env.OPENAI_BASE_URL || '').replace(/\/+$/, ''),
+    model: OPENAI_IMAGE_MODEL,
+    // OpenAI only accepts a few sizes; leave unset to ask for the requested width and height
+    size: process.env.OPENAI_IMAGE_SIZE || undefined,
+    // The OpenAI API has no negative prompt; some self-hosted servers accept one
+    negativePrompt: process.env.OPENAI_IMAGE_NEGATIVE_PROMPT === 'true'
+  }
+}
+
+export const IMAGE_ASPECT_PRESETS: Record<ImageAspectPreset, { width: number; height: number }> = {
+  landscape: { width: 1024, height: 768 },
+  hero: { width: 1024, height: 576 },
+  social: { width: 1024, height: 1024 },
+  story: { width: 576, height: 1024 }
+}
+
+// Renditions written for every stored image (lib/utils/optimize-image.ts)
+export const IMAGE_OPTIMIZATION_CONFIG = {
+  // Responsive widths; each image also keeps its own width, and none is upscaled
+  widths: [320, 640, 1024],
+  // Served in this order of preference; PNG is the fallback every client can show
+  formats: ['avif', 'webp', 'png'] as ImageFormat[],
+  quality: { avif: 50, webp: 75 },
+  // AVIF effort 0-9; higher is smaller and much slower
+  avifEffort: 4,
+  // Width of the inline blurred preview
+  placeholderWidth: 16,
+  // Upload bounds, checked before anything is decoded: the base64 payload, then the header's dimensions
+  maxInputBytes: 12 * 1024 * 1024,
+  maxInputPixels: IMAGE_MODEL_CONFIG.maxSide * IMAGE_MODEL_CONFIG.maxSide,
+  cacheControl: '31536000'
+}
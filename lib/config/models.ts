@@ -0,0 +1,11 @@
+/**
+ * Models a request may name for one provider: the provider's default, the
+ * configured override when this is the configured provider, then the
+ * comma-separated extras from the environment.
+ */
+export function modelList(value: string | undefined, ...defaultModels: Array<string | undefined>): string[] {
+  return Array.from(new Set([
+    ...defaultModels.filter((model): model is string => !!model),
+    ...(value ?? '').split(',').map(model => model.trim()).filter(Boolean)
+  ]))
+}
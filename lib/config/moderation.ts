@@ -0,0 +1,53 @@
+function envList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+}
+
+export const MODERATION_CONFIG = {
+  // Bump when the rules change so audit records say which policy decided them
+  policyVersion: 'v1',
+  // Never illustrated, whatever the prompt says
+  blocklist: [
+    'beheading', 'beheaded', 'child abuse', 'child pornography', 'sexual assault', 'rape', 'raped',
+    'suicide', 'self-harm', 'lynching', 'torture', 'tortured',
+    ...envList(process.env.MODERATION_BLOCKLIST)
+  ],
+  /**
+   * Softened terms and their symbolic stand-ins. A null replacement keeps
+   * the word but still steers the image away from literal depiction.
+   */
+  softenRules: {
+    violence: {
+      kill: 'harm', kills: 'harms', killed: 'lost', killing: 'loss', killings: 'losses', dead: 'mourned', deaths: 'losses',
+      murder: 'tragedy', murdered: 'lost', shooting: 'tragedy', shootings: 'tragedies', gunman: 'shadowy figure',
+      gunmen: 'shadowy figures', gun: 'shadow', guns: 'shadows', stabbing: 'tragedy', bomb: 'smoke',
+      bombing: 'smoke', bombings: 'smoke', massacre: 'tragedy', blood: 'red', bloody: 'somber',
+      corpse: 'empty chair', corpses: 'empty chairs', bodies: 'empty chairs', wounded: 'hurt',
+      terrorist: 'threat', terrorists: 'threats', war: null, attack: null, hostage: null, hostages: null
+    } as Record<string, string | null>,
+    disaster: {
+      earthquake: null, flood: null, flooding: null, hurricane: null, wildfire: null, tsunami: null,
+      crash: null, collapse: null, famine: null, explosion: null, victims: 'people affected'
+    } as Record<string, string | null>
+  },
+  // Named people are never drawn as likenesses
+  publicFigures: envList(process.env.MODERATION_PUBLIC_FIGURES),
+  // A capitalised name after one of these titles counts as a public figure
+  publicFigureTitles: [
+    'President', 'Prime Minister', 'Chancellor', 'King', 'Queen', 'Prince', 'Princess', 'Pope',
+    'Senator', 'Sen.', 'Governor', 'Gov.', 'Mayor', 'Minister', 'Secretary', 'Judge', 'Justice',
+    'General', 'Rep.', 'CEO', 'Chairman'
+  ],
+  // Appended to softened prompts and their negative prompts
+  symbolicGuidance: 'Depict this symbolically and without graphic detail, through metaphor, mood and setting; show no identifiable real people.',
+  softenedNegativePrompt: 'gore, blood, wounds, weapons pointed at people, graphic violence, dead bodies, realistic likeness of real people, portraits of politicians',
+  classifier: {
+    // Optional second opinion; `openai` uses the moderation endpoint
+    provider: process.env.MODERATION_CLASSIFIER || 'none',
+    apiKey: process.env.OPENAI_API_KEY || '',
+    baseUrl: (process.env.MODERATION_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+    requestTimeoutMs: 10000
+  }
+}
@@ -1,4 +1,4 @@
-import type { NewsSource, NewsCategory, NewsCountry, NewsLanguage } from '@/types/news'
+import type { NewsSource, NewsCategory, NewsCountry, NewsLanguage, NewsProviderId } from '@/types/news'
 
 // Premium news sources (available to subscribed users)
 export const PREMIUM_SOURCES: NewsSource[] = [
@@ -9,6 +9,7 @@ export const PREMIUM_SOURCES: NewsSource[] = [
     country: 'us',
     language: 'en',
     url: 'https://www.cnn.com',
+    type: 'api',
     isPremium: true,
     isActive: true
   },
@@ -19,6 +20,9 @@ export const PREMIUM_SOURCES: NewsSource[] = [
     country: 'gb',
     language: 'en',
     url: 'https://www.bbc.com/news',
+    type: 'rss',
+    feedUrl: 'https://feeds.bbci.co.uk/news/rss.xml',
+    pollIntervalMinutes: 15,
     isPremium: true,
     isActive: true
   },
@@ -29,6 +33,9 @@ export const PREMIUM_SOURCES: NewsSource[] = [
     country: 'gb',
     language: 'en',
     url: 'https://www.reuters.com',
+    type: 'rss',
+    feedUrl: 'https://www.reutersagency.com/feed/?taxonomy=best-topics&post_type=best',
+    pollIntervalMinutes: 15,
     isPremium: true,
     isActive: true
   },
@@ -39,6 +46,7 @@ export const PREMIUM_SOURCES: NewsSource[] = [
     country: 'us',
     language: 'en',
     url: 'https://apnews.com',
+    type: 'api',
     isPremium: true,
     isActive: true
   }
@@ -53,6 +61,7 @@ export const FREE_SOURCES: NewsSource[] = [
     country: 'us',
     language: 'en',
     url: 'https://abcnews.go.com',
+    type: 'api',
     isActive: true
   },
   {
@@ -62,6 +71,7 @@ export const FREE_SOURCES: NewsSource[] = [
     country: 'us',
     language: 'en',
     url: 'https://www.cbsnews.com',
+    type: 'api',
     isActive: true
   },
   {
@@ -71,6 +81,7 @@ export const FREE_SOURCES: NewsSource[] = [
     country: 'us',
     language: 'en',
     url: 'https://www.nbcnews.com',
+    type: 'api',
     isActive: true
   },
   {
@@ -80,6 +91,7 @@ export const FREE_SOURCES: NewsSource[] = [
     country: 'us',
     language: 'en',
     url: 'https://www.foxnews.com',
+    type: 'api',
     isActive: true
   }
 ]
@@ -119,6 +131,10 @@ export function getActiveSources(): NewsSource[] {
   return ALL_SOURCES.filter(source => source.isActive)
 }
 
+export function getFeedSources(): NewsSource[] {
+  return ALL_SOURCES.filter(source => source.type === 'rss' && !!source.feedUrl)
+}
+
 // API configuration
 export const NEWS_API_CONFIG = {
   baseUrl: 'https://api.mediastack.com/v1',
@@ -127,4 +143,50 @@ export const NEWS_API_CONFIG = {
   defaultLanguage: ['en'] as NewsLanguage[],
   defaultCountries: ['us', 'gb'] as NewsCountry[],
   defaultCategories: ['general'] as NewsCategory[]
-} 
\ No newline at end of file
+}
+
+// Provider selection, tried in order until one returns articles
+export const NEWS_PROVIDER_CONFIG = {
+  providers: (process.env.NEWS_PROVIDERS ||
+    (process.env.NODE_ENV === 'production' ? 'mediastack,rss' : 'mediastack,rss,fixture'))
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean) as NewsProviderId[],
+  rssFeeds: (process.env.NEWS_RSS_FEEDS || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean),
+  requestTimeoutMs: 10000,
+  // How long a latest-headline result is reused for the same filter combination
+  cacheTtlSeconds: Number(process.env.NEWS_CACHE_TTL_SECONDS || 300)
+}
+
+// Headline clustering used to collapse the same story across outlets
+export const STORY_CLUSTER_CONFIG = {
+  similarityThreshold: Number(process.env.NEWS_STORY_SIMILARITY || 0.5),
+  windowSize: 20,
+  // New headlines are matched against stories stored this recently
+  matchWindowHours: Number(process.env.NEWS_STORY_MATCH_HOURS || 48),
+  matchMaxStories: 500
+}
+
+// Scheduled poller and media job runner
+export const POLLER_CONFIG = {
+  defaultIntervalMinutes: 60,
+  maxItemsPerSource: 10,
+  jobBatchSize: Number(process.env.MEDIA_JOB_BATCH_SIZE || 3),
+  maxJobAttempts: 3,
+  // A job still 'processing' after this long lost its runner and is claimed again
+  jobLeaseMinutes: Number(process.env.MEDIA_JOB_LEASE_MINUTES || 15)
+}
+
+// Article body extraction and summarization ahead of prompt generation
+export const ENRICHMENT_CONFIG = {
+  summarySentences: 3,
+  maxEntities: 8,
+  // Pages shorter than this are usually paywalls or consent walls
+  minWordCount: 80,
+  maxHtmlBytes: 2 * 1024 * 1024,
+  // Read saved HTML fixtures instead of fetching article pages
+  offline: process.env.NEWS_ENRICHMENT_OFFLINE === 'true'
+}
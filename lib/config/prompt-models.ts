@@ -0,0 +1,43 @@
+import type { PromptModelProviderId } from '@/types/prompt'
+import { modelList } from './models'
+
+const TOGETHER_API_KEY = process.env.TOGETHER_API_KEY || ''
+const TOGETHER_MODEL = 'mistralai/Mistral-7B-Instruct-v0.2'
+const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini'
+
+// Without a Together key, fall back to the template adapter so local dev works offline
+const PROMPT_PROVIDER = (process.env.PROMPT_MODEL_PROVIDER || (TOGETHER_API_KEY ? 'together' : 'template')) as PromptModelProviderId
+const PROMPT_MODEL = process.env.PROMPT_MODEL || undefined
+
+// PROMPT_MODEL names a model of the configured provider, not of a fallback
+function configuredModel(provider: PromptModelProviderId): string | undefined {
+  return provider === PROMPT_PROVIDER ? PROMPT_MODEL : undefined
+}
+
+export const PROMPT_MODEL_CONFIG = {
+  provider: PROMPT_PROVIDER,
+  // Overrides the selected provider's default model
+  model: PROMPT_MODEL,
+  maxTokens: 500,
+  temperature: 0.7,
+  requestTimeoutMs: 30000,
+  // How long a prompt is reused for the same headline and style
+  cacheTtlSeconds: Number(process.env.PROMPT_CACHE_TTL_SECONDS || 3600),
+  // Models a request may pick with `model`; anything else is refused rather than paid for
+  allowedModels: {
+    together: modelList(process.env.TOGETHER_PROMPT_MODELS, TOGETHER_MODEL, configuredModel('together')),
+    openai: modelList(process.env.OPENAI_PROMPT_MODELS, OPENAI_MODEL, configuredModel('openai')),
+    template: modelList(undefined, configuredModel('template'))
+  } satisfies Record<PromptModelProviderId, string[]>,
+  together: {
+    apiKey: TOGETHER_API_KEY,
+    baseUrl: 'https://api.together.xyz/v1',
+    model: TOGETHER_MODEL
+  },
+  // Any server speaking the OpenAI chat completions API: OpenAI, llama.cpp, Ollama, vLLM
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY || '',
+    baseUrl: (process.env.OPENAI_BASE_URL || '').replace(/\/+$/, ''),
+    model: OPENAI_MODEL
+  }
+}
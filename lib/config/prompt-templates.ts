@@ -0,0 +1,49 @@
+import type { PromptTemplate } from '@/types/prompt'
+
+/**
+ * User-prompt templates for /api/generate-prompt. Published versions are
+ * immutable: change the wording by adding a version, so rows in
+ * news_history keep pointing at the text that produced them.
+ */
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    version: 'v1',
+    description: 'Original art director brief',
+    variables: ['headline', 'style', 'context'],
+    weight: 50,
+    body: `You are an expert art director and prompt engineer. Create a detailed, artistic prompt for generating an image that captures the essence of this news headline in the style of the specified artist.
+
+Headline: {headline}
+Artist Style: {style}
+{context}
+Guidelines:
+1. Focus on visual elements and composition
+2. Include specific artistic techniques and characteristics of the artist
+3. Maintain journalistic integrity while adding artistic flair
+4. Keep the prompt concise but detailed
+5. Use descriptive language that evokes the artist's style
+6. When an article summary is given, ground the scene in its concrete people, places and details
+
+Generate a prompt that will create a powerful, visually striking image that combines news with artistic expression.`
+  },
+  {
+    version: 'v2',
+    description: 'Single focal scene with one symbolic element',
+    variables: ['headline', 'style', 'context'],
+    weight: 50,
+    body: `You are an expert art director. Turn this news headline into one painting by {style}.
+
+Headline: {headline}
+Artist: {style}
+{context}
+Guidelines:
+1. Choose a single focal scene a viewer can read at a glance
+2. Add exactly one symbolic element that carries the meaning of the story
+3. Describe the subject, setting and mood in concrete visual terms
+4. Use the techniques, brushwork and palette {style} is known for
+5. Stay faithful to the facts of the story; do not invent people or events
+6. When an article summary is given, take the people, places and details from it
+
+Write a prompt that would make someone stop scrolling and look twice.`
+  }
+]
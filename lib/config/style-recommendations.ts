@@ -0,0 +1,114 @@
+import type { StyleRecommendationRule } from '@/types/art'
+
+const engagementWeight = Number(process.env.STYLE_ENGAGEMENT_WEIGHT)
+
+export const STYLE_RECOMMENDATION_CONFIG = {
+  defaultLimit: 3,
+  maxLimit: 10,
+  engagement: {
+    // Past visualizations the history weighting looks at
+    lookbackDays: 90,
+    maxRows: 1000,
+    // A style needs this many visualizations before its engagement counts
+    minSamples: 5,
+    // Points for a style read twice as much as average (minus for half); 0 turns history off
+    weight: Number.isFinite(engagementWeight) ? engagementWeight : 2,
+    // What each kind of engagement is worth
+    points: { views: 1, saves: 3, shares: 5 },
+    cacheTtlSeconds: 10 * 60
+  }
+}
+
+/**
+ * Why a style suits a story. Rules naming a style that isn't in the
+ * active catalog are skipped, so curators can retire a style freely.
+ */
+export const STYLE_RECOMMENDATION_RULES: StyleRecommendationRule[] = [
+  {
+    style: 'Rembrandt',
+    weight: 3,
+    reason: 'Sombre political story: Rembrandt\u2019s chiaroscuro gives it weight',
+    sentiments: ['negative'],
+    keywords: ['election', 'government', 'parliament', 'senate', 'congress', 'minister', 'president', 'court', 'vote', 'policy', 'law']
+  },
+  {
+    style: 'Rembrandt',
+    weight: 1,
+    reason: 'Grave news suits Rembrandt\u2019s dark, candlelit palette',
+    sentiments: ['negative']
+  },
+  {
+    style: 'Pollock',
+    weight: 3,
+    reason: 'Market turmoil: Pollock\u2019s drip paintings capture the chaos',
+    categories: ['business'],
+    keywords: ['market', 'stock', 'shares', 'crash', 'plunge', 'surge', 'rally', 'tumble', 'selloff', 'volatility', 'crypto', 'bitcoin']
+  },
+  {
+    style: 'Pollock',
+    weight: 2,
+    reason: 'Markets story: Pollock\u2019s tangled energy mirrors the trading floor',
+    entities: ['Wall Street', 'Dow Jones', 'Nasdaq', 'S&P', 'Federal Reserve', 'Bitcoin']
+  },
+  {
+    style: 'Monet',
+    weight: 2.5,
+    reason: 'Nature and weather suit Monet\u2019s light on water and gardens',
+    keywords: ['climate', 'weather', 'garden', 'river', 'ocean', 'sea', 'spring', 'forest', 'park', 'bloom', 'wildlife', 'nature']
+  },
+  {
+    style: 'Monet',
+    weight: 1,
+    reason: 'A gentle, hopeful story fits Monet\u2019s soft impressionism',
+    sentiments: ['positive'],
+    categories: ['general', 'health', 'science']
+  },
+  {
+    style: 'VanGogh',
+    weight: 1.5,
+    reason: 'Upbeat story: Van Gogh\u2019s vivid swirls carry its energy',
+    sentiments: ['positive']
+  },
+  {
+    style: 'VanGogh',
+    weight: 1.5,
+    reason: 'Crowds and motion suit Van Gogh\u2019s restless brushwork',
+    categories: ['sports']
+  },
+  {
+    style: 'Picasso',
+    weight: 2,
+    reason: 'Technology breaks down neatly into Picasso\u2019s cubist planes',
+    categories: ['technology']
+  },
+  {
+    style: 'Picasso',
+    weight: 1,
+    reason: 'Machines and data suit Picasso\u2019s fractured geometry',
+    keywords: ['ai', 'algorithm', 'robot', 'chip', 'software', 'data', 'computer']
+  },
+  {
+    style: 'DaVinci',
+    weight: 2,
+    reason: 'Science and medicine echo Da Vinci\u2019s studies and notebooks',
+    categories: ['science', 'health']
+  },
+  {
+    style: 'DaVinci',
+    weight: 1.5,
+    reason: 'Invention and engineering are Da Vinci\u2019s home ground',
+    keywords: ['invention', 'engineer', 'engineering', 'space', 'rocket', 'anatomy', 'discovery', 'prototype']
+  },
+  {
+    style: 'Dali',
+    weight: 2.5,
+    reason: 'A strange story: Dal\u00ed\u2019s dreamscapes lean into the surreal',
+    keywords: ['bizarre', 'strange', 'weird', 'mystery', 'dream', 'surreal', 'virtual', 'metaverse', 'unexplained']
+  },
+  {
+    style: 'Dali',
+    weight: 1,
+    reason: 'Showbusiness gets the theatrical treatment from Dal\u00ed',
+    categories: ['entertainment']
+  }
+]
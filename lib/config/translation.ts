@@ -0,0 +1,31 @@
+import type { TranslationProviderId } from '@/types/translation'
+
+const LIBRETRANSLATE_URL = (process.env.LIBRETRANSLATE_URL || '').replace(/\/+$/, '')
+const DEEPL_API_KEY = process.env.DEEPL_API_KEY || ''
+
+function defaultProvider(): TranslationProviderId {
+  if (DEEPL_API_KEY) return 'deepl'
+  if (LIBRETRANSLATE_URL) return 'libretranslate'
+  // Offline stand-in: glossary lookups, good enough for development and tests. Production
+  // without a translator keeps headlines as they are rather than half-translating them
+  return process.env.NODE_ENV === 'production' ? 'noop' : 'dictionary'
+}
+
+export const TRANSLATION_CONFIG = {
+  provider: (process.env.TRANSLATION_PROVIDER || defaultProvider()) as TranslationProviderId,
+  // Language the art prompt and moderation rules are written in
+  promptLanguage: 'en' as const,
+  // Below this detection confidence a headline is treated as English
+  minConfidence: 0.3,
+  cacheTtlSeconds: 24 * 60 * 60,
+  requestTimeoutMs: 10000,
+  libretranslate: {
+    url: LIBRETRANSLATE_URL,
+    apiKey: process.env.LIBRETRANSLATE_API_KEY || ''
+  },
+  deepl: {
+    apiKey: DEEPL_API_KEY,
+    // Free-plan keys end in ":fx" and use a separate host
+    url: DEEPL_API_KEY.endsWith(':fx') ? 'https://api-free.deepl.com/v2' : 'https://api.deepl.com/v2'
+  }
+}
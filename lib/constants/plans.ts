@@ -1,6 +1,16 @@
 type BasePlan = {
   name: string;
   dailyLimit: number;
+  premiumSources: boolean;
+  // Personal art styles a subscriber may keep
+  customStyles: number;
+  // Largest image side and step count /api/generate-image accepts
+  imageLimits: {
+    maxSide: number;
+    maxSteps: number;
+  };
+  // Images one /api/generate-image call may draw for the reader to pick from
+  imageVariants: number;
   features: readonly string[];
 }
 
@@ -18,6 +28,10 @@ export const SUBSCRIPTION_TIERS = {
     tier: 'FREE' as const,
     name: 'Free',
     dailyLimit: 1,
+    premiumSources: false,
+    customStyles: 0,
+    imageLimits: { maxSide: 1024, maxSteps: 4 },
+    imageVariants: 1,
     features: [
       'One news visualization per day',
       'Basic art styles',
@@ -29,11 +43,17 @@ export const SUBSCRIPTION_TIERS = {
     name: 'Pro',
     price: 9.99,
     dailyLimit: 10,
+    premiumSources: true,
+    customStyles: 5,
+    imageLimits: { maxSide: 1536, maxSteps: 8 },
+    imageVariants: 4,
     features: [
       '10 news visualizations per day',
+      'Premium news sources',
       'All art styles',
       'Full history access',
-      'Custom art style preferences'
+      'Custom art style preferences',
+      'Up to 4 image variants to pick from'
     ]
   },
   UNLIMITED: {
@@ -41,10 +61,17 @@ export const SUBSCRIPTION_TIERS = {
     name: 'Unlimited',
     price: 29.99,
     dailyLimit: Infinity,
+    premiumSources: true,
+    customStyles: 25,
+    imageLimits: { maxSide: 2048, maxSteps: 12 },
+    imageVariants: 6,
     features: [
       'Unlimited news visualizations',
+      'Premium news sources',
       'Priority image generation',
       'API access',
+      'Custom art style preferences',
+      'Up to 6 image variants to pick from',
       'Custom branding options'
     ]
   }
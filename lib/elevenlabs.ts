@@ -13,6 +13,14 @@ interface ElevenLabsResponse {
 // Export the type for use in other files
 export type TTSResponse = ElevenLabsResponse
 
+const ENGLISH_MODEL_ID = 'eleven_turbo_v2'
+const MULTILINGUAL_MODEL_ID = 'eleven_multilingual_v2'
+
+// Speech model for text in the given language
+export function getSpeechModelId(language: string): string {
+  return language === 'en' ? ENGLISH_MODEL_ID : MULTILINGUAL_MODEL_ID
+}
+
 class ElevenLabsApiClient {
   private baseUrl = 'https://api.elevenlabs.io/v1'
   private apiKey: string | null = null
@@ -90,11 +98,13 @@ class ElevenLabsApiClient {
    * Generates speech from text using ElevenLabs API
    * @param text Text to convert to speech
    * @param voiceId Voice ID to use for the speech
+   * @param modelId Model to use; the turbo model only speaks English well
    * @returns Audio data and alignment information
    */
   public async generateSpeech(
     text: string,
-    voiceId: string = '21m00Tcm4TlvDq8ikWAM' // Default voice ID
+    voiceId: string = '21m00Tcm4TlvDq8ikWAM', // Default voice ID
+    modelId: string = ENGLISH_MODEL_ID
   ): Promise<ElevenLabsResponse> {
     try {
       // Validate API key
@@ -110,7 +120,7 @@ class ElevenLabsApiClient {
       devLog('Generating speech', {
         prefix: 'eleven-labs',
         level: 'info'
-      }, { textLength: text.length, voiceId })
+      }, { textLength: text.length, voiceId, modelId })
 
       // Make API request
       const response = await fetch(
@@ -123,7 +133,7 @@ class ElevenLabsApiClient {
           },
           body: JSON.stringify({
             text,
-            model_id: 'eleven_turbo_v2',
+            model_id: modelId,
             voice_settings: {
               stability: 0.5,
               similarity_boost: 0.8
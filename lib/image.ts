@@ -1,147 +1,142 @@
 import { devLog } from '@/lib/utils/log'
-import { ArtStyle } from '@/types/art'
-import Together from 'together-ai'
-import { z } from 'zod'
-import { getArtStylePrompt } from './art-styles'
-import { newsQueries } from './supabase'
-
-interface GenerateImageOptions {
-  width?: number
-  height?: number
-  steps?: number
-  seed?: number
-  iterativeMode?: boolean
-  newsId?: string
-}
+import { IMAGE_ASPECT_PRESETS, IMAGE_MODEL_CONFIG } from '@/lib/config/image-models'
+import { SUBSCRIPTION_TIERS, type SubscriptionTier } from '@/lib/constants/plans'
+import { getDefaultImageProvider, getImageProvider } from '@/lib/providers/image'
+import { ImageParamsError, isRetryableError, retryWithBackoff } from '@/lib/utils/errors'
+import type { ImageParamsInput } from '@/lib/schemas/image'
+import type { ImagePromptMetadata } from '@/lib/schemas/prompt'
+import type { GeneratedImage, GeneratedImageVariant, ImageAspectPreset, ImageGenerationParams, ImageProvider } from '@/types/image'
 
-const defaultOptions: GenerateImageOptions = {
-  width: 1024,
-  height: 768,
-  steps: 3,
-  iterativeMode: false
+interface ImageGenerationConfig {
+  prompt: string
+  // art_styles key
+  style: string
+  // For the procedural renderer, which draws the headline in the style's palette
+  headline?: string
+  colorPalette?: string
+  // Size, steps, seed and provider; anything left out gets the defaults
+  params?: ImageParamsInput
+  // Caps size and steps, FREE when unknown
+  tier?: SubscriptionTier
+  // As /api/generate-prompt returned it
+  metadata?: ImagePromptMetadata
 }
 
-// Define the schema for the image generation response
-const ImageResponseSchema = z.object({
-  data: z.array(z.object({
-    b64_json: z.string()
-  }))
-})
+// Every image gets a seed, so any of them can be drawn again
+function randomSeed(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0]
+}
 
-interface ImageGenerationConfig {
-  prompt: string
-  style: keyof typeof ArtStyle
-  metadata?: {
-    style_notes?: string[]
-    composition?: string
-    lighting?: string
-    color_palette?: string
-    negative_prompt?: string
-  }
+function presetForSize(width: number, height: number): ImageAspectPreset | undefined {
+  const presets = Object.entries(IMAGE_ASPECT_PRESETS) as Array<[ImageAspectPreset, { width: number; height: number }]>
+  return presets.find(([, size]) => size.width === width && size.height === height)?.[0]
 }
 
-export async function generateImage(config: ImageGenerationConfig): Promise<string> {
-  try {
-    devLog('Environment check:', {
+/**
+ * Complete parameters for a request: explicit size, else the preset's,
+ * else the default preset; a random seed when none is given. Sizes and
+ * step counts beyond the tier's imageLimits are refused rather than
+ * quietly shrunk, so the stored parameters always match the image.
+ */
+export function resolveImageParams(input: ImageParamsInput = {}, tier: SubscriptionTier = 'FREE'): ImageGenerationParams {
+  const requested = input.provider ? getImageProvider(input.provider) : undefined
+  if (requested && !requested.isConfigured()) {
+    devLog(`Image provider ${requested.id} is not configured, using the default`, {
       prefix: 'image-service',
-      level: 'debug'
-    }, {
-      data: {
-        NODE_ENV: process.env.NODE_ENV,
-        MOCK_API: process.env.NEXT_PUBLIC_MOCK_API,
-        TOGETHER_API_KEY: !!process.env.TOGETHER_API_KEY,
-        HELICONE_API_KEY: !!process.env.HELICONE_API_KEY
-      }
+      level: 'warn'
     })
+  }
+  const provider = requested?.isConfigured() ? requested : getDefaultImageProvider()
 
-    // Only use mock mode if explicitly enabled
-    if (process.env.NEXT_PUBLIC_MOCK_API === 'true') {
-      devLog('Using mock image', {
-        prefix: 'image-service',
-        level: 'debug'
-      })
-      const fallbackBase64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg=='
-      return fallbackBase64
-    }
+  const size = input.width && input.height
+    ? { width: input.width, height: input.height }
+    : IMAGE_ASPECT_PRESETS[input.preset ?? IMAGE_MODEL_CONFIG.preset]
+  const steps = input.steps ?? IMAGE_MODEL_CONFIG.steps
 
-    if (!process.env.TOGETHER_API_KEY) {
-      throw new Error('Together API key not configured')
-    }
+  const plan = SUBSCRIPTION_TIERS[tier]
+  if (Math.max(size.width, size.height) > plan.imageLimits.maxSide) {
+    throw new ImageParamsError(`The ${plan.name} plan allows images up to ${plan.imageLimits.maxSide}px on a side`, 403)
+  }
+  if (steps > plan.imageLimits.maxSteps) {
+    throw new ImageParamsError(`The ${plan.name} plan allows up to ${plan.imageLimits.maxSteps} steps`, 403)
+  }
 
-    // Construct the full prompt with metadata
-    const fullPrompt = constructFullPrompt(config)
+  if (input.model && !IMAGE_MODEL_CONFIG.allowedModels[provider.id].includes(input.model)) {
+    throw new ImageParamsError(`Model ${input.model} is not available for ${provider.id}`)
+  }
 
-    const client = new Together({
-      apiKey: process.env.TOGETHER_API_KEY,
-      baseURL: process.env.HELICONE_API_KEY ? "https://together.helicone.ai/v1" : undefined,
-      defaultHeaders: process.env.HELICONE_API_KEY ? {
-        "Helicone-Auth": `Bearer ${process.env.HELICONE_API_KEY}`
-      } : undefined
-    })
+  // IMAGE_MODEL names a model of the configured provider, not of a fallback
+  const configuredModel = provider.id === IMAGE_MODEL_CONFIG.provider ? IMAGE_MODEL_CONFIG.model : undefined
 
-    devLog('Calling Together API:', {
-      prefix: 'image-service',
-      level: 'debug'
-    }, {
-      data: {
-        prompt: fullPrompt,
-        model: "black-forest-labs/FLUX.1-schnell",
-        options: defaultOptions
-      }
-    })
+  return {
+    ...size,
+    steps,
+    seed: input.seed ?? randomSeed(),
+    preset: input.width ? presetForSize(size.width, size.height) : input.preset ?? IMAGE_MODEL_CONFIG.preset,
+    provider: provider.id,
+    model: input.model ?? configuredModel ?? provider.defaultModel
+  }
+}
 
-    const response = await client.images.create({
-      prompt: fullPrompt,
-      model: "black-forest-labs/FLUX.1-schnell",
-      width: defaultOptions.width,
-      height: defaultOptions.height,
-      seed: defaultOptions.iterativeMode ? 123 : undefined,
-      steps: defaultOptions.steps,
-      response_format: "base64"
-    })
+export async function generateImage(config: ImageGenerationConfig): Promise<GeneratedImage> {
+  const params = resolveImageParams(config.params, config.tier)
+  const provider = getImageProvider(params.provider) ?? getDefaultImageProvider()
+
+  // Construct the full prompt with metadata
+  const { prompt: fullPrompt, negativePrompt } = constructFullPrompt(config, provider, params.model)
+
+  devLog('Generating image', {
+    prefix: 'image-service',
+    level: 'debug'
+  }, {
+    data: {
+      style: config.style,
+      promptLength: fullPrompt.length,
+      negativePrompt: negativePrompt ?? null,
+      params
+    }
+  })
 
-    devLog('Raw API response structure:', {
-      prefix: 'image-service',
-      level: 'debug'
-    }, {
-      data: {
-        responseType: typeof response,
-        hasData: !!response.data,
-        dataKeys: Object.keys(response),
-        data: response.data,
-        firstItem: {
-          type: typeof response.data?.[0],
-          keys: response.data?.[0] ? Object.keys(response.data[0]) : [],
-          value: response.data?.[0],
-          stringified: JSON.stringify(response.data?.[0], null, 2)
-        }
-      }
+  try {
+    const image = await retryWithBackoff(() => provider.generate({
+      prompt: fullPrompt,
+      headline: config.headline,
+      colorPalette: config.colorPalette ?? config.metadata?.color_palette,
+      style: config.style,
+      width: params.width,
+      height: params.height,
+      steps: params.steps,
+      seed: params.seed,
+      negativePrompt,
+      model: params.model
+    }), {
+      maxAttempts: 2,
+      shouldRetry: isRetryableError,
+      onRetry: (error, attempt, delayMs) => devLog(`Image provider ${provider.id} failed, retrying in ${delayMs}ms`, {
+        prefix: 'image-service',
+        level: 'warn'
+      }, { error, data: { attempt } })
     })
 
-    // Validate the response
-    const validatedResponse = ImageResponseSchema.parse(response)
-
-    const base64Image = validatedResponse.data[0].b64_json
-
     devLog('Image generated successfully', {
       prefix: 'image-service',
       level: 'debug'
     }, {
       data: {
+        provider: image.provider,
+        model: image.model,
         style: config.style,
-        promptLength: fullPrompt.length,
-        base64Length: base64Image.length,
-        preview: base64Image.substring(0, 50) + '...'
+        seed: params.seed,
+        base64Length: image.base64.length
       }
     })
 
-    return base64Image
-
+    return { ...image, params, prompt: fullPrompt, negativePrompt }
   } catch (error) {
     devLog('Image generation failed', {
       prefix: 'image-service',
       level: 'error'
-    }, { 
+    }, {
       error,
       message: error instanceof Error ? error.message : 'Unknown error'
     })
@@ -149,31 +144,81 @@ export async function generateImage(config: ImageGenerationConfig): Promise<stri
   }
 }
 
-function constructFullPrompt(config: ImageGenerationConfig): string {
+// The style, prompt, palette and metadata one style variant is drawn with
+export type ImageVariantStyle = Pick<ImageGenerationConfig, 'style' | 'prompt' | 'colorPalette' | 'metadata'>
+
+/**
+ * Several drawings of one request for the reader to pick from. Seed
+ * variants share the prompt and take consecutive seeds from the first,
+ * so a set can be redrawn from its first seed; style variants share one
+ * seed so only the style differs. The plan caps how many (imageVariants).
+ */
+export async function generateImageVariants(
+  config: ImageGenerationConfig,
+  variants: { count?: number; styles?: ImageVariantStyle[] }
+): Promise<GeneratedImageVariant[]> {
+  const styles = variants.styles?.length
+    ? [{ style: config.style, prompt: config.prompt, colorPalette: config.colorPalette, metadata: config.metadata }, ...variants.styles]
+    : undefined
+  const count = styles?.length ?? variants.count ?? 1
+
+  const plan = SUBSCRIPTION_TIERS[config.tier ?? 'FREE']
+  if (count > plan.imageVariants) {
+    throw new ImageParamsError(
+      plan.imageVariants > 1
+        ? `The ${plan.name} plan allows up to ${plan.imageVariants} image variants`
+        : `Image variants need a Pro or Unlimited plan`,
+      403
+    )
+  }
+
+  // Resolved once, so every variant gets the same size, steps and provider
+  const base = resolveImageParams(config.params, config.tier)
+
+  return Promise.all(Array.from({ length: count }, async (_, index) => {
+    const variant = styles?.[index]
+    const image = await generateImage({
+      ...config,
+      ...variant,
+      params: { ...base, seed: variant ? base.seed : (base.seed + index) >>> 0 }
+    })
+    return { ...image, style: variant?.style ?? config.style }
+  }))
+}
+
+/**
+ * The prompt as the provider will get it: the generated prompt plus the
+ * metadata's style notes, composition, lighting and palette. The negative
+ * prompt goes separately to models that take one; the rest, FLUX among
+ * them, get it appended as an "Avoid:" line, the closest a single prompt
+ * can come.
+ */
+function constructFullPrompt(
+  config: ImageGenerationConfig,
+  provider: ImageProvider,
+  model: string
+): { prompt: string; negativePrompt?: string } {
   const parts = [config.prompt]
+  const metadata = config.metadata ?? {}
 
-  if (config.metadata) {
-    if (config.metadata.style_notes?.length) {
-      parts.push(`Style notes: ${config.metadata.style_notes.join(', ')}`)
-    }
-    if (config.metadata.composition) {
-      parts.push(`Composition: ${config.metadata.composition}`)
-    }
-    if (config.metadata.lighting) {
-      parts.push(`Lighting: ${config.metadata.lighting}`)
-    }
-    if (config.metadata.color_palette) {
-      parts.push(`Color palette: ${config.metadata.color_palette}`)
-    }
+  if (metadata.style_notes?.length) {
+    parts.push(`Style notes: ${metadata.style_notes.join(', ')}`)
+  }
+  if (metadata.composition) {
+    parts.push(`Composition: ${metadata.composition}`)
+  }
+  if (metadata.lighting) {
+    parts.push(`Lighting: ${metadata.lighting}`)
+  }
+  if (metadata.color_palette) {
+    parts.push(`Color palette: ${metadata.color_palette}`)
   }
 
-  return parts.join('\n')
-}
+  const negativePrompt = metadata.negative_prompt?.trim() || undefined
+  if (negativePrompt && !provider.supportsNegativePrompt(model)) {
+    parts.push(`Avoid: ${negativePrompt}`)
+    return { prompt: parts.join('\n') }
+  }
 
-export async function optimizeImage(
-  blob: Blob,
-  options: GenerateImageOptions = defaultOptions
-): Promise<Blob> {
-  // Add image optimization logic here if needed
-  return blob
-} 
\ No newline at end of file
+  return { prompt: parts.join('\n'), negativePrompt }
+}
@@ -1,109 +1,96 @@
 import { devLog } from '@/lib/utils/log'
-import type { NewsResponse, NewsAPIResponse } from '@/types/news'
-import { NEWS_API_CONFIG } from '@/lib/config/news-sources'
-
-interface MediastackResponse {
-  data: Array<{
-    title: string
-    source: string
-    url: string
-    published_at: string
-  }>
+import type { NewsArticle, NewsBatchResult, NewsCoverageLink, NewsEngagementKind, NewsItem, NewsProviderId, NewsSourceFilter } from '@/types/news'
+import { NEWS_API_CONFIG, NEWS_PROVIDER_CONFIG, STORY_CLUSTER_CONFIG } from '@/lib/config/news-sources'
+import { fetchNewsWithFallback, mediastackProvider } from '@/lib/providers/news'
+import { clusterArticles, findStoredStory, mergeCoverage, toCoverageLink } from '@/lib/utils/stories'
+import { TtlCache } from '@/lib/utils/cache'
+import { newsFilterKey, normalizeNewsFilter } from '@/lib/utils/filters'
+import { NewsArticleSchema, formatIssues } from '@/lib/schemas/news'
+import { getAdminSupabase } from '@/lib/supabase/client'
+import { NEWS_TABLE } from '@/constants/tables'
+import { toNewsItem, type NewsItemInput } from '@/lib/utils/news-item'
+
+interface LatestNewsResult {
+  provider: NewsProviderId
+  article: NewsArticle
+  cached: boolean
 }
 
-export async function fetchLatestNews(): Promise<NewsResponse> {
-  const source = 'mediastack'
-  
-  try {
-    devLog('Fetching news from Mediastack', {
-      prefix: 'news-service',
-      level: 'info'
-    })
+interface StoredStory {
+  id: string
+  headline: string
+  source: string
+  url: string
+  published_at: string | null
+  story_id: string
+  coverage: NewsCoverageLink[] | null
+}
 
-    // Build URL with query parameters
-    const baseUrl = 'http://api.mediastack.com/v1/news'
-    const params = new URLSearchParams({
-      access_key: process.env.MEDIASTACK_API_KEY || '',
-      categories: 'general',
-      languages: NEWS_API_CONFIG.defaultLanguage.join(','),
-      limit: '1',
-      sort: 'published_desc',
-      countries: NEWS_API_CONFIG.defaultCountries.join(',')
-    })
+// One entry per filter combination, so each desk keeps its own feed
+const latestNewsCache = new TtlCache<Omit<LatestNewsResult, 'cached'>>(
+  NEWS_PROVIDER_CONFIG.cacheTtlSeconds * 1000
+)
 
-    const url = `${baseUrl}?${params.toString()}`
+export async function fetchLatestNews(
+  filter: NewsSourceFilter = {},
+  options: { fresh?: boolean } = {}
+): Promise<LatestNewsResult> {
+  const normalized = normalizeNewsFilter(filter)
+  const cacheKey = newsFilterKey(normalized)
 
-    // Log request details (safely)
-    devLog({
-      url: baseUrl,
-      params: {
-        categories: 'general',
-        languages: NEWS_API_CONFIG.defaultLanguage.join(','),
-        limit: '1',
-        sort: 'published_desc',
-        access_key: '[REDACTED]'
-      }
-    }, {
-      prefix: 'news-service',
-      level: 'debug'
-    })
+  try {
+    const cached = options.fresh ? undefined : latestNewsCache.get(cacheKey)
+    if (cached) {
+      devLog('Serving cached latest news', {
+        prefix: 'news-service',
+        level: 'debug'
+      }, { data: { cacheKey, provider: cached.provider } })
 
-    const response = await fetch(url)
+      return { ...cached, cached: true }
+    }
 
-    // Log response details
-    devLog({
-      status: response.status,
-      statusText: response.statusText,
-      headers: Object.fromEntries(response.headers.entries())
-    }, {
+    devLog('Fetching latest news from providers', {
       prefix: 'news-service',
-      level: 'debug'
-    })
-
-    if (!response.ok) {
-      devLog('Mediastack API error response', {
-        prefix: 'news-service',
-        level: 'error'
-      })
+      level: 'info'
+    }, { data: { filter: normalized } })
 
-      devLog({
-        status: response.status,
-        statusText: response.statusText,
-        headers: Object.fromEntries(response.headers.entries())
-      }, {
-        prefix: 'news-service',
-        level: 'error'
-      })
+    // Pull a window of headlines so the same story from several outlets collapses into one
+    const { provider, articles } = await fetchNewsWithFallback({
+      ...normalized,
+      limit: STORY_CLUSTER_CONFIG.windowSize
+    })
+    const [story] = clusterArticles(articles)
+    const stored = findStoredStory(story.canonical.headline, await getRecentStories())
 
-      throw new Error(`Failed to fetch from ${source}: ${response.statusText}`)
-    }
+    // A story already in news_history keeps its row, so its art and audio are reused
+    const article: NewsArticle = stored
+      ? {
+          ...story.canonical,
+          headline: stored.headline,
+          source: stored.source,
+          url: stored.url,
+          published_at: stored.published_at ?? undefined,
+          story_id: stored.story_id,
+          coverage: mergeCoverage(stored, [toCoverageLink(story.canonical), ...story.coverage])
+        }
+      : story.canonical
 
-    const data = await response.json() as MediastackResponse
-    
-    // Log response data shape
     devLog({
-      hasData: !!data.data,
-      articleCount: data.data?.length || 0,
-      responseShape: Object.keys(data)
+      articleCount: articles.length,
+      storyId: article.story_id,
+      storedStoryId: stored?.id,
+      coverageCount: article.coverage?.length ?? 0
     }, {
       prefix: 'news-service',
       level: 'debug'
     })
 
-    if (!data.data?.[0]) {
-      throw new Error('No news articles found')
-    }
-
-    const article = data.data[0]
+    latestNewsCache.set(cacheKey, { provider, article })
 
-    return {
-      headline: article.title,
-      source: article.source,
-      url: article.url
-    }
+    return { provider, article, cached: false }
 
   } catch (error) {
-    devLog(`Error fetching news from ${source}`, {
+    devLog('Error fetching latest news', {
       prefix: 'news-service',
       level: 'error'
     })
@@ -121,34 +108,262 @@ export async function fetchLatestNews(): Promise<NewsResponse> {
   }
 }
 
-export async function fetchNewsBySource(source: string): Promise<NewsResponse> {
+export async function fetchNewsBySource(source: string): Promise<NewsArticle> {
   try {
-    const response = await fetch(`http://api.mediastack.com/v1/news?sources=${source}&languages=en&countries=us,gb`, {
-      headers: {
-        'access_key': process.env.MEDIASTACK_API_KEY || '',
-      },
-      next: { revalidate: 300 }
+    const articles = await mediastackProvider.fetchArticles({
+      sources: source,
+      languages: NEWS_API_CONFIG.defaultLanguage.join(','),
+      countries: NEWS_API_CONFIG.defaultCountries.join(','),
+      limit: '1'
     })
 
-    if (!response.ok) {
-      throw new Error('Failed to fetch from Mediastack')
+    if (!articles.length) {
+      throw new Error(`No news articles found for ${source}`)
     }
 
-    const data = await response.json() as MediastackResponse
+    return articles[0]
+  } catch (error) {
+    console.error(`Error fetching news from ${source}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Stories stored within the match window, newest first. Clustering only
+ * sees one fetch window, so this is what lets a later poll find the
+ * story an earlier one already saved. Empty on error; matching is best
+ * effort and shouldn't stop ingestion.
+ */
+async function getRecentStories(): Promise<StoredStory[]> {
+  const since = new Date(Date.now() - STORY_CLUSTER_CONFIG.matchWindowHours * 60 * 60 * 1000)
 
-    if (!data.data || !data.data.length) {
-      throw new Error(`No news articles found for ${source}`)
+  const { data, error } = await getAdminSupabase()
+    .from(NEWS_TABLE)
+    .select('id, headline, source, url, published_at, story_id, coverage')
+    .not('story_id', 'is', null)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(STORY_CLUSTER_CONFIG.matchMaxStories)
+
+  if (error) {
+    devLog('Recent story lookup failed', {
+      prefix: 'news-service',
+      level: 'warn'
+    }, { error })
+    return []
+  }
+
+  return (data ?? []) as StoredStory[]
+}
+
+// Adds a later outlet's articles to the stored story they belong to
+async function appendCoverage(story: StoredStory, links: NewsCoverageLink[]): Promise<void> {
+  const coverage = mergeCoverage(story, links)
+  if (coverage.length === (story.coverage ?? []).length) return
+
+  const { error } = await getAdminSupabase()
+    .from(NEWS_TABLE)
+    .update({ coverage })
+    .eq('id', story.id)
+
+  if (error) {
+    devLog('Coverage update failed', {
+      prefix: 'news-service',
+      level: 'error'
+    }, { error, data: { id: story.id, storyId: story.story_id } })
+    throw error
+  }
+
+  story.coverage = coverage
+}
+
+/**
+ * Upserts articles into news_history in one request, skipping rows that
+ * already exist (same headline and source). Articles matching a story
+ * stored in the last `matchWindowHours` join that story's coverage
+ * instead of getting a row (and media) of their own. Returns only the
+ * new rows.
+ */
+export async function saveArticles(
+  articles: NewsArticle[]
+): Promise<Array<NewsArticle & { id: string }>> {
+  if (!articles.length) return []
+
+  const recent = await getRecentStories()
+  const fresh: NewsArticle[] = []
+  const matched = new Map<StoredStory, NewsCoverageLink[]>()
+  for (const article of articles) {
+    const stored = findStoredStory(article.headline, recent)
+    if (stored) {
+      matched.set(stored, [...(matched.get(stored) ?? []), toCoverageLink(article), ...(article.coverage ?? [])])
+    } else {
+      fresh.push(article)
     }
+  }
+
+  for (const [stored, links] of Array.from(matched.entries())) {
+    await appendCoverage(stored, links)
+  }
 
-    const article = data.data[0]
+  if (!fresh.length) return []
 
-    return {
-      headline: article.title,
+  const { data, error } = await getAdminSupabase()
+    .from(NEWS_TABLE)
+    .upsert(fresh.map(article => ({
+      headline: article.headline,
       source: article.source,
-      url: article.url
-    }
-  } catch (error) {
-    console.error(`Error fetching news from ${source}:`, error)
+      url: article.url,
+      published_at: article.published_at ?? null,
+      story_id: article.story_id ?? null,
+      coverage: article.coverage ?? [],
+      language: article.language ?? null,
+      category: article.category ?? null,
+      user_email: null
+    })), {
+      onConflict: 'headline,source',
+      ignoreDuplicates: true
+    })
+    .select('id, headline, source')
+
+  if (error) {
+    devLog('Article upsert failed', {
+      prefix: 'news-service',
+      level: 'error'
+    }, { error, data: { count: fresh.length } })
     throw error
   }
-} 
\ No newline at end of file
+
+  const insertedIds = new Map((data ?? []).map(row => [`${row.headline}\u0000${row.source}`, row.id as string]))
+
+  return fresh.flatMap(article => {
+    const id = insertedIds.get(`${article.headline}\u0000${article.source}`)
+    return id ? [{ ...article, id }] : []
+  })
+}
+
+// Counts a view, share or save; the art style recommender learns from these totals
+export async function recordNewsEngagement(
+  newsId: string,
+  kind: NewsEngagementKind
+): Promise<NewsItem['engagement'] | null> {
+  const { data, error } = await getAdminSupabase().rpc('record_news_engagement', {
+    news_id: newsId,
+    kind
+  })
+
+  if (error) throw error
+  return (data ?? null) as NewsItem['engagement'] | null
+}
+
+/**
+ * The reader who drew a story's current image and its alternates, null
+ * for images from the media job runner. Undefined when the story doesn't
+ * exist.
+ */
+export async function getImageOwner(newsId: string): Promise<string | null | undefined> {
+  const { data, error } = await getAdminSupabase()
+    .from(NEWS_TABLE)
+    .select('image_generated_by')
+    .eq('id', newsId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? (data.image_generated_by as string | null) : undefined
+}
+
+/**
+ * Makes one of a story's alternate images its image; the image it
+ * replaces joins the alternates. Null when the story doesn't exist or
+ * has no alternate at that URL.
+ */
+export async function promoteImageAlternate(newsId: string, imageUrl: string): Promise<NewsItem | null> {
+  const { data, error } = await getAdminSupabase()
+    .rpc('promote_image_alternate', {
+      news_id: newsId,
+      alternate_url: imageUrl
+    })
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toNewsItem(data as NewsItemInput) : null
+}
+
+export function validateArticles(articles: NewsArticle[]): {
+  valid: NewsArticle[]
+  errors: NewsBatchResult['errors']
+} {
+  const valid: NewsArticle[] = []
+  const errors: NewsBatchResult['errors'] = []
+
+  for (const article of articles) {
+    const result = NewsArticleSchema.safeParse(article)
+    if (result.success) {
+      valid.push(article)
+    } else {
+      errors.push({
+        url: article.url,
+        headline: article.headline,
+        message: formatIssues(result.error)
+      })
+    }
+  }
+
+  return { valid, errors }
+}
+
+export function clampBatchLimit(limit?: number): number {
+  if (!limit || !Number.isFinite(limit)) return NEWS_API_CONFIG.defaultLimit
+  return Math.min(Math.max(Math.floor(limit), 1), NEWS_API_CONFIG.maxLimit)
+}
+
+/**
+ * Fetches a page of headlines and upserts every canonical story into
+ * news_history in a single request. Rows that already exist (same
+ * headline and source) or belong to a recently stored story are skipped
+ * and reported as duplicates.
+ */
+export async function ingestNewsBatch(filter: NewsSourceFilter = {}): Promise<NewsBatchResult> {
+  const limit = clampBatchLimit(filter.limit)
+  const offset = Math.max(filter.offset ?? 0, 0)
+
+  const { provider, articles } = await fetchNewsWithFallback({
+    ...normalizeNewsFilter(filter),
+    limit,
+    offset
+  })
+  const { valid, errors } = validateArticles(
+    clusterArticles(articles).map(story => story.canonical)
+  )
+  const inserted = await saveArticles(valid)
+
+  const result: NewsBatchResult = {
+    provider,
+    fetched: articles.length,
+    inserted: inserted.length,
+    // Clustered coverage, stories already stored and rows already in news_history count as duplicates
+    duplicates: articles.length - inserted.length - errors.length,
+    rejected: errors.length,
+    items: inserted,
+    errors,
+    pagination: {
+      limit,
+      offset,
+      nextOffset: articles.length < limit ? null : offset + articles.length
+    }
+  }
+
+  devLog('Batch ingestion complete', {
+    prefix: 'news-service',
+    level: 'info'
+  }, {
+    data: {
+      provider,
+      fetched: result.fetched,
+      inserted: result.inserted,
+      duplicates: result.duplicates,
+      rejected: result.rejected
+    }
+  })
+
+  return result
+}
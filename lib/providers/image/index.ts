@@ -0,0 +1,41 @@
+import { devLog } from '@/lib/utils/log'
+import { IMAGE_MODEL_CONFIG } from '@/lib/config/image-models'
+import { ImageProviderError } from '@/lib/utils/errors'
+import type { ImageProvider, ImageProviderId } from '@/types/image'
+import { heliconeImageProvider, togetherImageProvider } from './together'
+import { openAIImageProvider } from './openai'
+import { proceduralImageProvider } from './procedural'
+
+export { heliconeImageProvider, togetherImageProvider, openAIImageProvider, proceduralImageProvider }
+
+export const IMAGE_PROVIDERS: Record<ImageProviderId, ImageProvider> = {
+  together: togetherImageProvider,
+  helicone: heliconeImageProvider,
+  openai: openAIImageProvider,
+  procedural: proceduralImageProvider
+}
+
+export function getImageProvider(id: ImageProviderId): ImageProvider | undefined {
+  return IMAGE_PROVIDERS[id]
+}
+
+/**
+ * The environment's provider. Mock mode and development fall back to the
+ * procedural renderer when it isn't configured; production throws, so a
+ * missing key shows up as failed generations rather than placeholder art.
+ */
+export function getDefaultImageProvider(): ImageProvider {
+  const provider = IMAGE_PROVIDERS[IMAGE_MODEL_CONFIG.provider]
+  if (provider?.isConfigured()) return provider
+
+  const mockApi = process.env.NEXT_PUBLIC_MOCK_API === 'true'
+  if (!mockApi && process.env.NODE_ENV === 'production') {
+    throw new ImageProviderError(IMAGE_MODEL_CONFIG.provider, `Image provider ${IMAGE_MODEL_CONFIG.provider} is not configured`)
+  }
+
+  devLog(`Image provider ${IMAGE_MODEL_CONFIG.provider} is not configured, using procedural placeholders`, {
+    prefix: 'image-provider',
+    level: 'warn'
+  })
+  return proceduralImageProvider
+}
@@ -0,0 +1,113 @@
+import { IMAGE_MODEL_CONFIG } from '@/lib/config/image-models'
+import { ImageProviderError } from '@/lib/utils/errors'
+import { bytesToBase64 } from '@/lib/utils/png'
+import type { ImageProvider, ImageProviderRequest, ImageProviderResponse } from '@/types/image'
+
+interface OpenAICompatibleImageProviderConfig {
+  apiKey: string
+  baseUrl: string
+  model: string
+  size?: string
+  // Servers that accept a `negative_prompt` field, which the OpenAI API itself doesn't
+  negativePrompt: boolean
+  requestTimeoutMs: number
+}
+
+interface ImageGenerationResponse {
+  data?: Array<{ b64_json?: string; url?: string }>
+  error?: { message?: string }
+}
+
+/**
+ * The OpenAI images API over plain fetch, so it works against OpenAI
+ * itself or any compatible server (`OPENAI_IMAGE_BASE_URL=http://localhost:8080/v1`).
+ */
+export class OpenAICompatibleImageProvider implements ImageProvider {
+  readonly id = 'openai' as const
+  readonly name = 'OpenAI-compatible images'
+  readonly defaultModel: string
+  private negativePrompt: boolean
+  private apiKey: string
+  private baseUrl: string
+  private size?: string
+  private requestTimeoutMs: number
+
+  constructor(config: OpenAICompatibleImageProviderConfig) {
+    this.apiKey = config.apiKey
+    this.baseUrl = config.baseUrl
+    this.defaultModel = config.model
+    this.size = config.size
+    this.negativePrompt = config.negativePrompt
+    this.requestTimeoutMs = config.requestTimeoutMs
+  }
+
+  // The same for every model the server hosts: OPENAI_IMAGE_NEGATIVE_PROMPT
+  supportsNegativePrompt(): boolean {
+    return this.negativePrompt
+  }
+
+  // Local servers usually need no key, only a base URL
+  isConfigured(): boolean {
+    return !!this.baseUrl
+  }
+
+  private async fetchImage(url: string): Promise<string> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(this.requestTimeoutMs) })
+    if (!response.ok) {
+      throw new ImageProviderError(this.id, `Failed to download generated image: ${response.status} ${response.statusText}`, response.status)
+    }
+    return bytesToBase64(new Uint8Array(await response.arrayBuffer()))
+  }
+
+  async generate(request: ImageProviderRequest): Promise<ImageProviderResponse> {
+    const model = request.model ?? this.defaultModel
+
+    let response: Response
+    try {
+      response = await fetch(`${this.baseUrl}/images/generations`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          prompt: request.prompt,
+          n: 1,
+          size: this.size ?? `${request.width}x${request.height}`,
+          ...(this.supportsNegativePrompt() && request.negativePrompt && { negative_prompt: request.negativePrompt }),
+          response_format: 'b64_json'
+        }),
+        signal: AbortSignal.timeout(this.requestTimeoutMs)
+      })
+    } catch (error) {
+      throw new ImageProviderError(this.id, error instanceof Error ? error.message : 'Request failed')
+    }
+
+    const body = (await response.json().catch(() => null)) as ImageGenerationResponse | null
+
+    if (!response.ok) {
+      throw new ImageProviderError(
+        this.id,
+        body?.error?.message ?? `${response.status} ${response.statusText}`,
+        response.status,
+        Object.fromEntries(response.headers.entries())
+      )
+    }
+
+    // Some servers ignore response_format and return a URL instead
+    const image = body?.data?.[0]
+    const base64 = image?.b64_json ?? (image?.url ? await this.fetchImage(image.url) : undefined)
+    if (!base64) {
+      throw new ImageProviderError(this.id, `No image data received from ${this.baseUrl}`)
+    }
+
+    return { base64, mimeType: 'image/png', provider: this.id, model }
+  }
+}
+
+// Create a singleton instance
+export const openAIImageProvider = new OpenAICompatibleImageProvider({
+  ...IMAGE_MODEL_CONFIG.openai,
+  requestTimeoutMs: IMAGE_MODEL_CONFIG.requestTimeoutMs
+})
@@ -0,0 +1,225 @@
+import { hashString, seededRandom } from '@/lib/utils/random'
+import { bytesToBase64, encodePng } from '@/lib/utils/png'
+import { GLYPH_HEIGHT, GLYPH_WIDTH, getGlyph, toDrawableText } from './font'
+import type { ImageProvider, ImageProviderRequest, ImageProviderResponse } from '@/types/image'
+
+type Rgb = [number, number, number]
+
+const NAMED_COLORS: Record<string, Rgb> = {
+  red: [196, 48, 43], crimson: [153, 27, 45], scarlet: [222, 53, 32], orange: [232, 127, 36],
+  amber: [240, 168, 48], yellow: [242, 201, 76], gold: [212, 168, 67], ochre: [204, 135, 46],
+  green: [76, 145, 81], olive: [118, 120, 58], emerald: [38, 138, 96], teal: [33, 128, 129],
+  turquoise: [64, 186, 184], blue: [46, 94, 170], cobalt: [33, 71, 163], navy: [28, 40, 84],
+  indigo: [58, 50, 120], violet: [122, 77, 160], purple: [106, 52, 130], lilac: [190, 160, 210],
+  pink: [230, 140, 170], rose: [214, 108, 128], peach: [246, 190, 150], brown: [115, 74, 47],
+  umber: [82, 58, 40], sienna: [160, 82, 45], beige: [222, 205, 170], cream: [244, 234, 210],
+  white: [240, 238, 232], grey: [128, 128, 128], gray: [128, 128, 128], silver: [190, 192, 196],
+  black: [24, 22, 24]
+}
+
+// Palette phrases that name a mood rather than colours
+const PALETTE_PHRASES: Array<[RegExp, string[]]> = [
+  [/earth tones?/, ['ochre', 'sienna', 'olive', 'umber']],
+  [/dark tones?/, ['umber', 'black', 'gold']],
+  [/primary colou?rs?/, ['red', 'yellow', 'blue']],
+  [/monochrom/, ['black', 'grey', 'silver', 'cream']],
+  [/atmospher|light and/, ['lilac', 'peach', 'turquoise']],
+  [/dream/, ['violet', 'peach', 'turquoise']]
+]
+
+function mix(a: Rgb, b: Rgb, t: number): Rgb {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t]
+}
+
+/**
+ * Colours named in a style's palette description, in the order they
+ * appear. Falls back to a scheme derived from the seed when the text
+ * names fewer than two.
+ */
+export function parsePalette(text: string | undefined, seed: number): Rgb[] {
+  const lower = (text ?? '').toLowerCase()
+  const names: string[] = []
+
+  for (const word of lower.match(/[a-z]+/g) ?? []) {
+    const name = word in NAMED_COLORS ? word : word.replace(/e?s$/, '')
+    if (name in NAMED_COLORS) names.push(name)
+  }
+  for (const [pattern, colors] of PALETTE_PHRASES) {
+    if (pattern.test(lower)) names.push(...colors)
+  }
+
+  let colors = Array.from(new Set(names)).map(name => NAMED_COLORS[name])
+  if (colors.length < 2) {
+    const random = seededRandom(seed)
+    const hue = random() * 360
+    colors = [0, 40, 180].map(offset => hslToRgb((hue + offset) % 360, 0.55, 0.3 + random() * 0.3))
+  }
+
+  if (/muted|soft|pastel/.test(lower)) colors = colors.map(color => mix(color, [150, 145, 140], 0.3))
+  if (/deep|dark|rich/.test(lower)) colors = colors.map(color => mix(color, [0, 0, 0], 0.25))
+  return colors
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): Rgb {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1))
+  const m = lightness - chroma / 2
+  const [r, g, b] = hue < 60 ? [chroma, x, 0]
+    : hue < 120 ? [x, chroma, 0]
+    : hue < 180 ? [0, chroma, x]
+    : hue < 240 ? [0, x, chroma]
+    : hue < 300 ? [x, 0, chroma]
+    : [chroma, 0, x]
+  return [(r + m) * 255, (g + m) * 255, (b + m) * 255]
+}
+
+// Greedy word wrap; the last line is cut with "..." when the text doesn't fit
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = []
+  let line = ''
+
+  for (const word of text.split(' ')) {
+    const next = line ? `${line} ${word}` : word
+    if (next.length <= maxChars) {
+      line = next
+      continue
+    }
+    if (line) lines.push(line)
+    line = word.slice(0, maxChars)
+  }
+  if (line) lines.push(line)
+
+  if (lines.length <= maxLines) return lines
+  const kept = lines.slice(0, maxLines)
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 3)}...`
+  return kept
+}
+
+class Canvas {
+  readonly pixels: Uint8Array
+
+  constructor(readonly width: number, readonly height: number) {
+    this.pixels = new Uint8Array(width * height * 3)
+  }
+
+  blend(x: number, y: number, color: Rgb, alpha: number) {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height || alpha <= 0) return
+    const i = (y * this.width + x) * 3
+    for (let c = 0; c < 3; c++) {
+      this.pixels[i + c] = this.pixels[i + c] + (color[c] - this.pixels[i + c]) * Math.min(1, alpha)
+    }
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: Rgb, alpha = 1) {
+    for (let py = y; py < y + height; py++) {
+      for (let px = x; px < x + width; px++) this.blend(px, py, color, alpha)
+    }
+  }
+
+  text(line: string, x: number, y: number, scale: number, color: Rgb) {
+    Array.from(line).forEach((char, index) => {
+      const glyph = getGlyph(char)
+      const left = x + index * (GLYPH_WIDTH + 1) * scale
+      for (let row = 0; row < GLYPH_HEIGHT; row++) {
+        for (let col = 0; col < GLYPH_WIDTH; col++) {
+          if (glyph[row] & (1 << (GLYPH_WIDTH - 1 - col))) {
+            this.fillRect(left + col * scale, y + row * scale, scale, scale, color)
+          }
+        }
+      }
+    })
+  }
+}
+
+/**
+ * Draws a placeholder without any model: a gradient through the style's
+ * palette, soft brush-like blobs and grain, and the headline on a dark
+ * band. The same request always gives the same image, so previews,
+ * layouts and storage uploads can be exercised offline.
+ */
+export class ProceduralImageProvider implements ImageProvider {
+  readonly id = 'procedural' as const
+  readonly name = 'Procedural placeholder'
+  readonly defaultModel = 'procedural-v1'
+  // Nothing here reads the prompt's wording, so there is nothing to fold it into
+  supportsNegativePrompt(): boolean {
+    return true
+  }
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async generate(request: ImageProviderRequest): Promise<ImageProviderResponse> {
+    const { width, height } = request
+    const seed = request.seed ?? hashString(`${request.style}\u0000${request.prompt}`)
+    const random = seededRandom(seed)
+    const palette = parsePalette(request.colorPalette, seed)
+    const canvas = new Canvas(width, height)
+
+    // Diagonal gradient through the palette
+    const stops = palette.slice(0, 3)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const t = Math.min(0.999, (x / width) * 0.6 + (y / height) * 0.4) * (stops.length - 1)
+        const from = Math.floor(t)
+        canvas.blend(x, y, mix(stops[from], stops[from + 1], t - from), 1)
+      }
+    }
+
+    // Soft blobs in every palette colour, standing in for brushwork
+    const blobCount = 14 + Math.floor(random() * 8)
+    for (let i = 0; i < blobCount; i++) {
+      const color = palette[Math.floor(random() * palette.length)]
+      const cx = random() * width
+      const cy = random() * height
+      const radius = (0.08 + random() * 0.17) * Math.min(width, height)
+      const strength = 0.25 + random() * 0.3
+      for (let y = Math.max(0, Math.floor(cy - radius)); y < Math.min(height, cy + radius); y++) {
+        for (let x = Math.max(0, Math.floor(cx - radius)); x < Math.min(width, cx + radius); x++) {
+          const distance = Math.hypot(x - cx, y - cy) / radius
+          if (distance < 1) canvas.blend(x, y, color, strength * (1 - distance) * (1 - distance))
+        }
+      }
+    }
+
+    // Film grain, so uploads compress like a real image rather than a flat fill
+    for (let i = 0; i < canvas.pixels.length; i++) {
+      canvas.pixels[i] = Math.max(0, Math.min(255, canvas.pixels[i] + (random() - 0.5) * 12))
+    }
+
+    const headline = toDrawableText(request.headline ?? request.prompt)
+    if (headline) {
+      const scale = Math.max(2, Math.min(6, Math.round(width / 200)))
+      const margin = scale * 8
+      const advance = (GLYPH_WIDTH + 1) * scale
+      const lineHeight = (GLYPH_HEIGHT + 3) * scale
+      const lines = wrapText(headline, Math.floor((width - margin * 2) / advance), 4)
+      const bandHeight = lines.length * lineHeight + margin * 2 - 3 * scale
+
+      canvas.fillRect(0, height - bandHeight, width, bandHeight, [12, 12, 16], 0.6)
+      lines.forEach((line, index) => {
+        const y = height - bandHeight + margin + index * lineHeight
+        canvas.text(line, margin + Math.ceil(scale / 2), y + Math.ceil(scale / 2), scale, [0, 0, 0])
+        canvas.text(line, margin, y, scale, [248, 246, 240])
+      })
+
+      // Style caption in the top corner so a placeholder is never mistaken for the real thing
+      const caption = toDrawableText(`${request.style} preview`)
+      const captionScale = Math.max(1, scale - 2)
+      canvas.fillRect(0, 0, caption.length * (GLYPH_WIDTH + 1) * captionScale + margin * 2, GLYPH_HEIGHT * captionScale + margin, [12, 12, 16], 0.45)
+      canvas.text(caption, margin, Math.round(margin / 2), captionScale, [248, 246, 240])
+    }
+
+    const png = await encodePng(width, height, canvas.pixels)
+    return {
+      base64: bytesToBase64(png),
+      mimeType: 'image/png',
+      provider: this.id,
+      model: this.defaultModel
+    }
+  }
+}
+
+// Create a singleton instance
+export const proceduralImageProvider = new ProceduralImageProvider()
@@ -0,0 +1,114 @@
+import Together from 'together-ai'
+import { z } from 'zod'
+import { IMAGE_MODEL_CONFIG } from '@/lib/config/image-models'
+import { ImageProviderError } from '@/lib/utils/errors'
+import type { ImageProvider, ImageProviderRequest, ImageProviderResponse } from '@/types/image'
+
+interface TogetherImageProviderConfig {
+  id: 'together' | 'helicone'
+  name: string
+  apiKey: string
+  baseUrl: string
+  model: string
+  // Extra headers on every request, e.g. Helicone's auth
+  headers?: Record<string, string>
+  // Further keys that must be set before the provider counts as configured
+  requires?: string[]
+}
+
+const TogetherImageResponseSchema = z.object({
+  data: z.array(z.object({
+    b64_json: z.string()
+  })).min(1)
+})
+
+/**
+ * FLUX and the other Together image models. The Helicone variant is the
+ * same client pointed at Helicone's proxy, which logs every request.
+ */
+export class TogetherImageProvider implements ImageProvider {
+  readonly id: TogetherImageProviderConfig['id']
+  readonly name: string
+  readonly defaultModel: string
+  private config: TogetherImageProviderConfig
+  private client: Together | null = null
+
+  constructor(config: TogetherImageProviderConfig) {
+    this.id = config.id
+    this.name = config.name
+    this.defaultModel = config.model
+    this.config = config
+  }
+
+  // FLUX models accept negative_prompt and ignore it; the older diffusion models use it
+  supportsNegativePrompt(model: string): boolean {
+    return !/flux/i.test(model)
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.apiKey && (this.config.requires ?? []).every(Boolean)
+  }
+
+  // Created on first use so a missing key only matters when this provider is picked
+  private getClient(): Together {
+    this.client ??= new Together({
+      apiKey: this.config.apiKey,
+      baseURL: this.config.baseUrl,
+      defaultHeaders: this.config.headers
+    })
+    return this.client
+  }
+
+  async generate(request: ImageProviderRequest): Promise<ImageProviderResponse> {
+    const model = request.model ?? this.defaultModel
+
+    try {
+      const response = await this.getClient().images.create({
+        prompt: request.prompt,
+        model,
+        width: request.width,
+        height: request.height,
+        steps: request.steps,
+        seed: request.seed,
+        ...(this.supportsNegativePrompt(model) && request.negativePrompt && { negative_prompt: request.negativePrompt }),
+        response_format: 'base64'
+      })
+
+      const parsed = TogetherImageResponseSchema.safeParse(response)
+      if (!parsed.success) {
+        throw new ImageProviderError(this.id, `No image data received from ${this.name}`)
+      }
+
+      return { base64: parsed.data.data[0].b64_json, mimeType: 'image/png', provider: this.id, model }
+    } catch (error) {
+      if (error instanceof ImageProviderError) throw error
+
+      // Keep the SDK's status and headers so callers can honour retry-after
+      const apiError = error as { message?: string; status?: number; headers?: Record<string, string> }
+      throw new ImageProviderError(
+        this.id,
+        apiError.message ?? `${this.name} request failed`,
+        apiError.status,
+        apiError.headers ?? {}
+      )
+    }
+  }
+}
+
+// Create a singleton instance
+export const togetherImageProvider = new TogetherImageProvider({
+  id: 'together',
+  name: 'Together AI',
+  ...IMAGE_MODEL_CONFIG.together
+})
+
+// Same client through Helicone's proxy when HELICONE_API_KEY is set
+export const heliconeImageProvider = new TogetherImageProvider({
+  id: 'helicone',
+  name: 'Together AI via Helicone',
+  apiKey: IMAGE_MODEL_CONFIG.helicone.apiKey,
+  baseUrl: IMAGE_MODEL_CONFIG.helicone.baseUrl,
+  model: IMAGE_MODEL_CONFIG.helicone.model,
+  headers: { 'Helicone-Auth': `Bearer ${IMAGE_MODEL_CONFIG.helicone.heliconeApiKey}` },
+  requires: [IMAGE_MODEL_CONFIG.helicone.heliconeApiKey]
+})
@@ -0,0 +1,15 @@
+import { MODERATION_CONFIG } from '@/lib/config/moderation'
+import type { ModerationClassifier } from '@/types/moderation'
+import { openAIModerationClassifier } from './openai'
+
+export { openAIModerationClassifier }
+
+const CLASSIFIERS: Record<string, ModerationClassifier> = {
+  openai: openAIModerationClassifier
+}
+
+// The configured classifier, or null to rely on the rules alone
+export function getModerationClassifier(id: string = MODERATION_CONFIG.classifier.provider): ModerationClassifier | null {
+  const classifier = CLASSIFIERS[id]
+  return classifier?.isConfigured() ? classifier : null
+}
@@ -0,0 +1,66 @@
+import { MODERATION_CONFIG } from '@/lib/config/moderation'
+import type { ModerationAction, ModerationClassification, ModerationClassifier } from '@/types/moderation'
+
+interface OpenAIModerationConfig {
+  apiKey: string
+  baseUrl: string
+  requestTimeoutMs: number
+}
+
+interface ModerationResponse {
+  results?: Array<{
+    flagged: boolean
+    categories: Record<string, boolean>
+  }>
+}
+
+// Categories that should never reach the image model, even softened
+const BLOCKING_CATEGORIES = ['sexual/minors', 'self-harm/instructions', 'violence/graphic']
+
+export class OpenAIModerationClassifier implements ModerationClassifier {
+  readonly id = 'openai'
+  private apiKey: string
+  private baseUrl: string
+  private requestTimeoutMs: number
+
+  constructor(config: OpenAIModerationConfig) {
+    this.apiKey = config.apiKey
+    this.baseUrl = config.baseUrl
+    this.requestTimeoutMs = config.requestTimeoutMs
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey
+  }
+
+  async classify(text: string): Promise<ModerationClassification> {
+    const response = await fetch(`${this.baseUrl}/moderations`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify({ input: text }),
+      signal: AbortSignal.timeout(this.requestTimeoutMs)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Moderation request failed: ${response.status} ${response.statusText}`)
+    }
+
+    const body = await response.json() as ModerationResponse
+    const result = body.results?.[0]
+    const categories = Object.entries(result?.categories ?? {})
+      .filter(([, flagged]) => flagged)
+      .map(([category]) => category)
+
+    const action: ModerationAction = categories.some(category => BLOCKING_CATEGORIES.includes(category))
+      ? 'block'
+      : result?.flagged ? 'soften' : 'allow'
+
+    return { provider: this.id, action, categories }
+  }
+}
+
+// Create a singleton instance
+export const openAIModerationClassifier = new OpenAIModerationClassifier(MODERATION_CONFIG.classifier)
@@ -0,0 +1,58 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import type { z } from 'zod'
+import { FixtureArticleSchema, parseRecords } from '@/lib/schemas/news'
+import type { NewsArticle, NewsProvider, NewsSourceFilter } from '@/types/news'
+import headlines from './fixtures/headlines.json'
+
+const ARTICLE_FIXTURES_DIR = path.join(process.cwd(), 'lib/providers/news/fixtures/articles')
+
+/**
+ * Saved article page for a URL, keyed by its last path segment
+ * (https://example.com/news/rail-line-park -> rail-line-park.html).
+ */
+export async function loadArticleFixture(url: string): Promise<string | null> {
+  const slug = new URL(url).pathname.split('/').filter(Boolean).pop()
+  if (!slug || !/^[a-z0-9-]+$/i.test(slug)) return null
+
+  try {
+    return await readFile(path.join(ARTICLE_FIXTURES_DIR, `${slug}.html`), 'utf8')
+  } catch {
+    return null
+  }
+}
+
+type FixtureArticle = z.output<typeof FixtureArticleSchema>
+
+// Local provider for development and offline runs, never needs a key
+export class FixtureProvider implements NewsProvider {
+  readonly id = 'fixture' as const
+  readonly name = 'Local fixtures'
+  // The registry id is only for filtering; news_history has no column for it
+  private articles: Array<{ sourceId: string; article: NewsArticle }>
+
+  constructor(articles: FixtureArticle[]) {
+    this.articles = articles.map(({ source_id, ...article }) => ({ sourceId: source_id, article }))
+  }
+
+  isConfigured(): boolean {
+    return this.articles.length > 0
+  }
+
+  async fetchLatest(filter: NewsSourceFilter = {}): Promise<NewsArticle[]> {
+    const offset = filter.offset ?? 0
+
+    return this.articles
+      .filter(({ article }) => !filter.categories?.length || (!!article.category && filter.categories.includes(article.category)))
+      .filter(({ article }) => !filter.countries?.length || (!!article.country && filter.countries.includes(article.country)))
+      .filter(({ article }) => !filter.languages?.length || (!!article.language && filter.languages.includes(article.language)))
+      .filter(({ sourceId }) => !filter.sources?.length || filter.sources.includes(sourceId))
+      .filter(({ sourceId }) => !filter.excludeSources?.includes(sourceId))
+      .filter(({ article }) => !filter.search || article.headline.toLowerCase().includes(filter.search.toLowerCase()))
+      .sort((a, b) => (b.article.published_at ?? '').localeCompare(a.article.published_at ?? ''))
+      .slice(offset, offset + (filter.limit ?? 1))
+      .map(({ article }) => article)
+  }
+}
+
+export const fixtureProvider = new FixtureProvider(parseRecords(FixtureArticleSchema, headlines).valid)
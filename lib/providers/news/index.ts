@@ -0,0 +1,71 @@
+import { devLog } from '@/lib/utils/log'
+import { NewsProviderError } from '@/lib/utils/errors'
+import { NEWS_PROVIDER_CONFIG } from '@/lib/config/news-sources'
+import type { NewsArticle, NewsProvider, NewsProviderId, NewsSourceFilter } from '@/types/news'
+import { mediastackProvider } from './mediastack'
+import { rssProvider } from './rss'
+import { fixtureProvider } from './fixture'
+
+export { mediastackProvider, rssProvider, fixtureProvider }
+
+const PROVIDERS: Record<NewsProviderId, NewsProvider> = {
+  mediastack: mediastackProvider,
+  rss: rssProvider,
+  fixture: fixtureProvider
+}
+
+export function getNewsProvider(id: NewsProviderId): NewsProvider | undefined {
+  return PROVIDERS[id]
+}
+
+// Configured providers in fallback order, skipping unknown ids and missing keys
+export function getNewsProviders(order: NewsProviderId[] = NEWS_PROVIDER_CONFIG.providers): NewsProvider[] {
+  return order
+    .map(id => PROVIDERS[id])
+    .filter((provider): provider is NewsProvider => !!provider && provider.isConfigured())
+}
+
+export async function fetchNewsWithFallback(
+  filter: NewsSourceFilter = {},
+  providers: NewsProvider[] = getNewsProviders()
+): Promise<{ provider: NewsProviderId; articles: NewsArticle[] }> {
+  const failures: Array<{ provider: string; message: string }> = []
+
+  for (const provider of providers) {
+    try {
+      const articles = await provider.fetchLatest(filter)
+
+      if (!articles.length) {
+        throw new Error('No news articles found')
+      }
+
+      devLog('News provider succeeded', {
+        prefix: 'news-provider',
+        level: 'info'
+      }, {
+        data: {
+          provider: provider.id,
+          articleCount: articles.length,
+          skipped: failures.map(failure => failure.provider)
+        }
+      })
+
+      return { provider: provider.id, articles }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      failures.push({ provider: provider.id, message })
+
+      devLog(`News provider ${provider.id} failed, trying next`, {
+        prefix: 'news-provider',
+        level: 'warn'
+      }, { error, message })
+    }
+  }
+
+  throw new NewsProviderError(
+    providers.length
+      ? `All news providers failed: ${failures.map(f => `${f.provider} (${f.message})`).join(', ')}`
+      : 'No news providers are configured',
+    failures
+  )
+}
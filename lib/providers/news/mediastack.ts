@@ -0,0 +1,174 @@
+import { devLog } from '@/lib/utils/log'
+import { NEWS_API_CONFIG, NEWS_PROVIDER_CONFIG } from '@/lib/config/news-sources'
+import { NewsPayloadError } from '@/lib/utils/errors'
+import {
+  MediastackArticleSchema,
+  MediastackErrorSchema,
+  MediastackNewsResponseSchema,
+  MediastackSourceSchema,
+  MediastackSourcesResponseSchema,
+  formatIssues,
+  parseRecords
+} from '@/lib/schemas/news'
+import type { NewsArticle, NewsProvider, NewsRecordError, NewsSource, NewsSourceFilter } from '@/types/news'
+import type { z } from 'zod'
+
+type MediastackArticle = z.output<typeof MediastackArticleSchema>
+
+export interface MediastackPage {
+  articles: NewsArticle[]
+  pagination: z.output<typeof MediastackNewsResponseSchema>['pagination']
+  rejected: NewsRecordError[]
+}
+
+interface MediastackProviderConfig {
+  apiKey: string
+}
+
+function toArticle(article: MediastackArticle): NewsArticle {
+  return {
+    headline: article.title,
+    source: article.source,
+    url: article.url,
+    published_at: article.published_at,
+    author: article.author,
+    description: article.description,
+    image_url: article.image,
+    category: article.category ?? undefined,
+    language: article.language ?? undefined,
+    country: article.country ?? undefined
+  }
+}
+
+export class MediastackProvider implements NewsProvider {
+  readonly id = 'mediastack' as const
+  readonly name = 'Mediastack'
+  private apiKey: string
+
+  constructor(config: MediastackProviderConfig) {
+    this.apiKey = config.apiKey
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey
+  }
+
+  // Shared URL builder for every Mediastack endpoint
+  buildUrl(endpoint: 'news' | 'sources', params: Record<string, string> = {}): string {
+    const query = new URLSearchParams({
+      access_key: this.apiKey,
+      ...params
+    })
+    return `${NEWS_API_CONFIG.baseUrl}/${endpoint}?${query.toString()}`
+  }
+
+  toParams(filter: NewsSourceFilter = {}): Record<string, string> {
+    const params: Record<string, string> = {
+      languages: (filter.languages ?? NEWS_API_CONFIG.defaultLanguage).join(','),
+      countries: (filter.countries ?? NEWS_API_CONFIG.defaultCountries).join(','),
+      categories: (filter.categories ?? NEWS_API_CONFIG.defaultCategories).join(','),
+      sort: 'published_desc',
+      limit: String(filter.limit ?? 1)
+    }
+
+    if (filter.offset) params.offset = String(filter.offset)
+    if (filter.search) params.keywords = filter.search
+
+    // Mediastack takes inclusions and `-id` exclusions in the same list
+    const sources = [
+      ...(filter.sources ?? []),
+      ...(filter.excludeSources ?? []).map(id => `-${id}`)
+    ]
+    if (sources.length) params.sources = sources.join(',')
+
+    return params
+  }
+
+  // Fails on transport errors and on bodies that aren't a Mediastack payload
+  private async request(endpoint: 'news' | 'sources', params: Record<string, string>): Promise<unknown> {
+    const response = await fetch(this.buildUrl(endpoint, params), {
+      signal: AbortSignal.timeout(NEWS_PROVIDER_CONFIG.requestTimeoutMs)
+    })
+    const body = await response.json().catch(() => null)
+
+    const upstreamError = MediastackErrorSchema.safeParse(body)
+    if (upstreamError.success) {
+      throw new NewsPayloadError(this.id, `Mediastack error ${upstreamError.data.error.code}`, upstreamError.data.error.message)
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch from mediastack: ${response.status} ${response.statusText}`)
+    }
+
+    return body
+  }
+
+  async fetchPage(params: Record<string, string>): Promise<MediastackPage> {
+    devLog('Fetching news from Mediastack', {
+      prefix: 'news-provider:mediastack',
+      level: 'debug'
+    }, {
+      data: {
+        url: `${NEWS_API_CONFIG.baseUrl}/news`,
+        params: { ...params, access_key: '[REDACTED]' }
+      }
+    })
+
+    return this.parseResponse(await this.request('news', params))
+  }
+
+  async fetchArticles(params: Record<string, string>): Promise<NewsArticle[]> {
+    return (await this.fetchPage(params)).articles
+  }
+
+  /**
+   * Validates a /news payload. A malformed envelope throws; malformed
+   * articles are dropped and reported in `rejected`.
+   */
+  parseResponse(body: unknown): MediastackPage {
+    const envelope = MediastackNewsResponseSchema.safeParse(body)
+    if (!envelope.success) {
+      throw new NewsPayloadError(this.id, 'Unexpected Mediastack response', formatIssues(envelope.error))
+    }
+
+    const { valid, errors } = parseRecords(MediastackArticleSchema, envelope.data.data)
+
+    if (errors.length) {
+      devLog('Rejected malformed Mediastack articles', {
+        prefix: 'news-provider:mediastack',
+        level: 'warn'
+      }, { data: { rejected: errors } })
+    }
+
+    return {
+      articles: valid.map(toArticle),
+      pagination: envelope.data.pagination,
+      rejected: errors
+    }
+  }
+
+  async fetchSources(params: Record<string, string> = {}): Promise<NewsSource[]> {
+    const envelope = MediastackSourcesResponseSchema.safeParse(await this.request('sources', params))
+    if (!envelope.success) {
+      throw new NewsPayloadError(this.id, 'Unexpected Mediastack sources response', formatIssues(envelope.error))
+    }
+
+    return parseRecords(MediastackSourceSchema, envelope.data.data).valid.map(source => ({
+      id: source.id,
+      name: source.name,
+      url: source.url,
+      type: 'api' as const,
+      category: source.category ?? undefined,
+      country: source.country ?? undefined,
+      language: source.language ?? undefined
+    }))
+  }
+
+  async fetchLatest(filter: NewsSourceFilter = {}): Promise<NewsArticle[]> {
+    return this.fetchArticles(this.toParams(filter))
+  }
+}
+
+export const mediastackProvider = new MediastackProvider({
+  apiKey: process.env.MEDIASTACK_API_KEY || process.env.NEXT_PUBLIC_MEDIASTACK_API_KEY || ''
+})
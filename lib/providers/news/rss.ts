@@ -0,0 +1,119 @@
+import { devLog } from '@/lib/utils/log'
+import { parseFeed } from '@/lib/utils/feed'
+import { NEWS_PROVIDER_CONFIG, getFeedSources } from '@/lib/config/news-sources'
+import { FeedItemSchema, parseRecords } from '@/lib/schemas/news'
+import type { FeedItem, NewsArticle, NewsProvider, NewsSource, NewsSourceFilter } from '@/types/news'
+
+interface RssProviderConfig {
+  sources: NewsSource[]
+}
+
+// Wraps a bare feed URL from NEWS_RSS_FEEDS as a source
+function sourceFromFeedUrl(feedUrl: string): NewsSource {
+  const { hostname } = new URL(feedUrl)
+  return {
+    id: hostname.replace(/^www\./, ''),
+    name: hostname,
+    url: `https://${hostname}`,
+    type: 'rss',
+    feedUrl
+  }
+}
+
+export function toArticle(item: FeedItem, source: NewsSource): NewsArticle {
+  return {
+    headline: item.headline,
+    source: source.name || item.source_name,
+    url: item.url,
+    published_at: item.published_at,
+    author: item.author,
+    description: item.description,
+    image_url: item.image_url
+  }
+}
+
+// Feeds carry no per-item metadata, so filters match on the source itself
+function sourceMatchesFilter(source: NewsSource, filter: NewsSourceFilter): boolean {
+  return (!filter.sources?.length || filter.sources.includes(source.id)) &&
+    !filter.excludeSources?.includes(source.id) &&
+    (!filter.categories?.length || (!!source.category && filter.categories.includes(source.category))) &&
+    (!filter.countries?.length || (!!source.country && filter.countries.includes(source.country))) &&
+    (!filter.languages?.length || (!!source.language && filter.languages.includes(source.language)))
+}
+
+export class RssProvider implements NewsProvider {
+  readonly id = 'rss' as const
+  readonly name = 'RSS/Atom'
+  private sources: NewsSource[]
+
+  constructor(config: RssProviderConfig) {
+    this.sources = config.sources
+  }
+
+  isConfigured(): boolean {
+    return this.sources.length > 0
+  }
+
+  getSources(): NewsSource[] {
+    return this.sources
+  }
+
+  async fetchFeed(source: NewsSource): Promise<FeedItem[]> {
+    const feedUrl = source.feedUrl ?? source.url
+    const response = await fetch(feedUrl, {
+      signal: AbortSignal.timeout(NEWS_PROVIDER_CONFIG.requestTimeoutMs)
+    })
+    if (!response.ok) {
+      throw new Error(`Failed to fetch feed ${feedUrl}: ${response.status} ${response.statusText}`)
+    }
+
+    const { valid, errors } = parseRecords(FeedItemSchema, parseFeed(await response.text(), feedUrl).items)
+    if (errors.length) {
+      devLog('Rejected malformed feed items', {
+        prefix: 'news-provider:rss',
+        level: 'warn'
+      }, { data: { feedUrl, rejected: errors } })
+    }
+
+    return valid
+  }
+
+  async fetchLatest(filter: NewsSourceFilter = {}): Promise<NewsArticle[]> {
+    const sources = this.sources.filter(source => sourceMatchesFilter(source, filter))
+    if (!sources.length) {
+      throw new Error('No RSS feeds match the requested filters')
+    }
+
+    const results = await Promise.allSettled(sources.map(async source =>
+      (await this.fetchFeed(source)).map(item => toArticle(item, source))
+    ))
+
+    const articles = results.flatMap(result => {
+      if (result.status === 'fulfilled') return result.value
+      devLog('Feed fetch failed', {
+        prefix: 'news-provider:rss',
+        level: 'warn'
+      }, { error: result.reason })
+      return []
+    })
+
+    if (!articles.length && results.every(result => result.status === 'rejected')) {
+      throw new Error('All RSS feeds failed')
+    }
+
+    const offset = filter.offset ?? 0
+    const search = filter.search?.toLowerCase()
+
+    return articles
+      .filter(article => !search || article.headline.toLowerCase().includes(search))
+      .sort((a, b) => (b.published_at ?? '').localeCompare(a.published_at ?? ''))
+      .slice(offset, offset + (filter.limit ?? 1))
+  }
+}
+
+export const rssProvider = new RssProvider({
+  sources: [
+    ...getFeedSources(),
+    ...NEWS_PROVIDER_CONFIG.rssFeeds.map(sourceFromFeedUrl)
+  ]
+})
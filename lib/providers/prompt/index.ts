@@ -0,0 +1,30 @@
+import { devLog } from '@/lib/utils/log'
+import { PROMPT_MODEL_CONFIG } from '@/lib/config/prompt-models'
+import type { PromptModelProvider, PromptModelProviderId } from '@/types/prompt'
+import { togetherPromptProvider } from './together'
+import { openAIPromptProvider } from './openai'
+import { templatePromptProvider } from './template'
+
+export { togetherPromptProvider, openAIPromptProvider, templatePromptProvider }
+
+export const PROMPT_MODEL_PROVIDERS: Record<PromptModelProviderId, PromptModelProvider> = {
+  together: togetherPromptProvider,
+  openai: openAIPromptProvider,
+  template: templatePromptProvider
+}
+
+export function getPromptModelProvider(id: PromptModelProviderId): PromptModelProvider | undefined {
+  return PROMPT_MODEL_PROVIDERS[id]
+}
+
+// The environment's provider, or the template adapter when it isn't configured
+export function getDefaultPromptModelProvider(): PromptModelProvider {
+  const provider = PROMPT_MODEL_PROVIDERS[PROMPT_MODEL_CONFIG.provider]
+  if (provider?.isConfigured()) return provider
+
+  devLog(`Prompt provider ${PROMPT_MODEL_CONFIG.provider} is not configured, using templates`, {
+    prefix: 'prompt-provider',
+    level: 'warn'
+  })
+  return templatePromptProvider
+}
@@ -0,0 +1,89 @@
+import { PROMPT_MODEL_CONFIG } from '@/lib/config/prompt-models'
+import { PromptModelError } from '@/lib/utils/errors'
+import type { PromptModelProvider, PromptModelRequest, PromptModelResponse } from '@/types/prompt'
+
+interface OpenAICompatibleProviderConfig {
+  apiKey: string
+  baseUrl: string
+  model: string
+  requestTimeoutMs: number
+}
+
+interface ChatCompletionResponse {
+  model?: string
+  choices?: Array<{ message?: { content?: string | null } }>
+  error?: { message?: string }
+}
+
+/**
+ * Chat completions over plain fetch, so it works against OpenAI itself or a
+ * local llama.cpp / Ollama server (`OPENAI_BASE_URL=http://localhost:11434/v1`).
+ */
+export class OpenAICompatiblePromptProvider implements PromptModelProvider {
+  readonly id = 'openai' as const
+  readonly name = 'OpenAI-compatible'
+  readonly defaultModel: string
+  private apiKey: string
+  private baseUrl: string
+  private requestTimeoutMs: number
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.apiKey = config.apiKey
+    this.baseUrl = config.baseUrl
+    this.defaultModel = config.model
+    this.requestTimeoutMs = config.requestTimeoutMs
+  }
+
+  // Local servers usually need no key, only a base URL
+  isConfigured(): boolean {
+    return !!this.baseUrl
+  }
+
+  async complete(request: PromptModelRequest): Promise<PromptModelResponse> {
+    const model = request.model ?? this.defaultModel
+
+    let response: Response
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature
+        }),
+        signal: AbortSignal.timeout(this.requestTimeoutMs)
+      })
+    } catch (error) {
+      throw new PromptModelError(this.id, error instanceof Error ? error.message : 'Request failed')
+    }
+
+    const body = (await response.json().catch(() => null)) as ChatCompletionResponse | null
+
+    if (!response.ok) {
+      throw new PromptModelError(
+        this.id,
+        body?.error?.message ?? `${response.status} ${response.statusText}`,
+        response.status,
+        Object.fromEntries(response.headers.entries())
+      )
+    }
+
+    const content = body?.choices?.[0]?.message?.content
+    if (!content) {
+      throw new PromptModelError(this.id, `No response content received from ${this.baseUrl}`)
+    }
+
+    return { content, provider: this.id, model: body?.model ?? model }
+  }
+}
+
+// Create a singleton instance
+export const openAIPromptProvider = new OpenAICompatiblePromptProvider({
+  ...PROMPT_MODEL_CONFIG.openai,
+  requestTimeoutMs: PROMPT_MODEL_CONFIG.requestTimeoutMs
+})
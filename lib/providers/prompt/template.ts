@@ -0,0 +1,42 @@
+import { getArtStylePrompt } from '@/lib/art-styles'
+import { seededRandom } from '@/lib/utils/random'
+import type { PromptModelProvider, PromptModelRequest, PromptModelResponse } from '@/types/prompt'
+
+/**
+ * No model at all: fills the style descriptions into `getArtStylePrompt`.
+ * Seeded from the headline and style, so the same input always gives the
+ * same prompt. Used for local development and as the last resort.
+ */
+export class TemplatePromptProvider implements PromptModelProvider {
+  readonly id = 'template' as const
+  readonly name = 'Template'
+  readonly defaultModel = 'art-style-template'
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async complete(request: PromptModelRequest): Promise<PromptModelResponse> {
+    const description = request.artStyle
+    const random = seededRandom(`${description.key}\u0000${request.headline}`)
+
+    const entities = request.context?.entities.slice(0, 3).map(entity => entity.name) ?? []
+    const subject = entities.length
+      ? `${request.headline}, featuring ${entities.join(', ')}`
+      : request.headline
+
+    const content = JSON.stringify({
+      prompt: getArtStylePrompt(description, subject, random),
+      style_notes: description.keywords.slice(0, 5),
+      composition: description.composition ?? '',
+      lighting: description.lighting ?? '',
+      color_palette: description.colorPalette ?? '',
+      negative_prompt: description.negativePrompt
+    })
+
+    return { content, provider: this.id, model: this.defaultModel }
+  }
+}
+
+// Create a singleton instance
+export const templatePromptProvider = new TemplatePromptProvider()
@@ -0,0 +1,69 @@
+import Together from 'together-ai'
+import { PROMPT_MODEL_CONFIG } from '@/lib/config/prompt-models'
+import { PromptModelError } from '@/lib/utils/errors'
+import type { PromptModelProvider, PromptModelRequest, PromptModelResponse } from '@/types/prompt'
+
+interface TogetherProviderConfig {
+  apiKey: string
+  baseUrl: string
+  model: string
+}
+
+export class TogetherPromptProvider implements PromptModelProvider {
+  readonly id = 'together' as const
+  readonly name = 'Together AI'
+  readonly defaultModel: string
+  private apiKey: string
+  private baseUrl: string
+  private client: Together | null = null
+
+  constructor(config: TogetherProviderConfig) {
+    this.apiKey = config.apiKey
+    this.baseUrl = config.baseUrl
+    this.defaultModel = config.model
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey
+  }
+
+  // Created on first use so a missing key only matters when Together is picked
+  private getClient(): Together {
+    this.client ??= new Together({ apiKey: this.apiKey, baseURL: this.baseUrl })
+    return this.client
+  }
+
+  async complete(request: PromptModelRequest): Promise<PromptModelResponse> {
+    const model = request.model ?? this.defaultModel
+
+    try {
+      const response = await this.getClient().chat.completions.create({
+        model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature
+      })
+
+      const content = response.choices?.[0]?.message?.content
+      if (!content) {
+        throw new PromptModelError(this.id, 'No response content received from Together AI')
+      }
+
+      return { content, provider: this.id, model }
+    } catch (error) {
+      if (error instanceof PromptModelError) throw error
+
+      // Keep the SDK's status and headers so callers can honour retry-after
+      const apiError = error as { message?: string; status?: number; headers?: Record<string, string> }
+      throw new PromptModelError(
+        this.id,
+        apiError.message ?? 'Together AI request failed',
+        apiError.status,
+        apiError.headers ?? {}
+      )
+    }
+  }
+}
+
+// Create a singleton instance
+export const togetherPromptProvider = new TogetherPromptProvider(PROMPT_MODEL_CONFIG.together)
@@ -0,0 +1,65 @@
+import { TRANSLATION_CONFIG } from '@/lib/config/translation'
+import { toIsoLanguage } from '@/lib/utils/language'
+import type { NewsLanguage } from '@/types/news'
+import type { TranslationProvider, TranslationRequest } from '@/types/translation'
+
+interface DeepLConfig {
+  url: string
+  apiKey: string
+  requestTimeoutMs: number
+}
+
+// DeepL wants regional variants for some target languages
+function toDeepLTarget(language: NewsLanguage): string {
+  if (language === 'en') return 'EN-US'
+  if (language === 'pt') return 'PT-PT'
+  return toIsoLanguage(language).toUpperCase()
+}
+
+export class DeepLProvider implements TranslationProvider {
+  readonly id = 'deepl' as const
+  readonly name = 'DeepL'
+  private url: string
+  private apiKey: string
+  private requestTimeoutMs: number
+
+  constructor(config: DeepLConfig) {
+    this.url = config.url
+    this.apiKey = config.apiKey
+    this.requestTimeoutMs = config.requestTimeoutMs
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey
+  }
+
+  async translate({ text, from, to }: TranslationRequest): Promise<string> {
+    const response = await fetch(`${this.url}/translate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `DeepL-Auth-Key ${this.apiKey}`
+      },
+      body: JSON.stringify({
+        text: [text],
+        source_lang: toIsoLanguage(from).toUpperCase(),
+        target_lang: toDeepLTarget(to)
+      }),
+      signal: AbortSignal.timeout(this.requestTimeoutMs)
+    })
+
+    const body = await response.json().catch(() => null) as { translations?: Array<{ text: string }>; message?: string } | null
+    const translated = body?.translations?.[0]?.text
+    if (!response.ok || !translated) {
+      throw new Error(`DeepL failed: ${body?.message ?? `${response.status} ${response.statusText}`}`)
+    }
+
+    return translated
+  }
+}
+
+// Create a singleton instance
+export const deepLProvider = new DeepLProvider({
+  ...TRANSLATION_CONFIG.deepl,
+  requestTimeoutMs: TRANSLATION_CONFIG.requestTimeoutMs
+})
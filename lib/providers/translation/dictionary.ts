@@ -0,0 +1,87 @@
+import type { NewsLanguage } from '@/types/news'
+import type { TranslationProvider, TranslationRequest } from '@/types/translation'
+
+// Small headline glossaries into English; only meant to keep local runs and tests readable
+const GLOSSARIES: Partial<Record<NewsLanguage, Record<string, string>>> = {
+  es: {
+    el: 'the', la: 'the', los: 'the', las: 'the', de: 'of', del: 'of the', y: 'and', en: 'in', por: 'for', para: 'for',
+    con: 'with', un: 'a', una: 'a', tras: 'after', gobierno: 'government', anuncia: 'announces', nuevo: 'new',
+    nueva: 'new', plan: 'plan', econom\u00eda: 'economy', ciudad: 'city', presidente: 'president', elecciones: 'elections',
+    crisis: 'crisis', tren: 'train', l\u00ednea: 'line', abre: 'opens', inundaciones: 'floods', mundial: 'world cup'
+  },
+  fr: {
+    le: 'the', la: 'the', les: 'the', des: 'of the', du: 'of the', de: 'of', et: 'and', en: 'in', un: 'a', une: 'a',
+    pour: 'for', sur: 'on', dans: 'in', avec: 'with', apr\u00e8s: 'after', gouvernement: 'government', pr\u00e9sente: 'presents',
+    nouveau: 'new', nouvelle: 'new', plan: 'plan', retraites: 'pensions', ville: 'city', pr\u00e9sident: 'president',
+    \u00e9lections: 'elections', \u00e9conomie: 'economy', ouvre: 'opens', ligne: 'line', gr\u00e8ve: 'strike'
+  },
+  de: {
+    der: 'the', die: 'the', das: 'the', und: 'and', in: 'in', mit: 'with', von: 'of', f\u00fcr: 'for', auf: 'on', nach: 'after',
+    ein: 'a', eine: 'a', regierung: 'government', stellt: 'presents', neuen: 'new', neue: 'new', plan: 'plan',
+    wirtschaft: 'economy', stadt: 'city', pr\u00e4sident: 'president', wahlen: 'elections', er\u00f6ffnet: 'opens',
+    bahnlinie: 'rail line', vor: '', streik: 'strike', krise: 'crisis'
+  },
+  it: {
+    il: 'the', lo: 'the', la: 'the', gli: 'the', le: 'the', di: 'of', del: 'of the', della: 'of the', e: 'and', per: 'for',
+    con: 'with', un: 'a', una: 'a', dopo: 'after', governo: 'government', presenta: 'presents', piano: 'plan',
+    crescita: 'growth', nuovo: 'new', nuova: 'new', citt\u00e0: 'city', presidente: 'president', elezioni: 'elections',
+    economia: 'economy', apre: 'opens', linea: 'line'
+  },
+  pt: {
+    o: 'the', a: 'the', os: 'the', as: 'the', de: 'of', do: 'of the', da: 'of the', e: 'and', em: 'in', para: 'for',
+    com: 'with', um: 'a', uma: 'a', ap\u00f3s: 'after', governo: 'government', anuncia: 'announces', plano: 'plan',
+    economia: 'economy', crise: 'crisis', novo: 'new', nova: 'new', cidade: 'city', presidente: 'president',
+    elei\u00e7\u00f5es: 'elections'
+  },
+  nl: {
+    de: 'the', het: 'the', een: 'a', en: 'and', van: 'of', in: 'in', op: 'on', met: 'with', voor: 'for', na: 'after',
+    kabinet: 'cabinet', regering: 'government', presenteert: 'presents', plan: 'plan', economie: 'economy',
+    nieuwe: 'new', stad: 'city', verkiezingen: 'elections'
+  }
+}
+
+function matchCase(word: string, translation: string): string {
+  return word[0] === word[0].toUpperCase() && translation
+    ? translation[0].toUpperCase() + translation.slice(1)
+    : translation
+}
+
+function invert(glossary: Record<string, string>): Record<string, string> {
+  const inverted: Record<string, string> = {}
+  for (const [word, english] of Object.entries(glossary)) {
+    // Keep the first (most common) source word for each English word
+    if (english && !english.includes(' ') && !(english in inverted)) inverted[english] = word
+  }
+  return inverted
+}
+
+/**
+ * Word-by-word glossary lookup between English and a handful of European
+ * languages. Unknown words pass through, so output stays usable offline.
+ */
+export class DictionaryTranslationProvider implements TranslationProvider {
+  readonly id = 'dictionary' as const
+  readonly name = 'Dictionary'
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async translate({ text, from, to }: TranslationRequest): Promise<string> {
+    const glossary = from === 'en'
+      ? to === 'en' ? undefined : GLOSSARIES[to] && invert(GLOSSARIES[to]!)
+      : to === 'en' ? GLOSSARIES[from] : undefined
+    if (!glossary) return text
+
+    return text
+      .replace(/[\p{L}']+/gu, word => {
+        const translation = glossary[word.toLowerCase()]
+        return translation === undefined ? word : matchCase(word, translation)
+      })
+      .replace(/\s{2,}/g, ' ')
+      .trim()
+  }
+}
+
+// Create a singleton instance
+export const dictionaryTranslationProvider = new DictionaryTranslationProvider()
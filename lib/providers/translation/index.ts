@@ -0,0 +1,29 @@
+import { TRANSLATION_CONFIG } from '@/lib/config/translation'
+import type { TranslationProvider, TranslationProviderId } from '@/types/translation'
+import { libreTranslateProvider } from './libretranslate'
+import { deepLProvider } from './deepl'
+import { dictionaryTranslationProvider } from './dictionary'
+import { noopTranslationProvider } from './noop'
+
+export { libreTranslateProvider, deepLProvider, dictionaryTranslationProvider, noopTranslationProvider }
+
+const PROVIDERS: Record<TranslationProviderId, TranslationProvider> = {
+  libretranslate: libreTranslateProvider,
+  deepl: deepLProvider,
+  dictionary: dictionaryTranslationProvider,
+  noop: noopTranslationProvider
+}
+
+export function getTranslationProvider(id: TranslationProviderId): TranslationProvider | undefined {
+  return PROVIDERS[id]
+}
+
+// The configured translator, then the no-op so a translator outage leaves the text as is
+export function getTranslationProviders(
+  preferred: TranslationProviderId = TRANSLATION_CONFIG.provider
+): TranslationProvider[] {
+  const order: TranslationProviderId[] = [preferred, 'noop']
+  return Array.from(new Set(order))
+    .map(id => PROVIDERS[id])
+    .filter((provider): provider is TranslationProvider => !!provider && provider.isConfigured())
+}
@@ -0,0 +1,56 @@
+import { TRANSLATION_CONFIG } from '@/lib/config/translation'
+import { toIsoLanguage } from '@/lib/utils/language'
+import type { TranslationProvider, TranslationRequest } from '@/types/translation'
+
+interface LibreTranslateConfig {
+  url: string
+  apiKey: string
+  requestTimeoutMs: number
+}
+
+// Self-hostable LibreTranslate (`docker run -p 5000:5000 libretranslate/libretranslate`)
+export class LibreTranslateProvider implements TranslationProvider {
+  readonly id = 'libretranslate' as const
+  readonly name = 'LibreTranslate'
+  private url: string
+  private apiKey: string
+  private requestTimeoutMs: number
+
+  constructor(config: LibreTranslateConfig) {
+    this.url = config.url
+    this.apiKey = config.apiKey
+    this.requestTimeoutMs = config.requestTimeoutMs
+  }
+
+  isConfigured(): boolean {
+    return !!this.url
+  }
+
+  async translate({ text, from, to }: TranslationRequest): Promise<string> {
+    const response = await fetch(`${this.url}/translate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        q: text,
+        source: toIsoLanguage(from),
+        target: toIsoLanguage(to),
+        format: 'text',
+        ...(this.apiKey ? { api_key: this.apiKey } : {})
+      }),
+      signal: AbortSignal.timeout(this.requestTimeoutMs)
+    })
+
+    const body = await response.json().catch(() => null) as { translatedText?: string; error?: string } | null
+    if (!response.ok || !body?.translatedText) {
+      throw new Error(`LibreTranslate failed: ${body?.error ?? `${response.status} ${response.statusText}`}`)
+    }
+
+    return body.translatedText
+  }
+}
+
+// Create a singleton instance
+export const libreTranslateProvider = new LibreTranslateProvider({
+  ...TRANSLATION_CONFIG.libretranslate,
+  requestTimeoutMs: TRANSLATION_CONFIG.requestTimeoutMs
+})
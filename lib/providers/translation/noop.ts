@@ -0,0 +1,18 @@
+import type { TranslationProvider, TranslationRequest } from '@/types/translation'
+
+// Returns the text unchanged; the last resort when no translator is available
+export class NoopTranslationProvider implements TranslationProvider {
+  readonly id = 'noop' as const
+  readonly name = 'No translation'
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async translate({ text }: TranslationRequest): Promise<string> {
+    return text
+  }
+}
+
+// Create a singleton instance
+export const noopTranslationProvider = new NoopTranslationProvider()
@@ -0,0 +1,72 @@
+import { z } from 'zod'
+import { NewsCategorySchema, NewsLanguageSchema } from './news'
+import { STYLE_RECOMMENDATION_CONFIG } from '@/lib/config/style-recommendations'
+
+const text = (max: number) => z.string().trim().min(1).max(max)
+
+// Keys end up in URLs and news_history.art_style, so keep them to plain identifiers
+export const ArtStyleKeySchema = z.string()
+  .trim()
+  .regex(/^[A-Za-z][A-Za-z0-9]{1,39}$/, 'key must be 2-40 letters or digits, starting with a letter')
+
+export const ArtStyleInputSchema = z.object({
+  key: ArtStyleKeySchema,
+  name: text(80),
+  description: text(1000),
+  keywords: z.array(text(40)).min(1, 'at least one keyword is required').max(20),
+  negativePrompt: text(500).optional(),
+  composition: text(300).optional(),
+  lighting: text(300).optional(),
+  colorPalette: text(300).optional(),
+  isActive: z.boolean().default(true)
+})
+
+// Every field but the key may change; send null to clear an optional one
+export const ArtStyleUpdateSchema = ArtStyleInputSchema
+  .omit({ key: true })
+  .extend({
+    negativePrompt: text(500).nullable().optional(),
+    composition: text(300).nullable().optional(),
+    lighting: text(300).nullable().optional(),
+    colorPalette: text(300).nullable().optional()
+  })
+  .partial()
+  .refine(update => Object.keys(update).length > 0, 'Nothing to update')
+
+export type ArtStyleInput = z.infer<typeof ArtStyleInputSchema>
+export type ArtStyleUpdate = z.infer<typeof ArtStyleUpdateSchema>
+
+// A subscriber's personal style: the same fields the prompt uses for the built-ins
+export const CustomArtStyleInputSchema = z.object({
+  name: text(80),
+  description: text(1000),
+  keywords: z.array(text(40)).min(1, 'at least one keyword is required').max(20),
+  colorPalette: text(300),
+  negativePrompt: text(500).optional(),
+  composition: text(300).optional(),
+  lighting: text(300).optional()
+})
+
+export const CustomArtStyleUpdateSchema = CustomArtStyleInputSchema
+  .extend({
+    negativePrompt: text(500).nullable().optional(),
+    composition: text(300).nullable().optional(),
+    lighting: text(300).nullable().optional()
+  })
+  .partial()
+  .refine(update => Object.keys(update).length > 0, 'Nothing to update')
+
+export type CustomArtStyleInput = z.infer<typeof CustomArtStyleInputSchema>
+export type CustomArtStyleUpdate = z.infer<typeof CustomArtStyleUpdateSchema>
+
+// What the recommender scores; entities come from the article's enrichment when there is one
+export const StyleRecommendationRequestSchema = z.object({
+  headline: text(500),
+  category: NewsCategorySchema.optional(),
+  language: NewsLanguageSchema.optional(),
+  summary: text(5000).optional(),
+  entities: z.array(text(120)).max(20).optional(),
+  limit: z.number().int().min(1).max(STYLE_RECOMMENDATION_CONFIG.maxLimit).optional()
+})
+
+export type StyleRecommendationRequest = z.infer<typeof StyleRecommendationRequestSchema>
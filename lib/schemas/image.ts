@@ -0,0 +1,78 @@
+import { z } from 'zod'
+import { IMAGE_ASPECT_PRESETS, IMAGE_MODEL_CONFIG } from '@/lib/config/image-models'
+import type { ImageAspectPreset, ImageFormat, ImageProviderId } from '@/types/image'
+
+const { minSide, maxSide, maxSteps, sideMultiple } = IMAGE_MODEL_CONFIG
+
+const side = z.number()
+  .int()
+  .min(minSide)
+  .max(maxSide)
+  .refine(value => value % sideMultiple === 0, `must be a multiple of ${sideMultiple}`)
+
+export const ImageAspectPresetSchema = z.enum(
+  Object.keys(IMAGE_ASPECT_PRESETS) as [ImageAspectPreset, ...ImageAspectPreset[]]
+)
+
+export const ImageProviderIdSchema = z.enum(['together', 'helicone', 'openai', 'procedural']) satisfies z.ZodType<ImageProviderId>
+
+/**
+ * Per-request image parameters. Stored image_params validate too, so
+ * posting them back regenerates the same image.
+ */
+export const ImageParamsSchema = z.object({
+  preset: ImageAspectPresetSchema.optional(),
+  width: side.optional(),
+  height: side.optional(),
+  steps: z.number().int().min(1).max(maxSteps).optional(),
+  // Unsigned 32-bit, the range every provider accepts
+  seed: z.number().int().min(0).max(0xffffffff).optional(),
+  provider: ImageProviderIdSchema.optional(),
+  // Checked against the provider's allowedModels once the provider is resolved
+  model: z.string().trim().min(1).max(200).optional()
+})
+  .refine(params => (params.width === undefined) === (params.height === undefined), 'width and height go together')
+
+export type ImageParamsInput = z.infer<typeof ImageParamsSchema>
+
+/**
+ * Extra drawings for the reader to pick from: `count` images of the same
+ * prompt with different seeds, or the requested style plus each of
+ * `styles`. Plans cap the total (imageVariants).
+ */
+export const ImageVariantsSchema = z.object({
+  count: z.number().int().min(1).max(IMAGE_MODEL_CONFIG.variants.max).optional(),
+  styles: z.array(z.string().trim().min(1).max(200)).min(1).max(IMAGE_MODEL_CONFIG.variants.max - 1).optional()
+})
+  .refine(variants => !(variants.count && variants.styles), 'ask for either count or styles')
+
+export type ImageVariantsInput = z.infer<typeof ImageVariantsSchema>
+
+// Where stored images and audio live; rules out `javascript:` and other schemes z.string().url() lets through
+export const MediaUrlSchema = z.string().url().refine(url => /^https?:\/\//i.test(url), 'must be an http(s) URL')
+
+export const ImageRenditionSchema = z.object({
+  url: MediaUrlSchema,
+  format: z.enum(['avif', 'webp', 'png']) satisfies z.ZodType<ImageFormat>,
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  bytes: z.number().int().nonnegative()
+})
+
+// What /api/upload-image returns; the placeholder is a small inline data URL
+export const ImageManifestSchema = z.object({
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  placeholder: z.string().startsWith('data:image/').max(20000),
+  renditions: z.array(ImageRenditionSchema).min(1).max(50)
+})
+
+// A stored alternate in news_history.image_alternates
+export const ImageVariantSchema = z.object({
+  image_url: MediaUrlSchema,
+  art_style: z.string().trim().min(1).max(200),
+  params: ImageParamsSchema,
+  image_manifest: ImageManifestSchema.optional(),
+  image_prompt: z.string().max(5000).optional(),
+  image_negative_prompt: z.string().max(2000).optional()
+})
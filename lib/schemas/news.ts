@@ -1,6 +1,6 @@
 import { z } from 'zod'
 import { ArtStyle } from '@/types/art'
-import type { ArtStyleKey } from '@/types/news'
+import type { ArtStyleKey, NewsCategory, NewsCountry, NewsEngagementKind, NewsLanguage, NewsRecordError } from '@/types/news'
 
 // Create a union of valid art styles
 const artStyleEnum = z.enum(Object.keys(ArtStyle) as [ArtStyleKey, ...ArtStyleKey[]])
@@ -27,4 +27,172 @@ export const NewsHistorySchema = z.object({
   created_at: z.string().datetime()
 })
 
-export type NewsHistoryRecord = z.infer<typeof NewsHistorySchema> 
\ No newline at end of file
+export type NewsHistoryRecord = z.infer<typeof NewsHistorySchema>
+
+// Provider article accepted for ingestion into news_history
+export const NewsArticleSchema = z.object({
+  headline: z.string().trim().min(1, 'Headline is required').max(500),
+  source: z.string().trim().min(1, 'Source is required'),
+  url: z.string().url('Must be a valid URL'),
+  published_at: z.string().datetime().optional()
+})
+
+export const NewsCategorySchema = z.enum([
+  'general', 'business', 'entertainment', 'health', 'science', 'sports', 'technology'
+]) satisfies z.ZodType<NewsCategory>
+
+export const NewsLanguageSchema = z.enum([
+  'en', 'es', 'fr', 'de', 'it', 'pt', 'nl', 'no', 'se', 'ru', 'ar', 'he', 'zh'
+]) satisfies z.ZodType<NewsLanguage>
+
+export const NewsEngagementKindSchema = z.enum(['views', 'shares', 'saves']) satisfies z.ZodType<NewsEngagementKind>
+
+export const NewsCountrySchema = z.enum([
+  'us', 'gb', 'au', 'ca', 'nz', 'ie', 'in', 'sg'
+]) satisfies z.ZodType<NewsCountry>
+
+// Accepts `a,b` as well as repeated values, deduplicated
+const commaList = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  value => typeof value === 'string'
+    ? Array.from(new Set(value.split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean)))
+    : value,
+  z.array(item).min(1)
+).optional()
+
+// Filter query params shared by the news API routes
+export const NewsFilterQuerySchema = z.object({
+  categories: commaList(NewsCategorySchema),
+  countries: commaList(NewsCountrySchema),
+  languages: commaList(NewsLanguageSchema),
+  sources: commaList(z.string().regex(/^[a-z0-9-]+$/, 'Invalid source id').max(50)),
+  search: z.string().trim().min(1).max(100).optional()
+})
+
+export type NewsFilterQuery = z.infer<typeof NewsFilterQuerySchema>
+
+// Optional upstream fields: null, missing or malformed all become undefined
+const optionalText = z.string().trim().min(1).nullish().catch(undefined).transform(value => value ?? undefined)
+const optionalUrl = z.string().url().nullish().catch(undefined).transform(value => value ?? undefined)
+const optionalDate = z.string().datetime({ offset: true }).nullish().catch(undefined).transform(value => value ?? undefined)
+
+// One article from Mediastack's /news endpoint
+export const MediastackArticleSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required'),
+  source: z.string().trim().min(1, 'Source is required'),
+  url: z.string().url('Must be a valid URL'),
+  published_at: optionalDate,
+  author: optionalText,
+  description: optionalText,
+  image: optionalUrl,
+  category: NewsCategorySchema.nullish().catch(undefined),
+  language: NewsLanguageSchema.nullish().catch(undefined),
+  country: NewsCountrySchema.nullish().catch(undefined)
+})
+
+export const MediastackPaginationSchema = z.object({
+  limit: z.number().int(),
+  offset: z.number().int(),
+  count: z.number().int(),
+  total: z.number().int()
+})
+
+// Records stay unknown here and are validated one by one
+export const MediastackNewsResponseSchema = z.object({
+  pagination: MediastackPaginationSchema.optional(),
+  data: z.array(z.unknown())
+})
+
+export const MediastackErrorSchema = z.object({
+  error: z.object({
+    code: z.string(),
+    message: z.string()
+  })
+})
+
+export const MediastackSourceSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  url: z.string().url(),
+  category: NewsCategorySchema.nullish().catch(undefined),
+  country: NewsCountrySchema.nullish().catch(undefined),
+  language: NewsLanguageSchema.nullish().catch(undefined)
+})
+
+export const MediastackSourcesResponseSchema = z.object({
+  pagination: MediastackPaginationSchema.optional(),
+  data: z.array(z.unknown())
+})
+
+// Item produced by the RSS/Atom parser
+export const FeedItemSchema = z.object({
+  headline: z.string().trim().min(1, 'Headline is required'),
+  url: z.string().url('Must be a valid URL'),
+  source_name: z.string(),
+  source_url: z.string(),
+  published_at: optionalDate,
+  author: optionalText,
+  description: optionalText,
+  image_url: optionalUrl,
+  guid: z.string()
+})
+
+// Entry in the local fixtures file
+export const FixtureArticleSchema = z.object({
+  headline: z.string().trim().min(1, 'Headline is required'),
+  source: z.string().trim().min(1, 'Source is required'),
+  // Registry id (lib/config/news-sources.ts) the outlet stands in for, so source filters and premium rules apply
+  source_id: z.string().trim().min(1, 'Source id is required'),
+  url: z.string().url('Must be a valid URL'),
+  published_at: optionalDate,
+  description: optionalText,
+  image_url: optionalUrl,
+  category: NewsCategorySchema.optional(),
+  language: NewsLanguageSchema.optional(),
+  country: NewsCountrySchema.optional()
+})
+
+// What the client expects back from /api/fetch-news
+export const FetchNewsResponseSchema = z.object({
+  success: z.literal(true),
+  provider: z.string(),
+  news: z.array(NewsArticleSchema.passthrough()).min(1, 'No news articles returned')
+})
+
+export type FetchNewsResponse = z.infer<typeof FetchNewsResponseSchema>
+
+/**
+ * Validates records one at a time: valid ones are returned parsed, the
+ * rest become structured errors instead of failing the whole batch.
+ */
+export function parseRecords<T extends z.ZodTypeAny>(
+  schema: T,
+  records: unknown[]
+): { valid: z.output<T>[]; errors: NewsRecordError[] } {
+  const valid: z.output<T>[] = []
+  const errors: NewsRecordError[] = []
+
+  records.forEach((record, index) => {
+    const result = schema.safeParse(record)
+    if (result.success) {
+      valid.push(result.data)
+      return
+    }
+
+    const raw = (record ?? {}) as Record<string, unknown>
+    errors.push({
+      index,
+      url: typeof raw.url === 'string' ? raw.url : undefined,
+      headline: typeof raw.headline === 'string' ? raw.headline
+        : typeof raw.title === 'string' ? raw.title : undefined,
+      message: formatIssues(result.error)
+    })
+  })
+
+  return { valid, errors }
+}
+
+export function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+    .join('; ')
+}
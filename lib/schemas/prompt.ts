@@ -0,0 +1,50 @@
+import { z } from 'zod'
+import { NewsLanguageSchema } from './news'
+import type { PromptModelProviderId } from '@/types/prompt'
+
+// What a prompt model must return
+export const PromptSchema = z.object({
+  prompt: z.string().describe("The detailed artistic prompt for image generation"),
+  style_notes: z.array(z.string()).describe("Key style characteristics to incorporate"),
+  composition: z.string().describe("Composition guidelines"),
+  lighting: z.string().describe("Lighting instructions"),
+  color_palette: z.string().describe("Color palette description"),
+  negative_prompt: z.string().optional().describe("Elements to avoid in the generation")
+})
+
+export type PromptContent = z.infer<typeof PromptSchema>
+
+export const ArticleContextSchema = z.object({
+  summary: z.string().max(2000),
+  entities: z.array(z.object({ name: z.string(), mentions: z.number() })).max(20)
+})
+
+const PROMPT_MODEL_PROVIDER_IDS = ['together', 'openai', 'template'] as const satisfies readonly PromptModelProviderId[]
+
+// Body of /api/generate-prompt and input of the server action
+export const PromptRequestSchema = z.object({
+  headline: z.string().trim().min(1, 'headline is required').max(500),
+  artStyle: z.string().trim().min(1, 'artStyle is required'),
+  newsId: z.string().optional(),
+  // Declared headline language; non-English headlines are translated before prompting
+  language: NewsLanguageSchema.optional(),
+  // Invalid context is ignored rather than rejected; the stored summary is used instead
+  context: ArticleContextSchema.optional().catch(undefined),
+  // Model selection falls back to the environment, the template to A/B assignment
+  provider: z.enum(PROMPT_MODEL_PROVIDER_IDS).optional(),
+  model: z.string().trim().min(1).max(200).optional(),
+  templateVersion: z.string().trim().min(1).max(50).optional(),
+  // Skip the prompt cache
+  fresh: z.boolean().optional()
+})
+
+export type PromptRequest = z.infer<typeof PromptRequestSchema>
+
+/**
+ * Prompt metadata as /api/generate-prompt returns it, posted on to
+ * /api/generate-image. Fields the image request doesn't use pass through
+ * untouched.
+ */
+export const ImagePromptMetadataSchema = PromptSchema.omit({ prompt: true }).partial().passthrough()
+
+export type ImagePromptMetadata = z.infer<typeof ImagePromptMetadataSchema>
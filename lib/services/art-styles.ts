@@ -0,0 +1,219 @@
+import { devLog } from '@/lib/utils/log'
+import { getAdminSupabase } from '@/lib/supabase/client'
+import { ART_STYLES_TABLE, NEWS_TABLE } from '@/constants/tables'
+import { BUILT_IN_ART_STYLES, blendArtStyles } from '@/lib/art-styles'
+import { isBlendSpec, parseBlendSpec } from '@/lib/utils/art/blend'
+import { TtlCache } from '@/lib/utils/cache'
+import { ArtStyleCatalogError } from '@/lib/utils/errors'
+import { isCustomStyleKey, userArtStyleService } from './user-art-styles'
+import type { ArtStyleInput, ArtStyleUpdate } from '@/lib/schemas/art-style'
+import type { ArtStyleDefinition, ArtStyleRecord } from '@/types/art'
+
+const CATALOG_CACHE_KEY = 'styles'
+
+export function toArtStyleRecord(style: ArtStyleDefinition): ArtStyleRecord {
+  return {
+    key: style.key,
+    name: style.name,
+    description: style.description,
+    keywords: style.keywords,
+    negative_prompt: style.negativePrompt ?? null,
+    composition: style.composition ?? null,
+    lighting: style.lighting ?? null,
+    color_palette: style.colorPalette ?? null,
+    is_active: style.isActive
+  }
+}
+
+export function fromArtStyleRecord(record: ArtStyleRecord): ArtStyleDefinition {
+  return {
+    key: record.key,
+    name: record.name,
+    description: record.description,
+    keywords: record.keywords ?? [],
+    negativePrompt: record.negative_prompt ?? undefined,
+    composition: record.composition ?? undefined,
+    lighting: record.lighting ?? undefined,
+    colorPalette: record.color_palette ?? undefined,
+    isActive: record.is_active
+  }
+}
+
+// Only the columns an update names, so PATCH leaves the rest alone
+function toRecordUpdate(update: ArtStyleUpdate): Partial<ArtStyleRecord> {
+  const columns: Array<[keyof ArtStyleUpdate, keyof ArtStyleRecord]> = [
+    ['name', 'name'],
+    ['description', 'description'],
+    ['keywords', 'keywords'],
+    ['negativePrompt', 'negative_prompt'],
+    ['composition', 'composition'],
+    ['lighting', 'lighting'],
+    ['colorPalette', 'color_palette'],
+    ['isActive', 'is_active']
+  ]
+
+  return Object.fromEntries(
+    columns
+      .filter(([field]) => update[field] !== undefined)
+      .map(([field, column]) => [column, update[field]])
+  )
+}
+
+export class ArtStyleCatalog {
+  // Curators edit rarely, but an edit should show up within a minute
+  private cache = new TtlCache<ArtStyleDefinition[]>(60 * 1000, 1)
+
+  /**
+   * Styles from art_styles, falling back to the built-in styles when the
+   * table is empty or unreachable so generation never depends on it.
+   */
+  async getStyles(): Promise<ArtStyleDefinition[]> {
+    const cached = this.cache.get(CATALOG_CACHE_KEY)
+    if (cached) return cached
+
+    try {
+      const { data, error } = await getAdminSupabase()
+        .from(ART_STYLES_TABLE)
+        .select('*')
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+
+      const records = (data ?? []) as unknown as ArtStyleRecord[]
+      const styles = records.length ? records.map(fromArtStyleRecord) : BUILT_IN_ART_STYLES
+      this.cache.set(CATALOG_CACHE_KEY, styles)
+      return styles
+    } catch (error) {
+      devLog('Art style catalog unavailable, using built-in styles', {
+        prefix: 'art-style-catalog',
+        level: 'warn'
+      }, { error })
+      return BUILT_IN_ART_STYLES
+    }
+  }
+
+  async getActiveStyles(): Promise<ArtStyleDefinition[]> {
+    return (await this.getStyles()).filter(style => style.isActive)
+  }
+
+  /**
+   * Style by key or display name, case-insensitive; inactive styles only
+   * when asked for. `custom:<id>` keys resolve to a subscriber's own style,
+   * and only when `owner` is that subscriber; `blend:` specs to the mix of
+   * the two styles they name.
+   */
+  async getStyle(
+    style?: string | null,
+    includeInactive = false,
+    owner?: string | null
+  ): Promise<ArtStyleDefinition | null> {
+    const trimmed = style?.trim()
+    if (!trimmed) return null
+    if (isCustomStyleKey(trimmed)) return userArtStyleService.getStyle(trimmed, owner)
+    if (isBlendSpec(trimmed)) return this.getBlend(trimmed, includeInactive, owner)
+
+    const wanted = trimmed.toLowerCase()
+
+    const styles = includeInactive ? await this.getStyles() : await this.getActiveStyles()
+    return styles.find(entry => entry.key.toLowerCase() === wanted) ??
+      styles.find(entry => entry.name.toLowerCase() === wanted) ??
+      null
+  }
+
+  private async getBlend(
+    spec: string,
+    includeInactive: boolean,
+    owner?: string | null
+  ): Promise<ArtStyleDefinition | null> {
+    const blend = parseBlendSpec(spec)
+    if (!blend) return null
+
+    const [first, second] = await Promise.all(
+      blend.parts.map(part => this.getStyle(part.style, includeInactive, owner))
+    )
+    if (!first || !second) return null
+
+    // Canonical keys, so the stored spec doesn't depend on how the caller spelled it
+    return blendArtStyles({
+      parts: [
+        { style: first.key, weight: blend.parts[0].weight },
+        { style: second.key, weight: blend.parts[1].weight }
+      ]
+    }, [first, second])
+  }
+
+  async create(input: ArtStyleInput): Promise<ArtStyleDefinition> {
+    const { data, error } = await getAdminSupabase()
+      .from(ART_STYLES_TABLE)
+      .insert({ ...toArtStyleRecord(input) })
+      .select()
+      .single()
+
+    if (error?.code === '23505') {
+      throw new ArtStyleCatalogError(input.key, `An art style with key ${input.key} or name ${input.name} already exists`)
+    }
+    if (error) throw error
+
+    this.cache.clear()
+    return fromArtStyleRecord(data as unknown as ArtStyleRecord)
+  }
+
+  async update(key: string, update: ArtStyleUpdate): Promise<ArtStyleDefinition> {
+    const { data, error } = await getAdminSupabase()
+      .from(ART_STYLES_TABLE)
+      .update({ ...toRecordUpdate(update), updated_at: new Date().toISOString() })
+      .eq('key', key)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) throw new ArtStyleCatalogError(key, `Art style ${key} not found`, 404)
+
+    this.cache.clear()
+    return fromArtStyleRecord(data as unknown as ArtStyleRecord)
+  }
+
+  /**
+   * Removes a style nobody has used yet. Styles already on a visualization
+   * (by key, by display name, or as half of a blend) are deactivated
+   * instead, so history keeps resolving to a description.
+   */
+  async remove(key: string): Promise<{ deleted: boolean; style: ArtStyleDefinition }> {
+    const supabase = getAdminSupabase()
+    const existing = await this.getStyle(key, true)
+    const spellings = Array.from(new Set([key, existing?.key, existing?.name].filter((value): value is string => !!value)))
+    // Case-insensitive like getStyle; quoted so names with spaces or commas stay one value
+    const usages = spellings.flatMap(spelling => [
+      `art_style.ilike."${spelling}"`,
+      `art_style.ilike."blend:${spelling}@*"`,
+      `art_style.ilike."blend:*+${spelling}@*"`
+    ])
+
+    const { count, error: countError } = await supabase
+      .from(NEWS_TABLE)
+      .select('id', { count: 'exact', head: true })
+      .or(usages.join(','))
+
+    if (countError) throw countError
+
+    if (count) {
+      return { deleted: false, style: await this.update(key, { isActive: false }) }
+    }
+
+    const { data, error } = await supabase
+      .from(ART_STYLES_TABLE)
+      .delete()
+      .eq('key', key)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) throw new ArtStyleCatalogError(key, `Art style ${key} not found`, 404)
+
+    this.cache.clear()
+    return { deleted: true, style: fromArtStyleRecord(data as unknown as ArtStyleRecord) }
+  }
+}
+
+// Create a singleton instance
+export const artStyleCatalog = new ArtStyleCatalog()
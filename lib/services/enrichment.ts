@@ -0,0 +1,155 @@
+import { devLog } from '@/lib/utils/log'
+import { getAdminSupabase } from '@/lib/supabase/client'
+import { NEWS_TABLE } from '@/constants/tables'
+import { ENRICHMENT_CONFIG, NEWS_PROVIDER_CONFIG } from '@/lib/config/news-sources'
+import { loadArticleFixture } from '@/lib/providers/news/fixture'
+import { extractArticle, extractEntities, summarizeText } from '@/lib/utils/article'
+import type { ArticleEnrichment } from '@/types/news'
+
+interface EnrichmentTarget {
+  headline: string
+  url: string
+}
+
+interface ArticleHtml {
+  html: string
+  origin: ArticleEnrichment['origin']
+}
+
+export class ArticleEnricher {
+  private async fetchHtml(url: string): Promise<string> {
+    const response = await fetch(url, {
+      headers: { Accept: 'text/html' },
+      signal: AbortSignal.timeout(NEWS_PROVIDER_CONFIG.requestTimeoutMs)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch article ${url}: ${response.status} ${response.statusText}`)
+    }
+
+    return this.readCapped(response, ENRICHMENT_CONFIG.maxHtmlBytes)
+  }
+
+  // Reads at most maxBytes of the body and drops the connection there, however big the page is
+  private async readCapped(response: Response, maxBytes: number): Promise<string> {
+    if (!response.body) return ''
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let html = ''
+    let received = 0
+
+    try {
+      while (received < maxBytes) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        const chunk = value.subarray(0, maxBytes - received)
+        received += chunk.byteLength
+        html += decoder.decode(chunk, { stream: true })
+      }
+    } finally {
+      await reader.cancel().catch(() => undefined)
+    }
+
+    return html + decoder.decode()
+  }
+
+  // Saved fixtures win offline and for the fixture provider's example.com URLs
+  private async loadHtml(url: string): Promise<ArticleHtml | null> {
+    if (ENRICHMENT_CONFIG.offline || new URL(url).hostname === 'example.com') {
+      const html = await loadArticleFixture(url)
+      return html ? { html, origin: 'fixture' } : null
+    }
+
+    return { html: await this.fetchHtml(url), origin: 'live' }
+  }
+
+  /**
+   * Summary and entities for an already loaded page. Returns null when the
+   * page has too little readable text to be worth summarizing.
+   */
+  enrichHtml(
+    html: string,
+    headline: string,
+    origin: ArticleEnrichment['origin'] = 'live'
+  ): ArticleEnrichment | null {
+    const article = extractArticle(html)
+    if (article.wordCount < ENRICHMENT_CONFIG.minWordCount) return null
+
+    return {
+      summary: summarizeText(article.text, headline, ENRICHMENT_CONFIG.summarySentences),
+      entities: extractEntities(article.text, ENRICHMENT_CONFIG.maxEntities),
+      word_count: article.wordCount,
+      byline: article.byline,
+      extracted_at: new Date().toISOString(),
+      origin
+    }
+  }
+
+  async enrich({ headline, url }: EnrichmentTarget): Promise<ArticleEnrichment | null> {
+    const page = await this.loadHtml(url)
+    if (!page) return null
+
+    const enrichment = this.enrichHtml(page.html, headline, page.origin)
+
+    devLog('Article enriched', {
+      prefix: 'article-enricher',
+      level: 'debug'
+    }, {
+      data: {
+        url,
+        origin: page.origin,
+        wordCount: enrichment?.word_count ?? 0,
+        entities: enrichment?.entities.map(entity => entity.name)
+      }
+    })
+
+    return enrichment
+  }
+
+  /**
+   * Enriches a stored article once and merges the result into its
+   * metadata. Failures are logged and return null so generation can go
+   * ahead with the headline alone.
+   */
+  async enrichNews(newsId: string): Promise<ArticleEnrichment | null> {
+    const supabase = getAdminSupabase()
+
+    try {
+      const { data: news, error } = await supabase
+        .from(NEWS_TABLE)
+        .select('id, headline, url, metadata')
+        .eq('id', newsId)
+        .single()
+
+      if (error) throw error
+
+      const metadata = (news.metadata ?? {}) as Record<string, unknown>
+      if (metadata.enrichment) return metadata.enrichment as ArticleEnrichment
+
+      const enrichment = await this.enrich({
+        headline: news.headline as string,
+        url: news.url as string
+      })
+      if (!enrichment) return null
+
+      const { error: updateError } = await supabase
+        .from(NEWS_TABLE)
+        .update({ metadata: { ...metadata, enrichment } })
+        .eq('id', newsId)
+
+      if (updateError) throw updateError
+      return enrichment
+    } catch (error) {
+      devLog('Article enrichment failed', {
+        prefix: 'article-enricher',
+        level: 'warn'
+      }, { error, data: { newsId } })
+      return null
+    }
+  }
+}
+
+// Create a singleton instance
+export const articleEnricher = new ArticleEnricher()
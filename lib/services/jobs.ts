@@ -0,0 +1,169 @@
+import { devLog } from '@/lib/utils/log'
+import { getAdminSupabase } from '@/lib/supabase/client'
+import { MEDIA_JOBS_TABLE, NEWS_TABLE } from '@/constants/tables'
+import { POLLER_CONFIG } from '@/lib/config/news-sources'
+import { MediaService } from './media'
+import { articleEnricher } from './enrichment'
+import { artStyleCatalog } from './art-styles'
+import { styleRecommender } from './style-recommender'
+import { PromptBlockedError } from '@/lib/utils/errors'
+import type { MediaJob } from '@/types/media'
+import type { StyleRecommendationRequest } from '@/lib/schemas/art-style'
+import type { NewsCategory, NewsLanguage } from '@/types/news'
+
+export interface MediaJobRunResult {
+  claimed: number
+  completed: string[]
+  failed: Array<{ jobId: string; newsId: string; error: string; willRetry: boolean }>
+}
+
+interface MediaJobRunOptions {
+  // Origin the internal media API routes are reachable on
+  baseUrl: string
+  limit?: number
+}
+
+// Keeps a style that's still in the catalog, otherwise takes the recommender's top pick
+async function pickArtStyle(current: string | null, request: StyleRecommendationRequest): Promise<string> {
+  const existing = await artStyleCatalog.getStyle(current)
+  if (existing) return existing.key
+
+  return (await styleRecommender.pick(request)) ?? 'VanGogh'
+}
+
+export class MediaJobRunner {
+  /**
+   * Claims pending jobs one by one so concurrent runners never share a
+   * job. A 'processing' job whose lease (`jobLeaseMinutes` since its last
+   * update) ran out belongs to a runner that died, so it counts as
+   * pending again, or fails once it has used up its attempts.
+   */
+  private async claimJobs(limit: number): Promise<MediaJob[]> {
+    const supabase = getAdminSupabase()
+    const leaseExpiredAt = new Date(Date.now() - POLLER_CONFIG.jobLeaseMinutes * 60 * 1000).toISOString()
+    const { data: pending, error } = await supabase
+      .from(MEDIA_JOBS_TABLE)
+      .select('*')
+      .or(`status.eq.pending,and(status.eq.processing,updated_at.lt.${leaseExpiredAt})`)
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) throw error
+
+    const claimed: MediaJob[] = []
+    for (const job of (pending ?? []) as unknown as MediaJob[]) {
+      const exhausted = job.attempts >= POLLER_CONFIG.maxJobAttempts
+
+      // Matching status and updated_at means no other runner got here first
+      const { data } = await supabase
+        .from(MEDIA_JOBS_TABLE)
+        .update(exhausted
+          ? {
+              status: 'failed',
+              last_error: 'Lease expired after the last attempt',
+              updated_at: new Date().toISOString()
+            }
+          : {
+              status: 'processing',
+              attempts: job.attempts + 1,
+              updated_at: new Date().toISOString()
+            })
+        .eq('id', job.id)
+        .eq('status', job.status)
+        .eq('updated_at', job.updated_at)
+        .select()
+        .maybeSingle()
+
+      if (data && !exhausted) claimed.push(data as unknown as MediaJob)
+    }
+
+    return claimed
+  }
+
+  private async finishJob(job: MediaJob, error?: string, retryable = true): Promise<boolean> {
+    const willRetry = !!error && retryable && job.attempts < POLLER_CONFIG.maxJobAttempts
+
+    await getAdminSupabase()
+      .from(MEDIA_JOBS_TABLE)
+      .update({
+        status: !error ? 'completed' : willRetry ? 'pending' : 'failed',
+        last_error: error ?? null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', job.id)
+
+    return willRetry
+  }
+
+  private async processJob(job: MediaJob, baseUrl: string): Promise<void> {
+    const supabase = getAdminSupabase()
+    const { data: news, error } = await supabase
+      .from(NEWS_TABLE)
+      .select('id, headline, language, category, art_style, image_url')
+      .eq('id', job.news_id)
+      .single()
+
+    if (error) throw error
+    if (news.image_url) return
+
+    const newsId = news.id as string
+    const headline = news.headline as string
+    const language = (news.language as NewsLanguage | null) ?? undefined
+
+    // Best effort: without a summary the prompt falls back to the headline
+    const enrichment = await articleEnricher.enrichNews(newsId)
+
+    const artStyle = await pickArtStyle(news.art_style as string | null, {
+      headline,
+      language,
+      category: (news.category as NewsCategory | null) ?? undefined,
+      summary: enrichment?.summary,
+      entities: enrichment?.entities.map(entity => entity.name)
+    })
+    await supabase
+      .from(NEWS_TABLE)
+      .update({ art_style: artStyle })
+      .eq('id', newsId)
+
+    await new MediaService({ baseUrl, serviceToken: process.env.CRON_SECRET }).generateMedia({
+      headline,
+      artStyle,
+      newsId,
+      language,
+      context: enrichment ?? undefined
+    })
+  }
+
+  async run({ baseUrl, limit = POLLER_CONFIG.jobBatchSize }: MediaJobRunOptions): Promise<MediaJobRunResult> {
+    const jobs = await this.claimJobs(limit)
+    const result: MediaJobRunResult = { claimed: jobs.length, completed: [], failed: [] }
+
+    for (const job of jobs) {
+      try {
+        await this.processJob(job, baseUrl)
+        await this.finishJob(job)
+        result.completed.push(job.id)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        // Moderation blocks are final, the same headline would be blocked again
+        const willRetry = await this.finishJob(job, message, !(error instanceof PromptBlockedError))
+        result.failed.push({ jobId: job.id, newsId: job.news_id, error: message, willRetry })
+
+        devLog('Media job failed', {
+          prefix: 'media-jobs',
+          level: 'error'
+        }, { error, data: { jobId: job.id, newsId: job.news_id, attempts: job.attempts, willRetry } })
+      }
+    }
+
+    devLog('Media job run complete', {
+      prefix: 'media-jobs',
+      level: 'info'
+    }, { data: result })
+
+    return result
+  }
+}
+
+// Create a singleton instance
+export const mediaJobRunner = new MediaJobRunner()
@@ -1,19 +1,35 @@
 import { devLog } from '@/lib/utils/log'
-import { ArtStyle, type ArtStyleKey, type ArtStyleValue } from '@/types/art'
-import { promptService } from './prompt'
+import { PromptService, promptService } from './prompt'
 import { saveNewsImage } from '@/lib/actions/news'
-import type { NewsItem } from '@/types/news'
+import { PromptBlockedError } from '@/lib/utils/errors'
+import type { ArticleContext, NewsItem, NewsLanguage } from '@/types/news'
+import type { ModerationDecision } from '@/types/moderation'
+import type { PromptMetadata } from '@/types/prompt'
+import type { ImageParamsInput, ImageVariantsInput } from '@/lib/schemas/image'
+import type { ImageGenerationParams, ImageManifest, ImageVariant } from '@/types/image'
 
 interface MediaGenerationConfig {
   headline: string
-  artStyle: ArtStyleKey
+  // art_styles key or display name
+  artStyle: string
   newsId?: string
+  // Language the headline is written in, if known; otherwise it is detected
+  language?: NewsLanguage
+  // Viewer's language for the narration, defaults to the headline's own
+  narrationLanguage?: NewsLanguage
+  context?: ArticleContext
+  // Size, preset, steps and seed for the image; defaults when left out
+  imageParams?: ImageParamsInput
+  // Extra drawings to pick from; the first becomes the image, the rest are kept as alternates
+  imageVariants?: ImageVariantsInput
+  // Caller's Supabase access token, for their own styles and their plan's image limits and quota
+  accessToken?: string
   onProgress?: (progress: MediaGenerationProgress) => void
   onNewsUpdated?: (news: NewsItem) => void
 }
 
 interface MediaGenerationProgress {
-  stage: 'prompt' | 'image' | 'upload' | 'audio' | 'complete'
+  stage: 'prompt' | 'moderation' | 'image' | 'upload' | 'audio' | 'complete'
   progress: number
   message: string
   error?: string
@@ -21,22 +37,45 @@ interface MediaGenerationProgress {
 
 interface MediaGenerationResult {
   imageUrl: string
+  // Every optimized rendition of imageUrl
+  imageManifest: ImageManifest
+  // Variants not picked yet, for a picker
+  imageAlternates: ImageVariant[]
+  // The prompt exactly as the image provider got it
+  imagePrompt: string
   audioUrl: string
   prompt: string
-  metadata: {
-    style: ArtStyleValue
-    headline: string
-    timestamp: string
-    model: string
-    style_notes: string[]
-    composition: string
-    lighting: string
-    color_palette: string
-    negative_prompt?: string
+  metadata: PromptMetadata & {
+    moderation?: ModerationDecision['action']
   }
 }
 
+interface ModerationResponse {
+  action: ModerationDecision['action']
+  prompt: string
+  negative_prompt?: string
+  decision: ModerationDecision
+  error?: string
+}
+
+interface MediaServiceConfig {
+  // Absolute origin for server-side callers such as the media job runner
+  baseUrl?: string
+  // Saves media without a reader's access token; the job runner's CRON_SECRET
+  serviceToken?: string
+}
+
 export class MediaService {
+  private baseUrl: string
+  private serviceToken?: string
+  private promptService: PromptService
+
+  constructor(config: MediaServiceConfig = {}) {
+    this.baseUrl = config.baseUrl ?? ''
+    this.serviceToken = config.serviceToken
+    this.promptService = config.baseUrl ? new PromptService({ baseUrl: config.baseUrl }) : promptService
+  }
+
   async generateMedia(config: MediaGenerationConfig): Promise<MediaGenerationResult> {
     const progress = (stage: MediaGenerationProgress['stage'], progress: number, message: string, error?: string) => {
       config.onProgress?.({
@@ -50,21 +89,43 @@ export class MediaService {
     try {
       // Stage 1: Generate prompt
       progress('prompt', 0.2, 'Generating artistic prompt...')
-      const promptResult = await promptService.generatePrompt({
+      const promptResult = await this.promptService.generatePrompt({
         headline: config.headline,
-        artStyle: config.artStyle
+        artStyle: config.artStyle,
+        newsId: config.newsId,
+        language: config.language,
+        context: config.context
+      }, config.accessToken)
+      const promptHeadline = promptResult.metadata.headline_en ?? config.headline
+
+      // Stage 2: Editorial guardrails, may soften the prompt or stop here
+      progress('moderation', 0.3, 'Checking prompt against editorial guidelines...')
+      const moderation = await this.moderatePrompt({
+        headline: promptHeadline,
+        prompt: promptResult.prompt,
+        negativePrompt: promptResult.metadata.negative_prompt
       })
 
-      // Stage 2: Generate image
+      // Stage 3: Generate image
       progress('image', 0.4, 'Creating artistic image...')
-      const imageResponse = await fetch('/api/generate-image', {
+      const imageResponse = await fetch(`${this.baseUrl}/api/generate-image`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.accessToken && { Authorization: `Bearer ${config.accessToken}` })
+        },
         body: JSON.stringify({
-          headline: config.headline,
-          style: ArtStyle[config.artStyle],
-          prompt: promptResult.prompt,
-          newsId: config.newsId
+          headline: promptHeadline,
+          style: config.artStyle,
+          prompt: moderation.prompt,
+          newsId: config.newsId,
+          params: config.imageParams,
+          variants: config.imageVariants,
+          // Carried through intact; the moderated negative prompt replaces the model's
+          metadata: {
+            ...promptResult.metadata,
+            negative_prompt: moderation.negative_prompt ?? promptResult.metadata.negative_prompt
+          }
         })
       })
 
@@ -73,48 +134,52 @@ export class MediaService {
         throw new Error(error.message || 'Failed to generate image')
       }
 
-      const { imageData } = await imageResponse.json()
+      const { imageData, style, artStyle, params: imageParams, finalPrompt, negativePrompt, variants } = await imageResponse.json() as {
+        imageData?: string
+        style: string
+        artStyle: string
+        params: ImageGenerationParams
+        finalPrompt: string
+        negativePrompt?: string
+        variants?: Array<{
+          imageData: string
+          style: string
+          params: ImageGenerationParams
+          finalPrompt: string
+          negativePrompt?: string
+        }>
+      }
 
       if (!imageData) {
         throw new Error('No image data received from API')
       }
 
-      // Stage 3: Upload image
-      progress('upload', 0.6, 'Uploading generated image...')
-      const uploadResponse = await fetch('/api/upload-image', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          imageData,
-          headline: config.headline,
-          newsId: config.newsId
+      // Stage 4: Upload image, and every variant after it
+      progress('upload', 0.6, variants ? `Uploading ${variants.length} image variants...` : 'Uploading generated image...')
+      const { imageUrl, manifest: imageManifest } = await this.uploadImage({ imageData, headline: config.headline, newsId: config.newsId, variant: variants ? 0 : undefined })
+      const imageAlternates: ImageVariant[] = []
+      for (const [index, variant] of (variants ?? []).entries()) {
+        if (index === 0) continue
+        const upload = await this.uploadImage({ imageData: variant.imageData, headline: config.headline, newsId: config.newsId, variant: index })
+        imageAlternates.push({
+          image_url: upload.imageUrl,
+          art_style: variant.style,
+          params: variant.params,
+          image_manifest: upload.manifest,
+          image_prompt: variant.finalPrompt,
+          image_negative_prompt: variant.negativePrompt
         })
-      })
-
-      devLog('MediaService: Upload response', {
-        prefix: 'media-service',
-        level: 'debug'
-      }, {
-        data: {
-          uploadResponse
-        }
-      })
-
-      if (!uploadResponse.ok) {
-        const error = await uploadResponse.json()
-        throw new Error(error.message || 'Failed to upload image')
       }
 
-      const { imageUrl } = await uploadResponse.json()
-
-      // Stage 4: Generate audio through API
+      // Stage 5: Generate audio through API
       progress('audio', 0.8, 'Generating audio narration...')
-      const audioResponse = await fetch('/api/generate-audio', {
+      const audioResponse = await fetch(`${this.baseUrl}/api/generate-audio`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           headline: config.headline,
-          newsId: config.newsId
+          newsId: config.newsId,
+          language: config.narrationLanguage
         })
       })
 
@@ -137,18 +202,28 @@ export class MediaService {
         }
       })
 
-      // Stage 5: Update database with all media data
+      // Stage 6: Update database with all media data
       if (config.newsId) {
         progress('complete', 0.9, 'Saving media data...')
-        const updatedNews = await this.updateNewsWithMedia(config.newsId, {
+        const updatedNews = await this.updateNewsWithMedia(config.newsId, config.accessToken ?? this.serviceToken, {
           imageUrl,
-          audioUrl: audioResult.audioUrl,
-          audioAlignment: audioResult.alignment ? {
+          artStyle,
+          // Narration in the viewer's language is theirs alone, the row keeps the original
+          audioUrl: audioResult.translated ? undefined : audioResult.audioUrl,
+          audioAlignment: audioResult.alignment && !audioResult.translated ? {
             characters: audioResult.alignment.characters || [],
             character_start_times_seconds: audioResult.alignment.character_start_times_seconds || [],
             character_end_times_seconds: audioResult.alignment.character_end_times_seconds || []
           } : undefined,
-          prompt: promptResult.prompt
+          prompt: moderation.prompt,
+          promptVersion: promptResult.metadata.prompt_version,
+          imageParams,
+          imageManifest,
+          imagePrompt: finalPrompt,
+          imageNegativePrompt: negativePrompt,
+          imageAlternates: variants ? imageAlternates : undefined,
+          headlineEn: promptResult.metadata.headline_en,
+          language: promptResult.metadata.headline_language
         })
         
         devLog('News updated with media', {
@@ -171,16 +246,22 @@ export class MediaService {
         }
       }
 
-      // Stage 6: Complete
+      // Stage 7: Complete
       progress('complete', 1, 'Media generation complete!')
 
       return {
         imageUrl,
+        imageManifest,
+        imageAlternates,
+        imagePrompt: finalPrompt,
         audioUrl: audioResult.audioUrl,
-        prompt: promptResult.prompt,
+        prompt: moderation.prompt,
         metadata: {
           ...promptResult.metadata,
-          style: ArtStyle[config.artStyle],
+          negative_prompt: moderation.negative_prompt,
+          moderation: moderation.action,
+          // Display name the image route resolved the style to
+          style,
           timestamp: new Date().toISOString()
         }
       }
@@ -192,19 +273,88 @@ export class MediaService {
     }
   }
 
+  private async uploadImage(input: {
+    imageData: string
+    headline: string
+    newsId?: string
+    // Index within a variant set, keeps the uploads' file names apart
+    variant?: number
+  }): Promise<{ imageUrl: string; manifest: ImageManifest }> {
+    const uploadResponse = await fetch(`${this.baseUrl}/api/upload-image`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    })
+
+    devLog('MediaService: Upload response', {
+      prefix: 'media-service',
+      level: 'debug'
+    }, {
+      data: {
+        uploadResponse,
+        variant: input.variant
+      }
+    })
+
+    if (!uploadResponse.ok) {
+      const error = await uploadResponse.json()
+      throw new Error(error.message || 'Failed to upload image')
+    }
+
+    return uploadResponse.json()
+  }
+
+  private async moderatePrompt(input: {
+    headline: string
+    prompt: string
+    negativePrompt?: string
+  }): Promise<ModerationResponse> {
+    const response = await fetch(`${this.baseUrl}/api/moderate-prompt`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    })
+    const result = await response.json()
+
+    if (response.status === 422) {
+      const decision = (result as ModerationResponse).decision
+      throw new PromptBlockedError(decision?.flags.map(flag => flag.match) ?? [])
+    }
+
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to moderate prompt')
+    }
+
+    return result as ModerationResponse
+  }
+
   private async updateNewsWithMedia(
     newsId: string,
+    // The reader's access token, or the service token
+    token: string | undefined,
     mediaData: {
       imageUrl?: string
+      artStyle?: string
       audioUrl?: string
       audioAlignment?: any
       prompt?: string
+      promptVersion?: string
+      imageParams?: ImageGenerationParams
+      imageManifest?: ImageManifest
+      imagePrompt?: string
+      imageNegativePrompt?: string
+      imageAlternates?: ImageVariant[]
+      headlineEn?: string
+      language?: NewsLanguage
     }
   ): Promise<NewsItem> {
     try {
-      const response = await fetch('/api/update-news-media', {
+      const response = await fetch(`${this.baseUrl}/api/update-news-media`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` })
+        },
         body: JSON.stringify({
           newsId,
           ...mediaData
@@ -213,7 +363,7 @@ export class MediaService {
 
       if (!response.ok) {
         const error = await response.json()
-        throw new Error(error.message || 'Failed to update news media')
+        throw new Error(error.error || error.message || 'Failed to update news media')
       }
 
       return await response.json()
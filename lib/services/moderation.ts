@@ -0,0 +1,114 @@
+import { devLog } from '@/lib/utils/log'
+import { getAdminSupabase } from '@/lib/supabase/client'
+import { MODERATION_CONFIG } from '@/lib/config/moderation'
+import { getModerationClassifier } from '@/lib/providers/moderation'
+import { screenText, softenPrompt, strongestAction } from '@/lib/utils/moderation'
+import type { ModerationClassification, ModerationClassifier, ModerationDecision, ModerationFlag } from '@/types/moderation'
+
+export interface ModerationInput {
+  headline: string
+  prompt: string
+  negativePrompt?: string
+}
+
+export class ModerationService {
+  private classifier: ModerationClassifier | null
+
+  constructor(classifier: ModerationClassifier | null = getModerationClassifier()) {
+    this.classifier = classifier
+  }
+
+  // A classifier outage never blocks generation; the rules still apply
+  private async classify(text: string): Promise<ModerationClassification | undefined> {
+    if (!this.classifier) return undefined
+
+    try {
+      return await this.classifier.classify(text)
+    } catch (error) {
+      devLog('Moderation classifier failed', {
+        prefix: 'moderation',
+        level: 'warn'
+      }, { error })
+
+      return {
+        provider: this.classifier.id,
+        action: 'allow',
+        categories: [],
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  async review({ headline, prompt, negativePrompt }: ModerationInput): Promise<ModerationDecision> {
+    const text = `${headline}\n${prompt}`
+    const flags = screenText(text)
+    const classifier = await this.classify(text)
+
+    if (classifier && classifier.action !== 'allow') {
+      flags.push(...classifier.categories.map(category => ({
+        category: 'classifier' as const,
+        rule: category,
+        match: category,
+        action: classifier.action
+      })))
+    }
+
+    return this.decide(prompt, flags, negativePrompt, classifier)
+  }
+
+  // The decision for flags already screened, with the prompt softened when they call for it
+  decide(
+    prompt: string,
+    flags: ModerationFlag[],
+    negativePrompt?: string,
+    classifier?: ModerationClassification
+  ): ModerationDecision {
+    const action = strongestAction(flags.map(flag => flag.action))
+    const softened = action === 'soften' ? softenPrompt(prompt, flags, negativePrompt) : null
+
+    return {
+      action,
+      flags,
+      classifier,
+      policy_version: MODERATION_CONFIG.policyVersion,
+      original_prompt: prompt,
+      prompt: softened?.prompt,
+      negative_prompt: softened?.negative_prompt ?? negativePrompt,
+      decided_at: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Appends to metadata.moderation in one statement, so regenerations keep
+   * their history and concurrent decisions don't overwrite each other.
+   * Only the generation pipeline records; append_moderation_decision is
+   * service-role only (migration 020).
+   */
+  async record(newsId: string, decision: ModerationDecision): Promise<void> {
+    const { error } = await getAdminSupabase().rpc('append_moderation_decision', {
+      p_news_id: newsId,
+      p_decision: decision
+    })
+
+    if (error) throw error
+  }
+
+  async moderate(input: ModerationInput): Promise<ModerationDecision> {
+    const decision = await this.review(input)
+
+    devLog(`Prompt moderation: ${decision.action}`, {
+      prefix: 'moderation',
+      level: decision.action === 'allow' ? 'debug' : 'info'
+    }, {
+      data: {
+        headline: input.headline,
+        flags: decision.flags.map(flag => `${flag.category}:${flag.match}`)
+      }
+    })
+
+    return decision
+  }
+}
+
+// Create a singleton instance
+export const moderationService = new ModerationService()
@@ -1,57 +1,57 @@
 import { devLog } from '@/lib/utils/log'
-import type { NewsSource, NewsSourceFilter, NewsSourceResponse } from '@/types/news'
+import type { NewsCategory, NewsPage, NewsSource, NewsSourceFilter } from '@/types/news'
 import { NEWS_API_CONFIG } from '@/lib/config/news-sources'
-import { DEFAULT_SOURCES } from '@/lib/config/news-sources'
+import { MediastackProvider } from '@/lib/providers/news/mediastack'
+import { canAccessPremiumSources, sourceRegistry } from '@/lib/services/sources'
+import type { SubscriptionTier } from '@/lib/constants/plans'
+import { toNewsItem } from '@/lib/utils/news-item'
 
 interface NewsServiceConfig {
   apiKey: string
-  isSubscribed?: boolean
+  tier?: SubscriptionTier
 }
 
+const MEDIASTACK_API_KEY = process.env.MEDIASTACK_API_KEY || process.env.NEXT_PUBLIC_MEDIASTACK_API_KEY || ''
+
 export class NewsService {
-  private apiKey: string
-  private isSubscribed: boolean
+  private provider: MediastackProvider
+  private tier: SubscriptionTier
 
   constructor(config: NewsServiceConfig) {
-    this.apiKey = config.apiKey
-    this.isSubscribed = config.isSubscribed || false
+    this.provider = new MediastackProvider({ apiKey: config.apiKey })
+    this.tier = config.tier ?? 'FREE'
   }
 
-  private async fetchSources(filter: NewsSourceFilter = {}): Promise<NewsSourceResponse> {
-    const params = new URLSearchParams({
-      access_key: this.apiKey,
-      ...filter
+  // Service scoped to the caller's active subscription tier
+  static async forEmail(email?: string | null): Promise<NewsService> {
+    return new NewsService({
+      apiKey: MEDIASTACK_API_KEY,
+      tier: await sourceRegistry.getTier(email)
     })
-
-    const response = await fetch(`${NEWS_API_CONFIG.baseUrl}/sources?${params}`)
-    if (!response.ok) {
-      throw new Error('Failed to fetch news sources')
-    }
-
-    return response.json()
   }
 
-  private async fetchNews(filter: NewsSourceFilter = {}): Promise<any> {
-    const params = new URLSearchParams({
-      access_key: this.apiKey,
-      languages: NEWS_API_CONFIG.defaultLanguage.join(','),
-      countries: NEWS_API_CONFIG.defaultCountries.join(','),
-      categories: NEWS_API_CONFIG.defaultCategories.join(','),
-      ...filter
+  private async fetchNews(filter: NewsSourceFilter = {}): Promise<NewsPage> {
+    const limit = filter.limit ?? NEWS_API_CONFIG.defaultLimit
+    const { articles, pagination, rejected } = await this.provider.fetchPage({
+      ...this.provider.toParams(filter),
+      limit: String(limit)
     })
 
-    const response = await fetch(`${NEWS_API_CONFIG.baseUrl}/news?${params}`)
-    if (!response.ok) {
-      throw new Error('Failed to fetch news')
+    return {
+      items: articles.map(article => toNewsItem(article)),
+      pagination: pagination ?? {
+        limit,
+        offset: filter.offset ?? 0,
+        count: articles.length,
+        total: articles.length
+      },
+      rejected
     }
-
-    return response.json()
   }
 
   async getAvailableSources(): Promise<NewsSource[]> {
     try {
-      const response = await this.fetchSources()
-      return response.data
+      return await this.provider.fetchSources()
     } catch (error) {
       devLog('Failed to fetch available sources', {
         prefix: 'news-service',
@@ -61,25 +61,30 @@ export class NewsService {
     }
   }
 
-  async getNews(filter: NewsSourceFilter = {}): Promise<any> {
+  // Registry sources this service's tier may read
+  async getAllowedSources(): Promise<NewsSource[]> {
+    const sources = await sourceRegistry.getActiveSources()
+    return canAccessPremiumSources(this.tier)
+      ? sources
+      : sources.filter(source => !source.isPremium)
+  }
+
+  async getNews(filter: NewsSourceFilter = {}): Promise<NewsPage> {
     try {
-      // If user is not subscribed, only use free sources
-      if (!this.isSubscribed) {
-        filter.sources = DEFAULT_SOURCES.join(',')
-      }
+      // Premium sources are dropped (or rejected if asked for) below PRO
+      const restricted = await sourceRegistry.restrictFilter(filter, this.tier)
 
       devLog('Fetching news', {
         prefix: 'news-service',
         level: 'debug'
       }, {
         data: {
-          filter,
-          isSubscribed: this.isSubscribed
+          filter: restricted,
+          tier: this.tier
         }
       })
 
-      const response = await this.fetchNews(filter)
-      return response
+      return await this.fetchNews(restricted)
     } catch (error) {
       devLog('Failed to fetch news', {
         prefix: 'news-service',
@@ -89,11 +94,11 @@ export class NewsService {
     }
   }
 
-  async searchNews(query: string, filter: NewsSourceFilter = {}): Promise<any> {
+  async searchNews(query: string, filter: NewsSourceFilter = {}): Promise<NewsPage> {
     try {
       const searchFilter = {
         ...filter,
-        keywords: query
+        search: query
       }
 
       return await this.getNews(searchFilter)
@@ -106,11 +111,11 @@ export class NewsService {
     }
   }
 
-  async getNewsByCategory(category: string, filter: NewsSourceFilter = {}): Promise<any> {
+  async getNewsByCategory(category: NewsCategory, filter: NewsSourceFilter = {}): Promise<NewsPage> {
     try {
       const categoryFilter = {
         ...filter,
-        categories: category
+        categories: [category]
       }
 
       return await this.getNews(categoryFilter)
@@ -124,8 +129,8 @@ export class NewsService {
   }
 }
 
-// Create a singleton instance
+// Create a singleton instance for anonymous callers, use NewsService.forEmail otherwise
 export const newsService = new NewsService({
-  apiKey: process.env.NEXT_PUBLIC_MEDIASTACK_API_KEY || '',
-  isSubscribed: false // This should be updated based on user's subscription status
+  apiKey: MEDIASTACK_API_KEY,
+  tier: 'FREE'
 }) 
\ No newline at end of file
@@ -0,0 +1,222 @@
+import { devLog } from '@/lib/utils/log'
+import { getAdminSupabase } from '@/lib/supabase/client'
+import { MEDIA_JOBS_TABLE, SOURCE_CURSORS_TABLE } from '@/constants/tables'
+import { NEWS_API_CONFIG, POLLER_CONFIG } from '@/lib/config/news-sources'
+import { mediastackProvider, rssProvider } from '@/lib/providers/news'
+import { toArticle } from '@/lib/providers/news/rss'
+import { clusterArticles } from '@/lib/utils/stories'
+import { saveArticles, validateArticles } from '@/lib/news'
+import { sourceRegistry } from './sources'
+import type { NewsArticle, NewsSource, NewsSourceCursor } from '@/types/news'
+
+interface SourcePollResult {
+  sourceId: string
+  status: 'polled' | 'skipped' | 'failed'
+  newArticles: NewsArticle[]
+  // Saved once the run's articles are stored, so a failed save polls them again
+  cursor?: NewsSourceCursor
+  error?: string
+}
+
+export interface PollRunResult {
+  startedAt: string
+  sources: Array<Omit<SourcePollResult, 'newArticles' | 'cursor'> & { newCount: number }>
+  inserted: number
+  duplicates: number
+  rejected: number
+  jobsEnqueued: number
+}
+
+interface PollRunOptions {
+  now?: Date
+  // Ignore next_poll_at and poll every active source
+  force?: boolean
+  sourceIds?: string[]
+}
+
+function byNewest(a: NewsArticle, b: NewsArticle): number {
+  return (b.published_at ?? '').localeCompare(a.published_at ?? '')
+}
+
+export class NewsPoller {
+  private async getCursors(): Promise<Map<string, NewsSourceCursor>> {
+    const { data, error } = await getAdminSupabase()
+      .from(SOURCE_CURSORS_TABLE)
+      .select('*')
+
+    if (error) throw error
+    return new Map(((data ?? []) as unknown as NewsSourceCursor[]).map(cursor => [cursor.source_id, cursor]))
+  }
+
+  private async saveCursor(cursor: NewsSourceCursor): Promise<void> {
+    const { error } = await getAdminSupabase()
+      .from(SOURCE_CURSORS_TABLE)
+      .upsert({ ...cursor }, { onConflict: 'source_id' })
+
+    if (error) throw error
+  }
+
+  private isDue(cursor: NewsSourceCursor | undefined, now: Date): boolean {
+    return !cursor || new Date(cursor.next_poll_at).getTime() <= now.getTime()
+  }
+
+  private async fetchSource(source: NewsSource): Promise<NewsArticle[]> {
+    if (source.type === 'rss' && source.feedUrl) {
+      return (await rssProvider.fetchFeed(source)).map(item => toArticle(item, source))
+    }
+
+    if (!mediastackProvider.isConfigured()) {
+      throw new Error('Mediastack API key not configured')
+    }
+
+    return mediastackProvider.fetchArticles({
+      sources: source.id,
+      languages: NEWS_API_CONFIG.defaultLanguage.join(','),
+      sort: 'published_desc',
+      limit: String(POLLER_CONFIG.maxItemsPerSource)
+    })
+  }
+
+  /**
+   * Articles newer than the cursor: stops at the last seen URL and drops
+   * anything published at or before the last published_at.
+   */
+  selectNewArticles(articles: NewsArticle[], cursor?: NewsSourceCursor): NewsArticle[] {
+    const sorted = [...articles].sort(byNewest)
+    const lastSeenIndex = cursor?.last_seen_url
+      ? sorted.findIndex(article => article.url === cursor.last_seen_url)
+      : -1
+    const unseen = lastSeenIndex === -1 ? sorted : sorted.slice(0, lastSeenIndex)
+
+    return unseen
+      .filter(article => !cursor?.last_published_at || !article.published_at ||
+        new Date(article.published_at) > new Date(cursor.last_published_at))
+      .slice(0, POLLER_CONFIG.maxItemsPerSource)
+  }
+
+  private async pollSource(
+    source: NewsSource,
+    cursor: NewsSourceCursor | undefined,
+    now: Date
+  ): Promise<SourcePollResult> {
+    const interval = source.pollIntervalMinutes ?? POLLER_CONFIG.defaultIntervalMinutes
+    const nextPollAt = new Date(now.getTime() + interval * 60 * 1000).toISOString()
+
+    try {
+      const articles = await this.fetchSource(source)
+      const newArticles = this.selectNewArticles(articles, cursor)
+      const [newest] = [...articles].sort(byNewest)
+
+      return {
+        sourceId: source.id,
+        status: 'polled',
+        newArticles,
+        cursor: {
+          source_id: source.id,
+          last_published_at: newest?.published_at ?? cursor?.last_published_at ?? null,
+          last_seen_url: newest?.url ?? cursor?.last_seen_url ?? null,
+          last_polled_at: now.toISOString(),
+          next_poll_at: nextPollAt,
+          last_error: null
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+
+      devLog(`Polling ${source.id} failed`, {
+        prefix: 'news-poller',
+        level: 'warn'
+      }, { error })
+
+      // Without the record the source is simply retried next run; the other sources still get polled
+      try {
+        await this.saveCursor({
+          source_id: source.id,
+          last_published_at: cursor?.last_published_at ?? null,
+          last_seen_url: cursor?.last_seen_url ?? null,
+          last_polled_at: now.toISOString(),
+          next_poll_at: nextPollAt,
+          last_error: message
+        })
+      } catch (cursorError) {
+        devLog(`Recording the failed poll of ${source.id} failed`, {
+          prefix: 'news-poller',
+          level: 'error'
+        }, { error: cursorError })
+      }
+
+      return { sourceId: source.id, status: 'failed', newArticles: [], error: message }
+    }
+  }
+
+  private async enqueueMediaJobs(newsIds: string[]): Promise<number> {
+    if (!newsIds.length) return 0
+
+    const { data, error } = await getAdminSupabase()
+      .from(MEDIA_JOBS_TABLE)
+      .upsert(newsIds.map(newsId => ({ news_id: newsId })), {
+        onConflict: 'news_id',
+        ignoreDuplicates: true
+      })
+      .select('id')
+
+    if (error) throw error
+    return data?.length ?? 0
+  }
+
+  async run(options: PollRunOptions = {}): Promise<PollRunResult> {
+    const now = options.now ?? new Date()
+    const cursors = await this.getCursors()
+    const sources = (await sourceRegistry.getActiveSources())
+      .filter(source => !options.sourceIds || options.sourceIds.includes(source.id))
+
+    const results: SourcePollResult[] = []
+
+    // Sequential on purpose: keeps us well inside provider rate limits
+    for (const source of sources) {
+      const cursor = cursors.get(source.id)
+      if (!options.force && !this.isDue(cursor, now)) {
+        results.push({ sourceId: source.id, status: 'skipped', newArticles: [] })
+        continue
+      }
+      results.push(await this.pollSource(source, cursor, now))
+    }
+
+    const newArticles = results.flatMap(result => result.newArticles)
+    const { valid, errors } = validateArticles(
+      clusterArticles(newArticles).map(story => story.canonical)
+    )
+    const inserted = await saveArticles(valid)
+
+    // Only now are the articles safe, so the cursors can move past them
+    for (const result of results) {
+      if (result.cursor) await this.saveCursor(result.cursor)
+    }
+
+    const jobsEnqueued = await this.enqueueMediaJobs(inserted.map(article => article.id))
+
+    const summary: PollRunResult = {
+      startedAt: now.toISOString(),
+      sources: results.map(({ sourceId, status, error, newArticles }) => ({
+        sourceId,
+        status,
+        error,
+        newCount: newArticles.length
+      })),
+      inserted: inserted.length,
+      duplicates: newArticles.length - inserted.length - errors.length,
+      rejected: errors.length,
+      jobsEnqueued
+    }
+
+    devLog('Scheduled poll complete', {
+      prefix: 'news-poller',
+      level: 'info'
+    }, { data: summary })
+
+    return summary
+  }
+}
+
+// Create a singleton instance
+export const newsPoller = new NewsPoller()
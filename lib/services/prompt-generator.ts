@@ -0,0 +1,261 @@
+import { devLog } from '@/lib/utils/log'
+import { getAdminSupabase } from '@/lib/supabase/client'
+import { NEWS_TABLE } from '@/constants/tables'
+import { PROMPT_MODEL_CONFIG } from '@/lib/config/prompt-models'
+import { PROMPT_MODEL_PROVIDERS, getDefaultPromptModelProvider, templatePromptProvider } from '@/lib/providers/prompt'
+import { ArticleContextSchema, PromptSchema, type PromptContent, type PromptRequest } from '@/lib/schemas/prompt'
+import { PromptRequestError, isRetryableError, retryWithBackoff } from '@/lib/utils/errors'
+import { parseStructuredOutput } from '@/lib/utils/structured-output'
+import { TtlCache } from '@/lib/utils/cache'
+import { hashString } from '@/lib/utils/random'
+import { promptTemplateRegistry } from './prompt-templates'
+import { artStyleCatalog } from './art-styles'
+import { headlineTranslator } from './translation'
+import type { ArticleContext } from '@/types/news'
+import type { PromptModelProvider, PromptModelRequest, PromptModelResponse, PromptResponse } from '@/types/prompt'
+
+const SYSTEM_PROMPT = 'You are an expert art director and prompt engineer specializing in creating detailed, artistic prompts for AI image generation. Always respond in valid JSON format with the following structure: {"prompt": "string", "style_notes": ["string"], "composition": "string", "lighting": "string", "color_palette": "string", "negative_prompt": "string"}'
+
+interface ValidatedPrompt {
+  content: PromptContent
+  response: PromptModelResponse
+  attempts: number
+  fallback: boolean
+}
+
+function formatContext(context?: ArticleContext | null): string {
+  if (!context?.summary) return ''
+
+  const entities = context.entities.map(entity => entity.name).join(', ')
+  return [
+    `Article Summary: ${context.summary}`,
+    entities ? `Key People, Places and Organisations: ${entities}` : ''
+  ].filter(Boolean).join('\n') + '\n'
+}
+
+// Summary stored by the enrichment step, if this article has one
+async function loadStoredContext(newsId: string): Promise<ArticleContext | null> {
+  const { data } = await getAdminSupabase()
+    .from(NEWS_TABLE)
+    .select('metadata')
+    .eq('id', newsId)
+    .maybeSingle()
+
+  const parsed = ArticleContextSchema.safeParse((data?.metadata as Record<string, unknown> | null)?.enrichment)
+  return parsed.success ? parsed.data : null
+}
+
+// Template version and context change the prompt as much as the headline does; the
+// context goes in as a hash of exactly what the template sees, summary and entity names
+function cacheKey(headline: string, artStyle: string, templateVersion: string, context?: ArticleContext | null): string {
+  const formattedContext = formatContext(context)
+  return [
+    artStyle.trim().toLowerCase(),
+    templateVersion,
+    formattedContext ? `context:${hashString(formattedContext).toString(36)}` : 'headline',
+    headline.trim().replace(/\s+/g, ' ').toLowerCase()
+  ].join('\u0000')
+}
+
+function logParseFailure(response: PromptModelResponse, attempt: number, error: string) {
+  devLog('Prompt response failed validation', {
+    prefix: 'prompt-generator',
+    level: 'warn'
+  }, {
+    data: {
+      provider: response.provider,
+      model: response.model,
+      attempt,
+      error,
+      raw: response.content
+    }
+  })
+}
+
+/**
+ * Server-side prompt generation shared by /api/generate-prompt and the
+ * prompt server action: template selection, model call with retries,
+ * output validation and a cache keyed on headline, style, template and context.
+ */
+export class PromptGenerator {
+  private cache: TtlCache<PromptResponse>
+
+  constructor(cacheTtlSeconds: number = PROMPT_MODEL_CONFIG.cacheTtlSeconds) {
+    this.cache = new TtlCache(cacheTtlSeconds * 1000, 500)
+  }
+
+  // Requested provider, or the environment's; PROMPT_MODEL only applies to the latter
+  private resolveModel(request: PromptRequest): { provider: PromptModelProvider; model?: string } {
+    const provider = request.provider ? PROMPT_MODEL_PROVIDERS[request.provider] : getDefaultPromptModelProvider()
+    if (!provider.isConfigured()) {
+      throw new PromptRequestError(`Prompt provider ${provider.id} is not configured`)
+    }
+    if (request.model && !PROMPT_MODEL_CONFIG.allowedModels[provider.id].includes(request.model)) {
+      throw new PromptRequestError(`Model ${request.model} is not available for ${provider.id}`)
+    }
+
+    const model = request.model ??
+      (provider.id === PROMPT_MODEL_CONFIG.provider ? PROMPT_MODEL_CONFIG.model : undefined)
+    return { provider, model }
+  }
+
+  private complete(provider: PromptModelProvider, modelRequest: PromptModelRequest): Promise<PromptModelResponse> {
+    return retryWithBackoff(() => provider.complete(modelRequest), {
+      maxAttempts: 3,
+      initialDelayMs: 1000,
+      shouldRetry: isRetryableError,
+      onRetry: (error, attempt, delayMs) => {
+        devLog(`${provider.name} API error, retrying after ${delayMs}ms (attempt ${attempt})`, {
+          prefix: 'prompt-generator',
+          level: 'warn'
+        }, { error })
+      }
+    })
+  }
+
+  /**
+   * Model reply parsed against PromptSchema. A reply that fails gets one
+   * corrective re-ask quoting the validation errors; if that fails too the
+   * art style template is used, so a bad reply never becomes a 500.
+   */
+  private async generateValidated(
+    provider: PromptModelProvider,
+    modelRequest: PromptModelRequest
+  ): Promise<ValidatedPrompt> {
+    const response = await this.complete(provider, modelRequest)
+    const first = parseStructuredOutput(PromptSchema, response.content)
+    if (first.success) return { content: first.data, response, attempts: 1, fallback: false }
+
+    logParseFailure(response, 1, first.error)
+
+    try {
+      const retry = await this.complete(provider, {
+        ...modelRequest,
+        messages: [
+          ...modelRequest.messages,
+          { role: 'assistant', content: response.content },
+          {
+            role: 'user',
+            content: `Your reply could not be used: ${first.error}. Reply again with only the JSON object, with every field filled in and no other text.`
+          }
+        ]
+      })
+      const second = parseStructuredOutput(PromptSchema, retry.content)
+      if (second.success) return { content: second.data, response: retry, attempts: 2, fallback: false }
+
+      logParseFailure(retry, 2, second.error)
+    } catch (error) {
+      devLog('Corrective prompt request failed', {
+        prefix: 'prompt-generator',
+        level: 'warn'
+      }, { error })
+    }
+
+    const fallback = await templatePromptProvider.complete(modelRequest)
+    return {
+      content: PromptSchema.parse(JSON.parse(fallback.content)),
+      response: fallback,
+      attempts: 2,
+      fallback: true
+    }
+  }
+
+  // `owner` is the verified caller; only they can use their own `custom:` styles
+  async generate(request: PromptRequest, owner?: string | null): Promise<PromptResponse> {
+    const { headline, artStyle, newsId } = request
+
+    const style = await artStyleCatalog.getStyle(artStyle, false, owner)
+    if (!style) {
+      throw new PromptRequestError(`Unknown art style ${artStyle}`)
+    }
+
+    // Same article, same variant, so results can be compared per version
+    const template = request.templateVersion
+      ? promptTemplateRegistry.get(request.templateVersion)
+      : promptTemplateRegistry.assign(newsId ?? headline)
+    if (!template) {
+      throw new PromptRequestError(`Unknown prompt template version ${request.templateVersion}`)
+    }
+
+    const { provider, model } = this.resolveModel(request)
+    const context = request.context ??
+      (newsId ? await loadStoredContext(newsId).catch(() => null) : null)
+
+    // Pinned templates and models are explicit experiments, so they skip the cache
+    const cacheable = !request.fresh && !request.provider && !request.model && !request.templateVersion
+    const key = cacheKey(headline, style.key, template.version, context)
+    const cached = cacheable ? this.cache.get(key) : undefined
+    if (cached) {
+      return { ...cached, metadata: { ...cached.metadata, cached: true } }
+    }
+
+    // Templates and the model work in English; the original headline is kept alongside
+    const translation = await headlineTranslator.toPromptLanguage(headline, request.language)
+    const promptHeadline = translation.text
+
+    const { content, response, attempts, fallback } = await this.generateValidated(provider, {
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        {
+          role: 'user',
+          content: promptTemplateRegistry.render(template, {
+            headline: promptHeadline,
+            // The model knows painters by name, but a personal style only by its description
+            style: style.custom ? `${style.name} (${style.description})` : style.name,
+            context: formatContext(context)
+          })
+        }
+      ],
+      headline: promptHeadline,
+      artStyle: style,
+      context,
+      model,
+      maxTokens: PROMPT_MODEL_CONFIG.maxTokens,
+      temperature: PROMPT_MODEL_CONFIG.temperature
+    })
+
+    const result: PromptResponse = {
+      prompt: content.prompt,
+      metadata: {
+        style: artStyle,
+        headline,
+        headline_language: translation.from,
+        headline_en: translation.translated ? translation.text : undefined,
+        has_article_context: !!context,
+        timestamp: new Date().toISOString(),
+        provider: response.provider,
+        model: response.model,
+        prompt_version: template.version,
+        parse_attempts: attempts,
+        template_fallback: fallback,
+        cached: false,
+        style_notes: content.style_notes,
+        composition: content.composition,
+        lighting: content.lighting,
+        color_palette: content.color_palette,
+        negative_prompt: content.negative_prompt
+      }
+    }
+
+    // Template fallbacks aren't cached, the model may well answer properly next time
+    if (cacheable && !fallback) this.cache.set(key, result)
+
+    devLog('Prompt generated successfully', {
+      prefix: 'prompt-generator',
+      level: 'debug'
+    }, {
+      data: {
+        prompt: result.prompt,
+        provider: response.provider,
+        attempts,
+        fallback,
+        promptVersion: template.version
+      }
+    })
+
+    return result
+  }
+}
+
+// Create a singleton instance
+export const promptGenerator = new PromptGenerator()
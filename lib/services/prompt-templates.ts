@@ -0,0 +1,84 @@
+import { PROMPT_TEMPLATES } from '@/lib/config/prompt-templates'
+import { PromptTemplateError } from '@/lib/utils/errors'
+import { hashString } from '@/lib/utils/random'
+import type { PromptTemplate } from '@/types/prompt'
+
+const PLACEHOLDER = /\{(\w+)\}/g
+
+function placeholders(body: string): Set<string> {
+  return new Set(Array.from(body.matchAll(PLACEHOLDER), match => match[1]))
+}
+
+// Placeholders and declared variables must match exactly, so a typo fails at load, not per request
+function validateTemplate(template: PromptTemplate): void {
+  const used = placeholders(template.body)
+  const undeclared = Array.from(used).filter(name => !template.variables.includes(name))
+  const unused = template.variables.filter(name => !used.has(name))
+
+  if (undeclared.length) {
+    throw new PromptTemplateError(template.version, `undeclared variables ${undeclared.join(', ')}`)
+  }
+  if (unused.length) {
+    throw new PromptTemplateError(template.version, `unused variables ${unused.join(', ')}`)
+  }
+  if (!(template.weight >= 0)) {
+    throw new PromptTemplateError(template.version, 'weight must be zero or more')
+  }
+}
+
+export class PromptTemplateRegistry {
+  private templates: Map<string, PromptTemplate>
+
+  constructor(templates: PromptTemplate[]) {
+    this.templates = new Map()
+
+    for (const template of templates) {
+      if (this.templates.has(template.version)) {
+        throw new PromptTemplateError(template.version, 'duplicate version')
+      }
+      validateTemplate(template)
+      this.templates.set(template.version, template)
+    }
+
+    if (!this.list().some(template => template.weight > 0)) {
+      throw new PromptTemplateError('*', 'at least one template needs a weight above zero')
+    }
+  }
+
+  list(): PromptTemplate[] {
+    return Array.from(this.templates.values())
+  }
+
+  get(version: string): PromptTemplate | undefined {
+    return this.templates.get(version)
+  }
+
+  /**
+   * Weighted variant for a key, usually the news id. The same key always
+   * lands on the same version while the weights stay the same.
+   */
+  assign(key: string): PromptTemplate {
+    const candidates = this.list().filter(template => template.weight > 0)
+    const total = candidates.reduce((sum, template) => sum + template.weight, 0)
+    let bucket = (hashString(key) / 0x100000000) * total
+
+    for (const template of candidates) {
+      bucket -= template.weight
+      if (bucket < 0) return template
+    }
+    return candidates[candidates.length - 1]
+  }
+
+  // Replaces every occurrence of each variable; all declared variables are required
+  render(template: PromptTemplate, values: Record<string, string>): string {
+    const missing = template.variables.filter(name => values[name] === undefined)
+    if (missing.length) {
+      throw new PromptTemplateError(template.version, `missing values for ${missing.join(', ')}`)
+    }
+
+    return template.body.replace(PLACEHOLDER, (_, name: string) => values[name])
+  }
+}
+
+// Create a singleton instance
+export const promptTemplateRegistry = new PromptTemplateRegistry(PROMPT_TEMPLATES)
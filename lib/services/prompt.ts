@@ -1,43 +1,25 @@
 import { devLog } from '@/lib/utils/log'
-import { ArtStyle } from '@/types/art'
-import { z } from 'zod'
+import type { PromptRequest } from '@/lib/schemas/prompt'
+import type { PromptResponse } from '@/types/prompt'
 
-// Define the schema for the prompt response
-const PromptSchema = z.object({
-  prompt: z.string().describe("The detailed artistic prompt for image generation"),
-  style_notes: z.array(z.string()).describe("Key style characteristics to incorporate"),
-  composition: z.string().describe("Composition guidelines"),
-  lighting: z.string().describe("Lighting instructions"),
-  color_palette: z.string().describe("Color palette description"),
-  negative_prompt: z.string().optional().describe("Elements to avoid in the generation")
-})
+// Same input as the server-side PromptGenerator; omitted options fall back to the server's defaults
+type PromptGenerationConfig = PromptRequest
 
-type PromptSchema = z.infer<typeof PromptSchema>
-
-interface PromptGenerationConfig {
-  headline: string
-  artStyle: typeof ArtStyle[keyof typeof ArtStyle]
-  maxTokens?: number
-  temperature?: number
+interface PromptServiceConfig {
+  // Absolute origin for server-side callers; relative URLs are used in the browser
+  baseUrl?: string
 }
 
-interface PromptResponse {
-  prompt: string
-  metadata: {
-    style: string
-    headline: string
-    timestamp: string
-    model: string
-    style_notes: string[]
-    composition: string
-    lighting: string
-    color_palette: string
-    negative_prompt?: string
+export class PromptService {
+  private baseUrl: string
+
+  constructor(config: PromptServiceConfig = {}) {
+    this.baseUrl = config.baseUrl ?? ''
   }
-}
 
-export class PromptService {
-  async generatePrompt(config: PromptGenerationConfig): Promise<PromptResponse> {
+  // HTTP client for /api/generate-prompt, usable from the browser; server code can call promptGenerator directly.
+  // The access token lets the caller's own `custom:` styles resolve
+  async generatePrompt(config: PromptGenerationConfig, accessToken?: string): Promise<PromptResponse> {
     try {
       devLog('Generating prompt', {
         prefix: 'prompt-service',
@@ -49,14 +31,22 @@ export class PromptService {
         }
       })
 
-      const response = await fetch('/api/generate-prompt', {
+      const response = await fetch(`${this.baseUrl}/api/generate-prompt`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...(accessToken && { Authorization: `Bearer ${accessToken}` })
         },
         body: JSON.stringify({
           headline: config.headline,
-          artStyle: config.artStyle
+          artStyle: config.artStyle,
+          newsId: config.newsId,
+          language: config.language,
+          context: config.context,
+          provider: config.provider,
+          model: config.model,
+          templateVersion: config.templateVersion,
+          fresh: config.fresh
         })
       })
 
@@ -0,0 +1,78 @@
+import { z } from 'zod'
+import { devLog } from '@/lib/utils/log'
+import { getAdminSupabase } from '@/lib/supabase/client'
+import { InvalidSearchCursorError } from '@/lib/utils/errors'
+import type { ArtStyleDefinition } from '@/types/art'
+import type { NewsSearchHit, NewsSearchPage } from '@/types/news'
+
+const SearchCursorSchema = z.object({
+  rank: z.number().finite(),
+  id: z.string().uuid()
+})
+
+type SearchCursor = z.infer<typeof SearchCursorSchema>
+
+export interface NewsSearchOptions {
+  query: string
+  style?: ArtStyleDefinition
+  cursor?: string
+  limit?: number
+}
+
+// Opaque cursor: base64url of the last hit's rank and id
+export function encodeSearchCursor(hit: Pick<NewsSearchHit, 'rank' | 'id'>): string {
+  return Buffer.from(JSON.stringify({ rank: hit.rank, id: hit.id })).toString('base64url')
+}
+
+// Anything but a finite rank and a UUID id is rejected here, before it reaches the query
+export function decodeSearchCursor(cursor: string): SearchCursor {
+  try {
+    const parsed = SearchCursorSchema.safeParse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')))
+    if (parsed.success) {
+      return parsed.data
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidSearchCursorError()
+}
+
+export class NewsSearchService {
+  /**
+   * Full-text search over news_history via the search_news_history
+   * function. Fetches one extra row to know whether another page exists.
+   */
+  async search({ query, style, cursor, limit = 20 }: NewsSearchOptions): Promise<NewsSearchPage> {
+    const after = cursor ? decodeSearchCursor(cursor) : null
+
+    const { data, error } = await getAdminSupabase().rpc('search_news_history', {
+      search_query: query,
+      // Rows store either the style key or its display name
+      style_filter: style ? [style.key, style.name] : null,
+      cursor_rank: after?.rank ?? null,
+      cursor_id: after?.id ?? null,
+      page_size: limit + 1
+    })
+
+    if (error) {
+      devLog('News search failed', {
+        prefix: 'news-search',
+        level: 'error'
+      }, { error, data: { query, style: style?.key } })
+      throw error
+    }
+
+    const hits = (data ?? []) as unknown as NewsSearchHit[]
+    const results = hits.slice(0, limit)
+    const hasMore = hits.length > limit
+
+    return {
+      query,
+      results,
+      nextCursor: hasMore ? encodeSearchCursor(results[results.length - 1]) : null
+    }
+  }
+}
+
+// Create a singleton instance
+export const newsSearchService = new NewsSearchService()
@@ -0,0 +1,158 @@
+import { devLog } from '@/lib/utils/log'
+import { getAdminSupabase } from '@/lib/supabase/client'
+import { NEWS_SOURCES_TABLE } from '@/constants/tables'
+import { ALL_SOURCES } from '@/lib/config/news-sources'
+import { SUBSCRIPTION_TIERS, type SubscriptionTier } from '@/lib/constants/plans'
+import { TtlCache } from '@/lib/utils/cache'
+import { PremiumSourceError } from '@/lib/utils/errors'
+import type { NewsSource, NewsSourceFilter, NewsSourceRecord } from '@/types/news'
+
+const REGISTRY_CACHE_KEY = 'sources'
+
+export function toSourceRecord(source: NewsSource): NewsSourceRecord {
+  return {
+    id: source.id,
+    name: source.name,
+    url: source.url,
+    type: source.type,
+    feed_url: source.feedUrl ?? null,
+    category: source.category ?? null,
+    country: source.country ?? null,
+    language: source.language ?? null,
+    poll_interval_minutes: source.pollIntervalMinutes ?? null,
+    is_premium: !!source.isPremium,
+    is_active: source.isActive ?? true
+  }
+}
+
+export function fromSourceRecord(record: NewsSourceRecord): NewsSource {
+  return {
+    id: record.id,
+    name: record.name,
+    url: record.url,
+    type: record.type,
+    feedUrl: record.feed_url ?? undefined,
+    category: record.category ?? undefined,
+    country: record.country ?? undefined,
+    language: record.language ?? undefined,
+    pollIntervalMinutes: record.poll_interval_minutes ?? undefined,
+    isPremium: record.is_premium,
+    isActive: record.is_active
+  }
+}
+
+export function canAccessPremiumSources(tier: SubscriptionTier): boolean {
+  return SUBSCRIPTION_TIERS[tier].premiumSources
+}
+
+export class SourceRegistry {
+  // The registry rarely changes, no need to read it on every request
+  private cache = new TtlCache<NewsSource[]>(5 * 60 * 1000, 1)
+
+  /**
+   * Sources from news_sources, falling back to the static config when the
+   * table is empty or unreachable so fetching never depends on it.
+   */
+  async getSources(): Promise<NewsSource[]> {
+    const cached = this.cache.get(REGISTRY_CACHE_KEY)
+    if (cached) return cached
+
+    try {
+      const { data, error } = await getAdminSupabase()
+        .from(NEWS_SOURCES_TABLE)
+        .select('*')
+
+      if (error) throw error
+
+      const records = (data ?? []) as unknown as NewsSourceRecord[]
+      const sources = records.length ? records.map(fromSourceRecord) : ALL_SOURCES
+      this.cache.set(REGISTRY_CACHE_KEY, sources)
+      return sources
+    } catch (error) {
+      devLog('Source registry unavailable, using config sources', {
+        prefix: 'source-registry',
+        level: 'warn'
+      }, { error })
+      return ALL_SOURCES
+    }
+  }
+
+  async getActiveSources(): Promise<NewsSource[]> {
+    return (await this.getSources()).filter(source => source.isActive)
+  }
+
+  // Upserts every config source into news_sources
+  async seed(sources: NewsSource[] = ALL_SOURCES): Promise<number> {
+    const { data, error } = await getAdminSupabase()
+      .from(NEWS_SOURCES_TABLE)
+      .upsert(sources.map(source => ({
+        ...toSourceRecord(source),
+        updated_at: new Date().toISOString()
+      })), { onConflict: 'id' })
+      .select('id')
+
+    if (error) throw error
+
+    this.cache.clear()
+    return data?.length ?? 0
+  }
+
+  // Active subscription tier for an email, FREE for anonymous callers
+  async getTier(email?: string | null): Promise<SubscriptionTier> {
+    if (!email) return 'FREE'
+
+    const { data, error } = await getAdminSupabase()
+      .from('subscriptions')
+      .select('tier')
+      .eq('user_email', email)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (error) {
+      devLog('Subscription lookup failed, treating caller as FREE', {
+        prefix: 'source-registry',
+        level: 'warn'
+      }, { error, data: { email } })
+      return 'FREE'
+    }
+
+    const tier = data?.tier as SubscriptionTier | undefined
+    return tier && tier in SUBSCRIPTION_TIERS ? tier : 'FREE'
+  }
+
+  /**
+   * Restricts a filter to the sources a tier may read. Explicitly asking
+   * for a premium source on a free tier throws; without an explicit list,
+   * premium (for free tiers) and inactive sources are excluded.
+   */
+  async restrictFilter(
+    filter: NewsSourceFilter,
+    tier: SubscriptionTier
+  ): Promise<NewsSourceFilter> {
+    const sources = await this.getSources()
+    const premiumAllowed = canAccessPremiumSources(tier)
+
+    if (filter.sources?.length) {
+      const premiumRequested = filter.sources.filter(id =>
+        sources.some(source => source.id === id && source.isPremium)
+      )
+      if (!premiumAllowed && premiumRequested.length) {
+        throw new PremiumSourceError(premiumRequested)
+      }
+
+      return filter
+    }
+
+    const blocked = sources
+      .filter(source => !source.isActive || (source.isPremium && !premiumAllowed))
+      .map(source => source.id)
+
+    return {
+      ...filter,
+      excludeSources: Array.from(new Set([...(filter.excludeSources ?? []), ...blocked]))
+    }
+  }
+}
+
+// Create a singleton instance
+export const sourceRegistry = new SourceRegistry()
@@ -0,0 +1,250 @@
+import { devLog } from '@/lib/utils/log'
+import { getAdminSupabase } from '@/lib/supabase/client'
+import { NEWS_TABLE } from '@/constants/tables'
+import { STYLE_RECOMMENDATION_CONFIG, STYLE_RECOMMENDATION_RULES } from '@/lib/config/style-recommendations'
+import { extractEntities } from '@/lib/utils/article'
+import { scoreSentiment } from '@/lib/utils/sentiment'
+import { hashString } from '@/lib/utils/random'
+import { TtlCache } from '@/lib/utils/cache'
+import { artStyleCatalog } from './art-styles'
+import { headlineTranslator } from './translation'
+import type { StyleRecommendationRequest } from '@/lib/schemas/art-style'
+import type {
+  ArtStyleDefinition,
+  StyleRecommendation,
+  StyleRecommendationRule,
+  StyleRecommendationSignals
+} from '@/types/art'
+import type { NewsCategory } from '@/types/news'
+
+export interface StyleRecommendationResult {
+  recommendations: StyleRecommendation[]
+  signals: StyleRecommendationSignals
+}
+
+interface EngagementRow {
+  art_style: string | null
+  category: NewsCategory | null
+  engagement: { views?: number; shares?: number; saves?: number } | null
+}
+
+interface EngagementTotal {
+  samples: number
+  points: number
+}
+
+// Totals per style and category; '*' is every style, an empty category every category
+type EngagementTotals = Map<string, EngagementTotal>
+
+interface HeadlineFeatures {
+  category?: NewsCategory
+  words: string[]
+  // Lowercased English headline and summary, for entity names the extractor missed
+  text: string
+  entities: string[]
+}
+
+const ENGAGEMENT_CACHE_KEY = 'engagement'
+const INFLECTIONS = /^(s|es|ed|ing)$/
+
+function totalKey(style: string, category?: NewsCategory | null): string {
+  return `${style}\u0000${category ?? ''}`
+}
+
+function addTotal(totals: EngagementTotals, key: string, points: number) {
+  const total = totals.get(key) ?? { samples: 0, points: 0 }
+  total.samples++
+  total.points += points
+  totals.set(key, total)
+}
+
+// "market" also matches "markets", "plunge" matches "plunged"
+function hasKeyword(words: string[], keyword: string): boolean {
+  const wanted = keyword.toLowerCase()
+  return words.some(word => word === wanted || (word.startsWith(wanted) && INFLECTIONS.test(word.slice(wanted.length))))
+}
+
+function hasEntity(features: HeadlineFeatures, name: string): boolean {
+  const wanted = name.toLowerCase()
+  return features.entities.some(entity => entity.toLowerCase().includes(wanted)) ||
+    new RegExp(`(^|\\W)${wanted.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\W|$)`).test(features.text)
+}
+
+function matchesRule(
+  rule: StyleRecommendationRule,
+  features: HeadlineFeatures,
+  signals: StyleRecommendationSignals
+): boolean {
+  if (rule.categories?.length && (!features.category || !rule.categories.includes(features.category))) return false
+  if (rule.sentiments?.length && !rule.sentiments.includes(signals.sentiment)) return false
+  if (rule.keywords?.length && !rule.keywords.some(keyword => hasKeyword(features.words, keyword))) return false
+  if (rule.entities?.length && !rule.entities.some(name => hasEntity(features, name))) return false
+  return true
+}
+
+export class StyleRecommender {
+  private cache = new TtlCache<EngagementTotals>(STYLE_RECOMMENDATION_CONFIG.engagement.cacheTtlSeconds * 1000, 1)
+
+  /**
+   * Engagement points of recent visualizations, summed per style and
+   * category. Older rows that stored a display name count toward its key;
+   * blends and personal styles only count toward the averages.
+   */
+  private async loadEngagement(styles: ArtStyleDefinition[]): Promise<EngagementTotals> {
+    const cached = this.cache.get(ENGAGEMENT_CACHE_KEY)
+    if (cached) return cached
+
+    const { lookbackDays, maxRows, points } = STYLE_RECOMMENDATION_CONFIG.engagement
+    const totals: EngagementTotals = new Map()
+
+    try {
+      const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString()
+      const { data, error } = await getAdminSupabase()
+        .from(NEWS_TABLE)
+        .select('art_style, category, engagement')
+        .not('image_url', 'is', null)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(maxRows)
+
+      if (error) throw error
+
+      const keys = new Map<string, string>()
+      for (const style of styles) {
+        keys.set(style.key.toLowerCase(), style.key)
+        keys.set(style.name.toLowerCase(), style.key)
+      }
+
+      for (const row of (data ?? []) as unknown as EngagementRow[]) {
+        const engagement = row.engagement ?? {}
+        const score = (engagement.views ?? 0) * points.views +
+          (engagement.saves ?? 0) * points.saves +
+          (engagement.shares ?? 0) * points.shares
+
+        addTotal(totals, totalKey('*'), score)
+        addTotal(totals, totalKey('*', row.category), score)
+
+        const style = row.art_style && keys.get(row.art_style.toLowerCase())
+        if (!style) continue
+        addTotal(totals, totalKey(style), score)
+        addTotal(totals, totalKey(style, row.category), score)
+      }
+    } catch (error) {
+      // Rules alone still give a sensible ranking
+      devLog('Engagement history unavailable, recommending from rules only', {
+        prefix: 'style-recommender',
+        level: 'warn'
+      }, { error })
+    }
+
+    this.cache.set(ENGAGEMENT_CACHE_KEY, totals)
+    return totals
+  }
+
+  /**
+   * Points and a reason for how readers took to a style, on stories of
+   * this category when there are enough of them, otherwise overall.
+   */
+  private engagementBoost(
+    totals: EngagementTotals,
+    style: ArtStyleDefinition,
+    category?: NewsCategory
+  ): { points: number; reason?: string } {
+    const { minSamples, weight } = STYLE_RECOMMENDATION_CONFIG.engagement
+    if (!weight) return { points: 0 }
+
+    const scopes: Array<NewsCategory | undefined> = category ? [category, undefined] : [undefined]
+    for (const scope of scopes) {
+      const own = totals.get(totalKey(style.key, scope))
+      const all = totals.get(totalKey('*', scope))
+      if (!own || !all || own.samples < minSamples) continue
+
+      // +1 keeps a handful of unseen cards from dividing by zero
+      const lift = (own.points / own.samples + 1) / (all.points / all.samples + 1)
+      const points = weight * Math.max(-1, Math.min(1, Math.log2(lift)))
+
+      // Only a clear lead is worth telling readers about
+      const reason = lift >= 1.2
+        ? `Readers engaged ${lift.toFixed(1)}\u00d7 more than average with ${style.name}${scope ? ` on ${scope} stories` : ''}`
+        : undefined
+
+      return { points, reason }
+    }
+
+    return { points: 0 }
+  }
+
+  private async readHeadline(request: StyleRecommendationRequest): Promise<HeadlineFeatures> {
+    // Rule keywords are English, like the prompt templates
+    const { text: headline } = await headlineTranslator.toPromptLanguage(request.headline, request.language)
+    const text = [headline, request.summary].filter(Boolean).join(' ').toLowerCase()
+
+    return {
+      category: request.category,
+      words: text.match(/[a-z0-9&']+/g) ?? [],
+      text,
+      entities: request.entities ??
+        (request.summary ? extractEntities(request.summary).map(entity => entity.name) : [])
+    }
+  }
+
+  /**
+   * Active catalog styles ranked for a headline: rule table matches on
+   * category, sentiment, keywords and entities, plus how readers engaged
+   * with each style before. Styles that tie rotate from headline to headline.
+   */
+  async recommend(
+    request: StyleRecommendationRequest,
+    limit = request.limit ?? STYLE_RECOMMENDATION_CONFIG.defaultLimit
+  ): Promise<StyleRecommendationResult> {
+    const [styles, features] = await Promise.all([
+      artStyleCatalog.getActiveStyles(),
+      this.readHeadline(request)
+    ])
+    const totals = await this.loadEngagement(styles)
+
+    const { sentiment, score: sentimentScore } = scoreSentiment(features.text)
+    const signals: StyleRecommendationSignals = {
+      category: features.category,
+      sentiment,
+      sentimentScore,
+      entities: features.entities
+    }
+
+    const ranked = styles.map((style): StyleRecommendation => {
+      const matched = STYLE_RECOMMENDATION_RULES.filter(rule =>
+        rule.style.toLowerCase() === style.key.toLowerCase() && matchesRule(rule, features, signals)
+      )
+      const boost = this.engagementBoost(totals, style, features.category)
+      const reasons = [...matched.map(rule => rule.reason), ...(boost.reason ? [boost.reason] : [])]
+
+      return {
+        style: style.key,
+        name: style.name,
+        score: Math.round((matched.reduce((sum, rule) => sum + rule.weight, 0) + boost.points) * 100) / 100,
+        reasons: reasons.length ? reasons : [`${style.name} keeps the feed varied`]
+      }
+    })
+
+    const tiebreak = (entry: StyleRecommendation) => hashString(`${request.headline}\u0000${entry.style}`)
+    const recommendations = ranked
+      .sort((a, b) => b.score - a.score || tiebreak(a) - tiebreak(b))
+      .slice(0, Math.max(1, limit))
+
+    devLog('Art styles recommended', {
+      prefix: 'style-recommender',
+      level: 'debug'
+    }, { data: { headline: request.headline, signals, top: recommendations.map(entry => entry.style) } })
+
+    return { recommendations, signals }
+  }
+
+  // Best style key for a headline, for callers that just need one
+  async pick(request: StyleRecommendationRequest): Promise<string | undefined> {
+    const { recommendations } = await this.recommend(request, 1)
+    return recommendations[0]?.style
+  }
+}
+
+// Create a singleton instance
+export const styleRecommender = new StyleRecommender()
@@ -0,0 +1,79 @@
+import { devLog } from '@/lib/utils/log'
+import { TRANSLATION_CONFIG } from '@/lib/config/translation'
+import { getTranslationProviders } from '@/lib/providers/translation'
+import { detectLanguage, type LanguageGuess } from '@/lib/utils/language'
+import { TtlCache } from '@/lib/utils/cache'
+import type { NewsLanguage } from '@/types/news'
+import type { TranslationProvider, TranslationResult } from '@/types/translation'
+
+interface TranslateOptions {
+  to: NewsLanguage
+  // Declared language of the text, e.g. the article's; detection still overrides it for other scripts
+  hint?: NewsLanguage
+}
+
+export class HeadlineTranslator {
+  private providers: TranslationProvider[]
+  private cache: TtlCache<TranslationResult>
+
+  constructor(providers: TranslationProvider[] = getTranslationProviders()) {
+    this.providers = providers
+    this.cache = new TtlCache(TRANSLATION_CONFIG.cacheTtlSeconds * 1000, 1000)
+  }
+
+  // Detected language, or `fallback` when there is too little to go on
+  detect(text: string, fallback: NewsLanguage, hint?: NewsLanguage): LanguageGuess {
+    const guess = detectLanguage(text, hint)
+    return {
+      language: guess.confidence < TRANSLATION_CONFIG.minConfidence ? fallback : guess.language,
+      confidence: guess.confidence
+    }
+  }
+
+  async translate(text: string, { to, hint }: TranslateOptions): Promise<TranslationResult> {
+    // Unsure means assume it's already in the target language
+    const guess = this.detect(text, to, hint)
+    const from = guess.language
+
+    const untranslated: TranslationResult = { text, from, to, translated: false, provider: 'noop', confidence: guess.confidence }
+    if (from === to) return untranslated
+
+    const key = `${from}\u0000${to}\u0000${text}`
+    const cached = this.cache.get(key)
+    if (cached) return cached
+
+    for (const provider of this.providers) {
+      try {
+        const translated = (await provider.translate({ text, from, to })).trim()
+        if (!translated) continue
+
+        const result: TranslationResult = {
+          text: translated,
+          from,
+          to,
+          translated: provider.id !== 'noop' && translated !== text,
+          provider: provider.id,
+          confidence: guess.confidence
+        }
+        // A noop pass-through is only a fallback; the real translator gets another go next time
+        if (provider.id !== 'noop') this.cache.set(key, result)
+        return result
+      } catch (error) {
+        devLog(`Translator ${provider.id} failed, trying next`, {
+          prefix: 'translation',
+          level: 'warn'
+        }, { error, data: { from, to } })
+      }
+    }
+
+    return untranslated
+  }
+
+  // English form of a headline for the art prompt and moderation rules
+  toPromptLanguage(headline: string, hint?: NewsLanguage): Promise<TranslationResult> {
+    return this.translate(headline, { to: TRANSLATION_CONFIG.promptLanguage, hint })
+  }
+}
+
+// Create a singleton instance
+export const headlineTranslator = new HeadlineTranslator()
@@ -0,0 +1,171 @@
+import { getAdminSupabase } from '@/lib/supabase/client'
+import { USER_ART_STYLES_TABLE } from '@/constants/tables'
+import { SUBSCRIPTION_TIERS } from '@/lib/constants/plans'
+import { TtlCache } from '@/lib/utils/cache'
+import { ArtStyleCatalogError } from '@/lib/utils/errors'
+import { sourceRegistry } from './sources'
+import type { CustomArtStyleInput, CustomArtStyleUpdate } from '@/lib/schemas/art-style'
+import type { ArtStyleDefinition, UserArtStyleRecord } from '@/types/art'
+
+const CUSTOM_STYLE_PREFIX = 'custom:'
+
+// Personal styles are referenced as `custom:<id>`, which catalog keys can never be
+export function isCustomStyleKey(style?: string | null): boolean {
+  return !!style?.startsWith(CUSTOM_STYLE_PREFIX)
+}
+
+export function fromUserArtStyleRecord(record: UserArtStyleRecord): ArtStyleDefinition {
+  return {
+    key: `${CUSTOM_STYLE_PREFIX}${record.id}`,
+    name: record.name,
+    description: record.description,
+    keywords: record.keywords ?? [],
+    colorPalette: record.color_palette,
+    negativePrompt: record.negative_prompt ?? undefined,
+    composition: record.composition ?? undefined,
+    lighting: record.lighting ?? undefined,
+    isActive: true,
+    custom: true
+  }
+}
+
+function toRecordUpdate(update: CustomArtStyleUpdate): Partial<UserArtStyleRecord> {
+  const columns: Array<[keyof CustomArtStyleUpdate, keyof UserArtStyleRecord]> = [
+    ['name', 'name'],
+    ['description', 'description'],
+    ['keywords', 'keywords'],
+    ['colorPalette', 'color_palette'],
+    ['negativePrompt', 'negative_prompt'],
+    ['composition', 'composition'],
+    ['lighting', 'lighting']
+  ]
+
+  return Object.fromEntries(
+    columns
+      .filter(([field]) => update[field] !== undefined)
+      .map(([field, column]) => [column, update[field]])
+  )
+}
+
+export class UserArtStyleService {
+  // Resolved styles and their owners by key; a style is looked up on both the prompt and the image request
+  private cache = new TtlCache<{ owner: string; style: ArtStyleDefinition } | null>(60 * 1000, 500)
+
+  private async customStyleLimit(email: string): Promise<number> {
+    return SUBSCRIPTION_TIERS[await sourceRegistry.getTier(email)].customStyles
+  }
+
+  async list(email: string): Promise<ArtStyleDefinition[]> {
+    if (!(await this.customStyleLimit(email))) return []
+
+    const { data, error } = await getAdminSupabase()
+      .from(USER_ART_STYLES_TABLE)
+      .select('*')
+      .eq('user_email', email)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return ((data ?? []) as unknown as UserArtStyleRecord[]).map(fromUserArtStyleRecord)
+  }
+
+  /**
+   * Personal style for a `custom:<id>` key, only for the style's owner.
+   * Anyone else's styles, and styles whose owner has dropped to a tier
+   * without custom styles, resolve to null like unknown ones.
+   */
+  async getStyle(key: string, owner?: string | null): Promise<ArtStyleDefinition | null> {
+    const cached = this.cache.get(key)
+    if (cached !== undefined) return cached && cached.owner === owner ? cached.style : null
+
+    const id = key.slice(CUSTOM_STYLE_PREFIX.length)
+    const { data, error } = await getAdminSupabase()
+      .from(USER_ART_STYLES_TABLE)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    // A malformed id is just an unknown style
+    if (error && error.code !== '22P02') throw error
+
+    const record = data as unknown as UserArtStyleRecord | null
+    const entry = record && await this.customStyleLimit(record.user_email)
+      ? { owner: record.user_email, style: fromUserArtStyleRecord(record) }
+      : null
+
+    this.cache.set(key, entry)
+    return entry && entry.owner === owner ? entry.style : null
+  }
+
+  async create(email: string, input: CustomArtStyleInput): Promise<ArtStyleDefinition> {
+    const limit = await this.customStyleLimit(email)
+    if (!limit) {
+      throw new ArtStyleCatalogError(input.name, 'Custom art styles require a Pro or Unlimited plan', 403)
+    }
+
+    // Counted and inserted in one locked statement, so parallel creates can't pass the cap
+    const { data, error } = await getAdminSupabase()
+      .rpc('create_user_art_style', {
+        p_email: email,
+        p_limit: limit,
+        p_name: input.name,
+        p_description: input.description,
+        p_keywords: input.keywords,
+        p_color_palette: input.colorPalette,
+        p_negative_prompt: input.negativePrompt ?? null,
+        p_composition: input.composition ?? null,
+        p_lighting: input.lighting ?? null
+      })
+      .maybeSingle()
+
+    if (error?.code === '23505') {
+      throw new ArtStyleCatalogError(input.name, `You already have a style called ${input.name}`)
+    }
+    if (error) throw error
+    if (!data) {
+      throw new ArtStyleCatalogError(input.name, `Your plan allows ${limit} custom art styles`, 403)
+    }
+
+    return fromUserArtStyleRecord(data as unknown as UserArtStyleRecord)
+  }
+
+  async update(email: string, id: string, update: CustomArtStyleUpdate): Promise<ArtStyleDefinition> {
+    const { data, error } = await getAdminSupabase()
+      .from(USER_ART_STYLES_TABLE)
+      .update({ ...toRecordUpdate(update), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_email', email)
+      .select()
+      .maybeSingle()
+
+    if (error?.code === '23505') {
+      throw new ArtStyleCatalogError(id, `You already have a style called ${update.name}`)
+    }
+    if (error && error.code !== '22P02') throw error
+    if (!data) throw new ArtStyleCatalogError(id, 'Custom art style not found', 404)
+
+    const style = fromUserArtStyleRecord(data as unknown as UserArtStyleRecord)
+    this.cache.delete(style.key)
+    return style
+  }
+
+  // Visualizations keep their prompt and image; only the style itself goes away
+  async remove(email: string, id: string): Promise<ArtStyleDefinition> {
+    const { data, error } = await getAdminSupabase()
+      .from(USER_ART_STYLES_TABLE)
+      .delete()
+      .eq('id', id)
+      .eq('user_email', email)
+      .select()
+      .maybeSingle()
+
+    if (error && error.code !== '22P02') throw error
+    if (!data) throw new ArtStyleCatalogError(id, 'Custom art style not found', 404)
+
+    const style = fromUserArtStyleRecord(data as unknown as UserArtStyleRecord)
+    this.cache.delete(style.key)
+    return style
+  }
+}
+
+// Create a singleton instance
+export const userArtStyleService = new UserArtStyleService()
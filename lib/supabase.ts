@@ -1,6 +1,7 @@
 import { createClient } from '@supabase/supabase-js'
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
 import { NEWS_TABLE } from '@/constants/tables'
+import type { NewsCoverageLink } from '@/types/news'
 // Define types at the top
 export interface NewsData {
   id: string
@@ -89,6 +90,8 @@ export const newsQueries = {
     source: string
     url: string
     image_url?: string
+    story_id?: string
+    coverage?: NewsCoverageLink[]
     user_email: string
   }) {
     const supabase = getSupabaseClient()
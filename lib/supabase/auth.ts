@@ -0,0 +1,24 @@
+import { devLog } from '../utils/log'
+import { getAdminSupabase } from './client'
+
+/**
+ * The caller's email, taken from the Supabase access token in an
+ * `Authorization: Bearer` header and verified with Supabase Auth. Null for
+ * anonymous callers and for tokens Supabase rejects, so plan limits and
+ * custom styles never trust an email the client simply claims.
+ */
+export async function getRequestEmail(request: Request): Promise<string | null> {
+  const [scheme, token] = (request.headers.get('authorization') ?? '').split(' ')
+  if (scheme?.toLowerCase() !== 'bearer' || !token) return null
+
+  const { data, error } = await getAdminSupabase().auth.getUser(token)
+  if (error || !data.user?.email) {
+    devLog('Rejected access token', {
+      prefix: 'supabase-auth',
+      level: 'warn'
+    }, { error })
+    return null
+  }
+
+  return data.user.email
+}
@@ -35,6 +35,18 @@ export function getClientSupabase() {
   return clientInstance
 }
 
+// The signed-in user's access token, which API routes verify for plan limits and own styles
+export async function getAccessToken(): Promise<string | null> {
+  const { data } = await getClientSupabase().auth.getSession()
+  return data.session?.access_token ?? null
+}
+
+// Bearer header carrying that token, empty for anonymous readers
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const token = await getAccessToken()
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
 // Admin Supabase client (for server-side operations)
 export function getAdminSupabase() {
   if (!adminInstance) {
@@ -0,0 +1,30 @@
+import { getAdminSupabase } from '@/lib/supabase/client'
+
+// Server-side usage_metrics access; the browser's rateLimitQueries can't be trusted to charge itself
+
+function today(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+// Visualizations the caller has used today
+export async function getDailyUsage(email: string): Promise<number> {
+  const { data, error } = await getAdminSupabase()
+    .from('usage_metrics')
+    .select('visualizations_count')
+    .eq('user_email', email)
+    .eq('date', today())
+    .maybeSingle()
+
+  if (error) throw error
+  return (data?.visualizations_count as number | undefined) ?? 0
+}
+
+// Adds `amount` visualizations to today's count; charge_usage rejects anything but a positive amount
+export async function chargeUsage(email: string, amount: number): Promise<void> {
+  const { error } = await getAdminSupabase().rpc('charge_usage', {
+    p_email: email,
+    p_amount: amount
+  })
+
+  if (error) throw error
+}
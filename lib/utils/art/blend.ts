@@ -0,0 +1,57 @@
+import { ArtStyle, isArtStyleKey, type ArtStyleBlend, type ArtStyleBlendPart } from '@/types/art'
+
+const BLEND_PREFIX = 'blend:'
+const MIN_WEIGHT = 10
+
+export function isBlendSpec(style?: string | null): boolean {
+  return !!style?.startsWith(BLEND_PREFIX)
+}
+
+// Heavier style first, so `blend:Dali@30+Monet@70` and `blend:Monet@70+Dali@30` are the same blend
+export function formatBlendSpec(blend: ArtStyleBlend): string {
+  const parts = [...blend.parts].sort((a, b) => b.weight - a.weight)
+  return BLEND_PREFIX + parts.map(part => `${part.style}@${part.weight}`).join('+')
+}
+
+/**
+ * Blend for a `blend:<style>@<weight>+<style>@<weight>` spec, or null when
+ * it isn't one. Two distinct styles, whole-number weights of at least 10
+ * that add up to 100. Custom style keys contain a colon, never `@` or `+`.
+ */
+export function parseBlendSpec(spec?: string | null): ArtStyleBlend | null {
+  if (!spec || !isBlendSpec(spec)) return null
+
+  const parts = spec.slice(BLEND_PREFIX.length).split('+').map((part): ArtStyleBlendPart | null => {
+    const at = part.lastIndexOf('@')
+    const style = part.slice(0, at).trim()
+    const weight = Number(part.slice(at + 1))
+    return at > 0 && style && Number.isInteger(weight) ? { style, weight } : null
+  })
+
+  if (parts.length !== 2 || !parts[0] || !parts[1]) return null
+
+  const [first, second] = parts
+  if (first.style.toLowerCase() === second.style.toLowerCase()) return null
+  if (first.weight + second.weight !== 100 || Math.min(first.weight, second.weight) < MIN_WEIGHT) return null
+  if (isBlendSpec(first.style) || isBlendSpec(second.style)) return null
+
+  return { parts: [first, second] }
+}
+
+// Built-in painters by surname ("Vincent Van Gogh" -> "Van Gogh"), other catalog styles by key
+function shortStyleName(style: string): string {
+  if (isArtStyleKey(style)) {
+    const words = ArtStyle[style].split(' ')
+    return words.length > 1 ? words.slice(1).join(' ') : words[0]
+  }
+  return style.startsWith('custom:') ? 'Custom style' : style
+}
+
+// Label for history cards: "Monet \u00d7 Dali" for blends, the display name for built-ins
+export function formatArtStyleLabel(style?: string | null): string {
+  const blend = parseBlendSpec(style)
+  if (blend) return blend.parts.map(part => shortStyleName(part.style)).join(' \u00d7 ')
+
+  if (!style) return ArtStyle.VanGogh
+  return isArtStyleKey(style) ? ArtStyle[style] : shortStyleName(style)
+}
@@ -9,4 +9,10 @@ export {
   debugArtStyle,
   getArtStyleValue,
   isValidArtStyle
-} from './artStyles'
\ No newline at end of file
+} from './artStyles'
+export {
+  formatArtStyleLabel,
+  formatBlendSpec,
+  isBlendSpec,
+  parseBlendSpec
+} from './blend'
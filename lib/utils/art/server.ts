@@ -1,5 +1,6 @@
-import { ArtStyle } from '@/types/art'
+import { ArtStyle, type ArtStyleDefinition } from '@/types/art'
 import type { ArtStyleKey } from '@/types/news'
+import { artStyleCatalog } from '@/lib/services/art-styles'
 
 // Type guard to check if a string is a valid enum key
 export function isArtStyleKey(value: any): value is ArtStyleKey {
@@ -31,15 +32,12 @@ export function ensureArtStyle(style: ArtStyleKey | undefined): ArtStyleKey {
   return style
 }
 
-// Validate art style string
-export function isValidArtStyle(style: string): boolean {
-  return isArtStyleKey(style) || isArtStyleValue(style)
+// Validate an art style key or display name against the active catalog
+export async function isValidArtStyle(style: string): Promise<boolean> {
+  return !!(await artStyleCatalog.getStyle(style))
 }
 
-// Normalize art style to key format
-export function normalizeArtStyle(style: string): ArtStyleKey {
-  if (isArtStyleKey(style)) {
-    return style
-  }
-  return getArtStyleKey(style)
+// Catalog entry for a key or display name, null for unknown or inactive styles and other people's own styles
+export function normalizeArtStyle(style: string, owner?: string | null): Promise<ArtStyleDefinition | null> {
+  return artStyleCatalog.getStyle(style, false, owner)
 } 
\ No newline at end of file
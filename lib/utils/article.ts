@@ -0,0 +1,200 @@
+import { decodeEntities, readAttributes } from '@/lib/utils/feed'
+import { STOPWORDS, stem } from '@/lib/utils/stories'
+import type { ArticleEntity, ExtractedArticle } from '@/types/news'
+
+// Elements that never hold article copy
+const NOISE_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'form', 'button', 'select', 'nav', 'header', 'footer', 'aside', 'figure']
+
+// Paragraphs that look like site furniture rather than reporting
+const BOILERPLATE = /(cookie|subscribe|newsletter|sign up|all rights reserved|advertisement|follow us|share this|read more|click here|terms of use|privacy policy)/i
+
+// Function words ignored when scoring sentences
+const SUMMARY_STOPWORDS = new Set([
+  ...Array.from(STOPWORDS),
+  'he', 'she', 'they', 'we', 'i', 'you', 'his', 'her', 'their', 'our', 'not', 'no', 'had', 'would',
+  'could', 'also', 'which', 'who', 'what', 'when', 'where', 'there', 'these', 'those', 'more', 'most',
+  'some', 'all', 'can', 'do', 'does', 'did', 'if', 'so', 'than', 'then', 'just', 'one', 'two'
+])
+
+const ENTITY_STOPWORDS = new Set([
+  'The', 'A', 'An', 'In', 'On', 'At', 'For', 'But', 'And', 'Or', 'It', 'Its', 'This', 'That', 'These',
+  'Those', 'He', 'She', 'They', 'We', 'I', 'You', 'His', 'Her', 'Their', 'Our', 'After', 'Before',
+  'When', 'While', 'If', 'As', 'By', 'With', 'From', 'Of', 'To', 'Mr', 'Mrs', 'Ms', 'Dr', 'However',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'
+])
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function removeElements(html: string, tags: string[]): string {
+  return tags.reduce(
+    (result, tag) => result.replace(new RegExp(`<${tag}(?:\\s[^>]*)?>[\\s\\S]*?</${tag}>`, 'gi'), ' '),
+    html.replace(/<!--[\s\S]*?-->/g, ' ')
+  )
+}
+
+function readMeta(html: string): Record<string, string> {
+  const meta: Record<string, string> = {}
+  for (const tag of html.match(/<meta\s[^>]*>/gi) ?? []) {
+    const attributes = readAttributes(tag)
+    const key = (attributes.property ?? attributes.name ?? attributes.itemprop)?.toLowerCase()
+    if (key && attributes.content && !(key in meta)) meta[key] = attributes.content.trim()
+  }
+  return meta
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+// Share of a block's text that sits inside links; nav lists and related-story rails score high
+function linkDensity(blockHtml: string, text: string): number {
+  if (!text.length) return 1
+  const linkText = (blockHtml.match(/<a\s[^>]*>[\s\S]*?<\/a>/gi) ?? [])
+    .map(stripTags)
+    .join('')
+  return linkText.length / text.length
+}
+
+/**
+ * Picks the region most likely to hold the story: an explicit
+ * articleBody, else the <article> or <main> with the most paragraph text,
+ * else the whole body.
+ */
+function findContentRoot(html: string): string {
+  const articleBody = html.match(/<(\w+)[^>]*itemprop=["']articleBody["'][^>]*>([\s\S]*)<\/\1>/i)
+  if (articleBody) return articleBody[2]
+
+  const candidates = [
+    ...(html.match(/<article(?:\s[^>]*)?>[\s\S]*?<\/article>/gi) ?? []),
+    ...(html.match(/<main(?:\s[^>]*)?>[\s\S]*?<\/main>/gi) ?? [])
+  ]
+
+  const paragraphText = (region: string) =>
+    (region.match(/<p(?:\s[^>]*)?>[\s\S]*?<\/p>/gi) ?? []).map(stripTags).join(' ').length
+
+  const best = candidates.sort((a, b) => paragraphText(b) - paragraphText(a))[0]
+  if (best && paragraphText(best) > 0) return best
+
+  return html.match(/<body(?:\s[^>]*)?>([\s\S]*)<\/body>/i)?.[1] ?? html
+}
+
+/**
+ * Readability-style extraction without a DOM: drops chrome, finds the
+ * content root and keeps paragraphs with enough prose and few links.
+ */
+export function extractArticle(html: string): ExtractedArticle {
+  const meta = readMeta(html)
+  const cleaned = removeElements(html, NOISE_TAGS)
+  const root = findContentRoot(cleaned)
+
+  const paragraphs = (root.match(/<(p|blockquote|h2|h3)(?:\s[^>]*)?>[\s\S]*?<\/\1>/gi) ?? [])
+    .map(block => ({ block, text: stripTags(block) }))
+    .filter(({ block, text }) =>
+      text.length >= 40 &&
+      !BOILERPLATE.test(text) &&
+      linkDensity(block, text) < 0.5
+    )
+    .map(({ text }) => text)
+
+  const text = paragraphs.join('\n\n')
+  const title = meta['og:title'] ?? stripTags(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? '')
+
+  return {
+    title: title || undefined,
+    byline: meta.author ?? meta['article:author'] ?? undefined,
+    siteName: meta['og:site_name'],
+    publishedAt: toIsoDate(meta['article:published_time'] ?? meta.datepublished),
+    description: meta['og:description'] ?? meta.description,
+    paragraphs,
+    text,
+    wordCount: text ? text.split(/\s+/).length : 0
+  }
+}
+
+export function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, ' ')
+    // Keep common abbreviations from ending a sentence
+    .replace(/\b(Mr|Mrs|Ms|Dr|St|Jr|Sr|Gov|Sen|Rep|U\.S|U\.K|No)\./g, '$1\u0000')
+    .split(/(?<=[.!?]["'\u201d]?)\s+(?=["'\u201c]?[A-Z0-9])/)
+    .map(sentence => sentence.replace(/\u0000/g, '.').trim())
+    .filter(sentence => sentence.length > 0)
+}
+
+function contentTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 2 && !SUMMARY_STOPWORDS.has(token))
+    .map(stem)
+}
+
+/**
+ * Extractive summary: scores sentences by term frequency, favours the
+ * lede and overlap with the headline, and returns the best few in their
+ * original order.
+ */
+export function summarizeText(text: string, headline = '', maxSentences = 3): string {
+  const sentences = splitSentences(text).filter(sentence => sentence.split(' ').length >= 6)
+  if (sentences.length <= maxSentences) return sentences.join(' ')
+
+  const frequencies = new Map<string, number>()
+  for (const token of contentTokens(text)) {
+    frequencies.set(token, (frequencies.get(token) ?? 0) + 1)
+  }
+  const headlineTerms = new Set(contentTokens(headline))
+
+  const scored = sentences.map((sentence, index) => {
+    const tokens = contentTokens(sentence)
+    if (!tokens.length) return { index, sentence, score: 0 }
+
+    const frequencyScore = tokens.reduce((sum, token) => sum + (frequencies.get(token) ?? 0), 0) / tokens.length
+    const headlineScore = tokens.filter(token => headlineTerms.has(token)).length
+    const positionScore = index === 0 ? 2 : index < 3 ? 1 : 0
+
+    return { index, sentence, score: frequencyScore + headlineScore + positionScore }
+  })
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxSentences)
+    .sort((a, b) => a.index - b.index)
+    .map(({ sentence }) => sentence)
+    .join(' ')
+}
+
+/**
+ * Named-entity guess: runs of capitalised words (allowing "of"/"de" joins)
+ * that don't merely start a sentence, ranked by mentions.
+ */
+export function extractEntities(text: string, limit = 8): ArticleEntity[] {
+  const counts = new Map<string, number>()
+
+  for (const sentence of splitSentences(text)) {
+    const matches = sentence.matchAll(/\b[A-Z][\w'\u2019-]*(?:\s+(?:of|de|la|van|von|al|the)?\s*[A-Z][\w'\u2019-]*)*/g)
+
+    for (const match of matches) {
+      const words = match[0].replace(/['\u2019]s$/, '').split(/\s+/)
+      while (words.length && ENTITY_STOPWORDS.has(words[0])) words.shift()
+      const name = words.join(' ')
+
+      // A lone capitalised word opening a sentence is usually just grammar
+      if (!name || name.length < 3) continue
+      if (match.index === 0 && words.length === 1 && SUMMARY_STOPWORDS.has(name.toLowerCase())) continue
+
+      counts.set(name, (counts.get(name) ?? 0) + 1)
+    }
+  }
+
+  return Array.from(counts, ([name, mentions]) => ({ name, mentions }))
+    // Single words need a repeat mention to count; phrases count once
+    .filter(entity => entity.name.includes(' ') || entity.mentions > 1)
+    .sort((a, b) => b.mentions - a.mentions || b.name.length - a.name.length)
+    .slice(0, limit)
+}
@@ -0,0 +1,44 @@
+interface CacheEntry<T> {
+  value: T
+  expiresAt: number
+}
+
+/**
+ * Small in-memory cache with per-entry expiry. Lives for the lifetime of
+ * the server instance, so treat it as a best-effort layer only.
+ */
+export class TtlCache<T> {
+  private entries: Map<string, CacheEntry<T>> = new Map()
+
+  constructor(private ttlMs: number, private maxEntries = 100) {}
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return undefined
+    }
+
+    return entry.value
+  }
+
+  set(key: string, value: T): void {
+    // Oldest insertion goes first once we hit the cap
+    if (!this.entries.has(key) && this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest !== undefined) this.entries.delete(oldest)
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs })
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key)
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+}
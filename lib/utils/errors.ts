@@ -1,16 +1,64 @@
+export interface RetryOptions {
+  maxAttempts?: number
+  // Doubled after each failed attempt
+  initialDelayMs?: number
+  // Cap for both backoff and retry-after waits
+  maxDelayMs?: number
+  shouldRetry?: (error: unknown) => boolean
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+}
+
+type ErrorWithResponse = {
+  status?: number
+  headers?: Record<string, string | null | undefined> | { get(name: string): string | null }
+}
+
+// Delay the upstream asked for via retry-after (seconds or an HTTP date), if any
+export function getRetryAfterMs(error: unknown): number | null {
+  const headers = (error as ErrorWithResponse | null)?.headers
+  if (!headers) return null
+
+  const value = typeof headers.get === 'function'
+    ? (headers as { get(name: string): string | null }).get('retry-after')
+    : (headers as Record<string, string | null | undefined>)['retry-after']
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+// Rate limits, server errors and anything carrying retry-after are worth another try
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as ErrorWithResponse | null)?.status
+  return status === 408 || status === 429 || (!!status && status >= 500) || getRetryAfterMs(error) !== null
+}
+
 export const retryWithBackoff = async <T>(
   operation: () => Promise<T>,
-  maxAttempts = 3
+  {
+    maxAttempts = 3,
+    initialDelayMs = 2000,
+    maxDelayMs = 30000,
+    shouldRetry = () => true,
+    onRetry
+  }: RetryOptions = {}
 ): Promise<T> => {
-  let lastError: Error | undefined
+  let lastError: unknown
   
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     try {
       return await operation()
     } catch (error) {
-      lastError = error as Error
-      if (attempt === maxAttempts) throw error
-      await new Promise(r => setTimeout(r, Math.pow(2, attempt) * 1000))
+      lastError = error
+      if (attempt === maxAttempts || !shouldRetry(error)) throw error
+
+      const backoff = initialDelayMs * Math.pow(2, attempt - 1)
+      const delayMs = Math.min(getRetryAfterMs(error) ?? backoff, maxDelayMs)
+      onRetry?.(error, attempt, delayMs)
+      await new Promise(r => setTimeout(r, delayMs))
     }
   }
   
@@ -31,6 +79,42 @@ export class RateLimitError extends Error {
   }
 }
 
+export class NewsProviderError extends Error {
+  constructor(
+    message: string,
+    public failures: Array<{ provider: string; message: string }> = []
+  ) {
+    super(message)
+    this.name = 'NewsProviderError'
+  }
+}
+
+// An upstream response that doesn't match its schema at all
+export class NewsPayloadError extends Error {
+  constructor(
+    public provider: string,
+    message: string,
+    public issues: string = ''
+  ) {
+    super(issues ? `${message}: ${issues}` : message)
+    this.name = 'NewsPayloadError'
+  }
+}
+
+export class PremiumSourceError extends Error {
+  constructor(public sourceIds: string[]) {
+    super(`Premium sources require a paid plan: ${sourceIds.join(', ')}`)
+    this.name = 'PremiumSourceError'
+  }
+}
+
+export class InvalidSearchCursorError extends Error {
+  constructor() {
+    super('Invalid search cursor')
+    this.name = 'InvalidSearchCursorError'
+  }
+}
+
 export const handleApiError = async <T>(
   operation: () => Promise<T>,
   maxRetries = 3
@@ -45,4 +129,76 @@ export const handleApiError = async <T>(
     }
   }
   throw new Error('Max retries exceeded')
-} 
\ No newline at end of file
+} 
+// A failed call to a prompt model; status and headers drive retries
+export class PromptModelError extends Error {
+  constructor(
+    public provider: string,
+    message: string,
+    public status?: number,
+    public headers: Record<string, string> = {}
+  ) {
+    super(message)
+    this.name = 'PromptModelError'
+  }
+}
+
+export class PromptTemplateError extends Error {
+  constructor(public version: string, message: string) {
+    super(`Prompt template ${version}: ${message}`)
+    this.name = 'PromptTemplateError'
+  }
+}
+
+// Moderation refused to send a prompt to the image model; retrying won't help
+export class PromptBlockedError extends Error {
+  constructor(public matches: string[] = []) {
+    super(matches.length ? `Prompt blocked by editorial guardrails: ${matches.join(', ')}` : 'Prompt blocked by editorial guardrails')
+    this.name = 'PromptBlockedError'
+  }
+}
+
+// A prompt request the server can't serve as asked, e.g. an unknown template version
+export class PromptRequestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PromptRequestError'
+  }
+}
+
+// Change to the art style catalog or a personal style that can't be applied as asked
+export class ArtStyleCatalogError extends Error {
+  constructor(public key: string, message: string, public status: 403 | 404 | 409 = 409) {
+    super(message)
+    this.name = 'ArtStyleCatalogError'
+  }
+}
+
+// A failed call to an image model; status and headers drive retries like PromptModelError
+export class ImageProviderError extends Error {
+  constructor(
+    public provider: string,
+    message: string,
+    public status?: number,
+    public headers: Record<string, string> = {}
+  ) {
+    super(message)
+    this.name = 'ImageProviderError'
+  }
+}
+
+// Image parameters outside what the schema or the caller's plan allows
+export class ImageParamsError extends Error {
+  constructor(message: string, public status: 400 | 403 = 400) {
+    super(message)
+    this.name = 'ImageParamsError'
+  }
+}
+
+// An uploaded image the optimizer won't decode: unreadable, or over the size or pixel bounds
+export class ImageUploadError extends Error {
+  constructor(message: string, public status: 400 | 413 = 400) {
+    super(message)
+    this.name = 'ImageUploadError'
+  }
+}
@@ -0,0 +1,172 @@
+import type { FeedItem, ParsedFeed } from '@/types/news'
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  lsquo: '\u2018',
+  rsquo: '\u2019',
+  ldquo: '\u201c',
+  rdquo: '\u201d',
+  ndash: '\u2013',
+  mdash: '\u2014',
+  hellip: '\u2026',
+  middot: '\u00b7',
+  copy: '\u00a9'
+}
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return isNaN(code) ? match : String.fromCodePoint(code)
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+// Unwraps CDATA, strips markup and decodes entities (twice for escaped HTML content)
+function cleanText(raw: string | undefined): string | undefined {
+  if (raw === undefined) return undefined
+  const text = decodeEntities(
+    raw
+      .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/<[^>]+>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return text || undefined
+}
+
+function escapeTag(tag: string): string {
+  return tag.replace(':', '\\:')
+}
+
+function readElement(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${escapeTag(tag)}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapeTag(tag)}>`, 'i'))
+  return match?.[1]
+}
+
+function readText(xml: string, tag: string): string | undefined {
+  return cleanText(readElement(xml, tag))
+}
+
+export function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[3] ?? match[4] ?? '')
+  }
+  return attributes
+}
+
+function findTags(xml: string, tag: string): Record<string, string>[] {
+  const matches = xml.match(new RegExp(`<${escapeTag(tag)}(?:\\s[^>]*)?/?>`, 'gi')) ?? []
+  return matches.map(readAttributes)
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+function isImage(attributes: Record<string, string>): boolean {
+  return attributes.type?.startsWith('image/') ||
+    attributes.medium === 'image' ||
+    /\.(jpe?g|png|gif|webp|avif)(\?|$)/i.test(attributes.url ?? attributes.href ?? '')
+}
+
+// Strips the channel/feed header so its <title> and <link> are not mistaken for an item's
+function splitEntries(xml: string, tag: 'item' | 'entry'): { header: string; entries: string[] } {
+  const entries = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>[\\s\\S]*?</${tag}>`, 'gi')) ?? []
+  const firstEntry = xml.search(new RegExp(`<${tag}(?:\\s[^>]*)?>`, 'i'))
+  return {
+    header: firstEntry === -1 ? xml : xml.slice(0, firstEntry),
+    entries
+  }
+}
+
+function parseRssItem(item: string, sourceName: string, sourceUrl: string): FeedItem | null {
+  const headline = readText(item, 'title')
+  const guid = readText(item, 'guid')
+  const url = readText(item, 'link') ?? (guid?.startsWith('http') ? guid : undefined)
+  if (!headline || !url) return null
+
+  const image = [
+    ...findTags(item, 'enclosure'),
+    ...findTags(item, 'media:content'),
+    ...findTags(item, 'media:thumbnail')
+  ].find(isImage)
+
+  return {
+    headline,
+    url,
+    source_name: sourceName,
+    source_url: sourceUrl,
+    published_at: toIsoDate(readText(item, 'pubDate') ?? readText(item, 'dc:date')),
+    author: readText(item, 'dc:creator') ?? readText(item, 'author'),
+    description: readText(item, 'description'),
+    image_url: image?.url,
+    guid: guid ?? url
+  }
+}
+
+function parseAtomEntry(entry: string, sourceName: string, sourceUrl: string): FeedItem | null {
+  const headline = readText(entry, 'title')
+  const links = findTags(entry, 'link')
+  const url = (links.find(link => !link.rel || link.rel === 'alternate') ?? links[0])?.href
+  if (!headline || !url) return null
+
+  const image = [
+    ...links.filter(link => link.rel === 'enclosure').map(link => ({ ...link, url: link.href })),
+    ...findTags(entry, 'media:content'),
+    ...findTags(entry, 'media:thumbnail')
+  ].find(isImage)
+
+  const author = readElement(entry, 'author')
+
+  return {
+    headline,
+    url,
+    source_name: sourceName,
+    source_url: sourceUrl,
+    published_at: toIsoDate(readText(entry, 'published') ?? readText(entry, 'updated')),
+    author: author ? readText(author, 'name') ?? cleanText(author) : undefined,
+    description: readText(entry, 'summary') ?? readText(entry, 'content'),
+    image_url: image?.url,
+    guid: readText(entry, 'id') ?? url
+  }
+}
+
+/**
+ * Parses an RSS 2.0 or Atom document into NewsItem-compatible records.
+ * Items without a title or link are dropped.
+ */
+export function parseFeed(xml: string, feedUrl: string): ParsedFeed {
+  const isAtom = /<feed[\s>]/i.test(xml) && !/<rss[\s>]/i.test(xml)
+  const { header, entries } = splitEntries(xml, isAtom ? 'entry' : 'item')
+
+  const title = readText(header, 'title') ?? new URL(feedUrl).hostname
+  const link = isAtom
+    ? (findTags(header, 'link').find(l => !l.rel || l.rel === 'alternate')?.href ?? feedUrl)
+    : (readText(header, 'link') ?? feedUrl)
+
+  const items = entries
+    .map(entry => isAtom
+      ? parseAtomEntry(entry, title, link)
+      : parseRssItem(entry, title, link))
+    .filter((item): item is FeedItem => !!item)
+
+  return {
+    format: isAtom ? 'atom' : 'rss',
+    title,
+    link,
+    items
+  }
+}
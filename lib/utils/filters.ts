@@ -0,0 +1,61 @@
+import type { NewsSourceFilter } from '@/types/news'
+
+type NewsFilterFields = Pick<
+  NewsSourceFilter,
+  'categories' | 'countries' | 'languages' | 'search' | 'sources' | 'excludeSources'
+>
+
+function sortedUnique<T extends string>(values?: T[]): T[] | undefined {
+  if (!values?.length) return undefined
+  return Array.from(new Set(values)).sort()
+}
+
+/**
+ * Drops empty fields and sorts list values so equivalent filters compare
+ * equal, e.g. `countries=gb,us` and `countries=us,gb`.
+ */
+export function normalizeNewsFilter(filter: NewsFilterFields = {}): NewsFilterFields {
+  const normalized: NewsFilterFields = {}
+  const categories = sortedUnique(filter.categories)
+  const countries = sortedUnique(filter.countries)
+  const languages = sortedUnique(filter.languages)
+  const search = filter.search?.trim().toLowerCase()
+  const sources = sortedUnique(filter.sources)
+  const excludeSources = sortedUnique(filter.excludeSources)
+
+  if (categories) normalized.categories = categories
+  if (countries) normalized.countries = countries
+  if (languages) normalized.languages = languages
+  if (search) normalized.search = search
+  if (sources) normalized.sources = sources
+  if (excludeSources) normalized.excludeSources = excludeSources
+
+  return normalized
+}
+
+// Stable cache key for one filter combination
+export function newsFilterKey(filter: NewsFilterFields = {}): string {
+  const { categories, countries, languages, search, sources, excludeSources } = normalizeNewsFilter(filter)
+  return [
+    `c:${categories?.join(',') ?? '*'}`,
+    `n:${countries?.join(',') ?? '*'}`,
+    `l:${languages?.join(',') ?? '*'}`,
+    `q:${search ?? ''}`,
+    `s:${sources?.join(',') ?? '*'}`,
+    `x:${excludeSources?.join(',') ?? ''}`
+  ].join('|')
+}
+
+// Query string for /api/fetch-news, matching NewsFilterQuerySchema
+export function toNewsFilterParams(filter: NewsFilterFields = {}): URLSearchParams {
+  const { categories, countries, languages, search, sources } = normalizeNewsFilter(filter)
+  const params = new URLSearchParams()
+
+  if (categories) params.set('categories', categories.join(','))
+  if (countries) params.set('countries', countries.join(','))
+  if (languages) params.set('languages', languages.join(','))
+  if (search) params.set('search', search)
+  if (sources) params.set('sources', sources.join(','))
+
+  return params
+}
@@ -0,0 +1,39 @@
+import type { ImageFormat, ImageManifest } from '@/types/image'
+
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  png: 'image/png'
+}
+
+export interface ImageSources {
+  // One <source> per format, best first; the PNG goes on the <img> instead
+  sources: Array<{ type: string; srcSet: string }>
+  src: string
+  srcSet: string
+  width: number
+  height: number
+  placeholder: string
+}
+
+// `srcSet` strings for a <picture>, from a stored manifest
+export function imageSources(manifest: ImageManifest): ImageSources {
+  const byFormat = new Map<ImageFormat, string[]>()
+  for (const rendition of manifest.renditions) {
+    const entries = byFormat.get(rendition.format) ?? []
+    entries.push(`${rendition.url} ${rendition.width}w`)
+    byFormat.set(rendition.format, entries)
+  }
+
+  const png = manifest.renditions.filter(rendition => rendition.format === 'png')
+  return {
+    sources: Array.from(byFormat.entries())
+      .filter(([format]) => format !== 'png')
+      .map(([format, entries]) => ({ type: IMAGE_MIME_TYPES[format], srcSet: entries.join(', ') })),
+    src: png.at(-1)?.url ?? manifest.renditions.at(-1)?.url ?? '',
+    srcSet: byFormat.get('png')?.join(', ') ?? '',
+    width: manifest.width,
+    height: manifest.height,
+    placeholder: manifest.placeholder
+  }
+}
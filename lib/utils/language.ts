@@ -0,0 +1,85 @@
+import type { NewsLanguage } from '@/types/news'
+
+export interface LanguageGuess {
+  language: NewsLanguage
+  // 0-1; below ~0.3 the text was too short or ambiguous to tell
+  confidence: number
+}
+
+// Scripts that identify a language on their own
+const SCRIPTS: Array<{ language: NewsLanguage; pattern: RegExp }> = [
+  { language: 'ar', pattern: /[\u0600-\u06ff\u0750-\u077f]/g },
+  { language: 'he', pattern: /[\u0590-\u05ff]/g },
+  { language: 'zh', pattern: /[\u3400-\u4dbf\u4e00-\u9fff]/g },
+  { language: 'ru', pattern: /[\u0400-\u04ff]/g }
+]
+
+// Frequent function words for the Latin-script languages
+const STOPWORDS: Partial<Record<NewsLanguage, string[]>> = {
+  en: ['the', 'of', 'and', 'to', 'in', 'is', 'for', 'on', 'with', 'as', 'after', 'over', 'new', 'says', 'at', 'by', 'from'],
+  es: ['el', 'la', 'los', 'las', 'de', 'del', 'y', 'en', 'que', 'por', 'para', 'con', 'un', 'una', 'tras', 'se'],
+  fr: ['le', 'la', 'les', 'des', 'du', 'de', 'et', 'en', 'un', 'une', 'pour', 'sur', 'dans', 'avec', 'apr\u00e8s', 'est'],
+  de: ['der', 'die', 'das', 'und', 'in', 'mit', 'von', 'f\u00fcr', 'auf', 'ist', 'nach', 'ein', 'eine', 'den', 'dem', 'nicht'],
+  it: ['il', 'lo', 'la', 'gli', 'le', 'di', 'del', 'della', 'e', 'per', 'con', 'un', 'una', 'dopo', 'che', 'nel'],
+  pt: ['o', 'a', 'os', 'as', 'de', 'do', 'da', 'e', 'em', 'no', 'na', 'para', 'com', 'um', 'uma', 'ap\u00f3s'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'in', 'op', 'met', 'voor', 'na', 'is', 'niet', 'bij', 'door', 'naar'],
+  no: ['og', 'i', 'p\u00e5', 'til', 'av', 'med', 'for', 'er', 'en', 'et', 'ikke', 'etter', 'fra', 'som', 'det'],
+  se: ['och', 'i', 'p\u00e5', 'till', 'av', 'med', 'f\u00f6r', '\u00e4r', 'en', 'ett', 'inte', 'efter', 'fr\u00e5n', 'som', 'det']
+}
+
+// Letters that only show up in some languages
+const DIACRITICS: Array<{ language: NewsLanguage; pattern: RegExp }> = [
+  { language: 'es', pattern: /[\u00f1\u00bf\u00a1]/g },
+  { language: 'de', pattern: /[\u00df]/g },
+  { language: 'pt', pattern: /[\u00e3\u00f5]/g },
+  { language: 'fr', pattern: /[\u00e8\u00ea\u00eb\u0153]/g },
+  { language: 'no', pattern: /[\u00f8\u00e6]/g },
+  { language: 'se', pattern: /[\u00e4\u00f6]/g }
+]
+
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(([language, words]) => ({
+  language: language as NewsLanguage,
+  words: new Set(words)
+}))
+
+/**
+ * Best guess at the language of a headline: script first, then function
+ * words and telltale letters. `hint` (usually the article's declared
+ * language) wins unless the script says otherwise.
+ */
+export function detectLanguage(text: string, hint?: NewsLanguage): LanguageGuess {
+  const letters = text.replace(/[^\p{L}]/gu, '').length || 1
+
+  for (const { language, pattern } of SCRIPTS) {
+    const share = (text.match(pattern)?.length ?? 0) / letters
+    if (share > 0.3) return { language, confidence: Math.min(1, share + 0.2) }
+  }
+
+  if (hint) return { language: hint, confidence: 0.9 }
+
+  const tokens = text.toLowerCase().split(/[^\p{L}']+/u).filter(Boolean)
+  const scores = new Map<NewsLanguage, number>()
+
+  for (const { language, words } of STOPWORD_SETS) {
+    scores.set(language, tokens.filter(token => words.has(token)).length)
+  }
+  for (const { language, pattern } of DIACRITICS) {
+    scores.set(language, (scores.get(language) ?? 0) + (text.toLowerCase().match(pattern)?.length ?? 0))
+  }
+
+  const ranked = Array.from(scores).sort((a, b) => b[1] - a[1])
+  const [best, runnerUp] = ranked
+  if (!best || best[1] === 0) return { language: 'en', confidence: 0.1 }
+
+  // Margin over the runner-up, scaled by how much evidence there was
+  const margin = (best[1] - (runnerUp?.[1] ?? 0)) / best[1]
+  const evidence = Math.min(1, best[1] / Math.max(3, tokens.length / 2))
+  return { language: best[0], confidence: Math.round(Math.max(0.15, margin * evidence) * 100) / 100 }
+}
+
+// ISO 639-1 code for a NewsLanguage; Mediastack uses `se` for Swedish and `no` for Norwegian
+export function toIsoLanguage(language: NewsLanguage): string {
+  if (language === 'se') return 'sv'
+  if (language === 'no') return 'nb'
+  return language
+}
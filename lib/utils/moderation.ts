@@ -0,0 +1,124 @@
+import { MODERATION_CONFIG } from '@/lib/config/moderation'
+import type { ModerationAction, ModerationCategory, ModerationFlag } from '@/types/moderation'
+
+const SEVERITY: Record<ModerationAction, number> = { allow: 0, soften: 1, block: 2 }
+
+const FIGURE_STAND_IN = 'an anonymous figure'
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Whole-word, case-insensitive; lookarounds rather than \b so terms like "Sen." work
+function termPattern(term: string, flags = 'i'): RegExp {
+  return new RegExp(`(?<![\\w-])${escapeRegExp(term)}(?![\\w-])`, flags)
+}
+
+const TITLE_PATTERN = new RegExp(
+  `(?<![\\w])(?:${MODERATION_CONFIG.publicFigureTitles.map(escapeRegExp).join('|')})\\s+(?:[A-Z][\\w'\\u2019-]+)(?:\\s+[A-Z][\\w'\\u2019-]+){0,2}`,
+  'g'
+)
+
+export function strongestAction(actions: ModerationAction[]): ModerationAction {
+  return actions.reduce<ModerationAction>(
+    (strongest, action) => SEVERITY[action] > SEVERITY[strongest] ? action : strongest,
+    'allow'
+  )
+}
+
+function termFlags(text: string, category: ModerationCategory, terms: string[], action: ModerationAction): ModerationFlag[] {
+  return terms.flatMap(term => {
+    const match = text.match(termPattern(term))
+    return match ? [{ category, rule: term, match: match[0], action }] : []
+  })
+}
+
+// Named people: the configured list plus anyone introduced by a title
+function publicFigureFlags(text: string): ModerationFlag[] {
+  const named = termFlags(text, 'public_figure', MODERATION_CONFIG.publicFigures, 'soften')
+  const titled = Array.from(text.matchAll(TITLE_PATTERN), match => ({
+    category: 'public_figure' as const,
+    rule: 'title',
+    match: match[0],
+    action: 'soften' as const
+  }))
+
+  const seen = new Set<string>()
+  return [...named, ...titled].filter(flag => {
+    const key = flag.match.toLowerCase()
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Rule-based screening of a headline and its prompt: blocklist terms
+ * block, violent, disaster and public-figure matches soften.
+ */
+export function screenText(text: string): ModerationFlag[] {
+  const { blocklist, softenRules } = MODERATION_CONFIG
+
+  return [
+    ...termFlags(text, 'blocklist', blocklist, 'block'),
+    ...termFlags(text, 'violence', Object.keys(softenRules.violence), 'soften'),
+    ...termFlags(text, 'disaster', Object.keys(softenRules.disaster), 'soften'),
+    ...publicFigureFlags(text)
+  ]
+}
+
+// A matched name's last word, so "Joe Biden" also catches a later bare "Biden"
+function surname(name: string): string | null {
+  const words = name.trim().split(/\s+/)
+  return words.length > 1 ? words[words.length - 1] : null
+}
+
+/**
+ * Swaps flagged terms for their stand-ins and replaces named people, by
+ * full name and then by surname. Text without flagged terms is returned
+ * as it was.
+ */
+export function rewriteFlaggedTerms(text: string, flags: ModerationFlag[]): string {
+  const { softenRules } = MODERATION_CONFIG
+  let rewritten = text
+
+  for (const flag of flags) {
+    if (flag.category === 'public_figure') {
+      rewritten = rewritten.replace(termPattern(flag.match, 'gi'), FIGURE_STAND_IN)
+      // Case-sensitive, so surnames that are also ordinary words ("Warren", "Bush") only match as names
+      const lastName = surname(flag.match)
+      if (lastName) rewritten = rewritten.replace(termPattern(lastName, 'g'), FIGURE_STAND_IN)
+      continue
+    }
+
+    const replacement = flag.category === 'violence' || flag.category === 'disaster'
+      ? softenRules[flag.category][flag.rule]
+      : null
+    if (replacement) {
+      rewritten = rewritten.replace(termPattern(flag.rule, 'gi'), replacement)
+    }
+  }
+
+  return rewritten
+}
+
+/**
+ * Rewrites a prompt toward symbolic imagery: swaps flagged terms for their
+ * stand-ins, removes named people and appends the symbolic guidance and
+ * negative terms. Softening an already softened prompt changes nothing.
+ */
+export function softenPrompt(
+  prompt: string,
+  flags: ModerationFlag[],
+  negativePrompt?: string
+): { prompt: string; negative_prompt: string } {
+  const { symbolicGuidance, softenedNegativePrompt } = MODERATION_CONFIG
+  const rewritten = rewriteFlaggedTerms(prompt, flags).trim()
+
+  return {
+    prompt: rewritten.includes(symbolicGuidance) ? rewritten : `${rewritten}\n${symbolicGuidance}`,
+    negative_prompt: negativePrompt?.includes(softenedNegativePrompt)
+      ? negativePrompt
+      : [negativePrompt, softenedNegativePrompt].filter(Boolean).join(', ')
+  }
+}
@@ -0,0 +1,107 @@
+import { ALL_SOURCES } from '@/lib/config/news-sources'
+import { normalizeAudioAlignment } from '@/lib/audio/alignment'
+import { buildSourceInfo, storyKey } from '@/lib/utils/stories'
+import { isArtStyleValue, toArtStyleKey } from '@/types/art'
+import type { NewsArticle, NewsItem, NewsSource } from '@/types/news'
+
+/**
+ * Every record shape we turn into a NewsItem: provider articles
+ * (`source`), news_history rows (`source` or the older `source_name`)
+ * and client history items.
+ */
+export interface NewsItemInput {
+  id?: string
+  headline: string
+  headline_en?: string | null
+  source?: string
+  source_name?: string
+  url: string
+  published_at?: string | null
+  created_at?: string | null
+  image_url?: string | null
+  audio_url?: string | null
+  audio_alignment?: unknown
+  art_style?: string | null
+  prompt?: string | null
+  prompt_version?: string | null
+  image_params?: NewsItem['image_params'] | null
+  image_alternates?: NewsItem['image_alternates'] | null
+  image_manifest?: NewsItem['image_manifest'] | null
+  image_prompt?: string | null
+  image_negative_prompt?: string | null
+  metadata?: Record<string, unknown> | null
+  story_id?: string | null
+  coverage?: NewsArticle['coverage'] | null
+  category?: NewsArticle['category'] | null
+  engagement?: NewsItem['engagement'] | null
+  language?: NewsArticle['language']
+  country?: NewsArticle['country']
+  user_email?: string | null
+}
+
+// Registry entry for a source name, or a bare entry derived from the article URL
+function resolveSource(name: string, url: string): NewsSource {
+  const known = ALL_SOURCES.find(source => source.name.toLowerCase() === name.toLowerCase())
+  if (known) return known
+
+  let origin = url
+  try {
+    origin = new URL(url).origin
+  } catch {
+    // Keep the raw URL, the schema layer already reported it
+  }
+
+  return {
+    id: name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+    name,
+    url: origin,
+    type: 'api'
+  }
+}
+
+// The single mapper from stored or provider records to the NewsItem the UI renders
+export function toNewsItem(input: NewsItemInput): NewsItem {
+  const sourceName = input.source ?? input.source_name ?? 'Unknown source'
+  const source = resolveSource(sourceName, input.url)
+  const publishedAt = input.published_at ?? input.created_at ?? new Date().toISOString()
+
+  return {
+    // Articles not stored yet get a stable id from their headline
+    id: input.id ?? input.story_id ?? storyKey(input.headline),
+    headline: input.headline,
+    headline_en: input.headline_en ?? undefined,
+    source_name: sourceName,
+    source_url: source.url,
+    url: input.url,
+    published_at: publishedAt,
+    created_at: input.created_at ?? undefined,
+    audio_url: input.audio_url ?? undefined,
+    audio_alignment: normalizeAudioAlignment(input.audio_alignment),
+    // Older rows store built-in display names; catalog keys pass through
+    art_style: input.art_style && !isArtStyleValue(input.art_style) ? input.art_style : toArtStyleKey(input.art_style),
+    prompt: input.prompt ?? undefined,
+    prompt_version: input.prompt_version ?? undefined,
+    image_params: input.image_params ?? undefined,
+    image_alternates: input.image_alternates?.length ? input.image_alternates : undefined,
+    image_manifest: input.image_manifest ?? undefined,
+    image_prompt: input.image_prompt ?? undefined,
+    image_negative_prompt: input.image_negative_prompt ?? undefined,
+    metadata: input.metadata ?? undefined,
+    image: {
+      url: input.image_url ?? undefined,
+      isGenerating: false,
+      isPending: false,
+      error: null
+    },
+    sourceInfo: input.coverage?.length
+      ? buildSourceInfo({ headline: input.headline, source: sourceName, url: input.url, coverage: input.coverage })
+      : undefined,
+    engagement: input.engagement ?? undefined,
+    story_id: input.story_id ?? undefined,
+    user_email: input.user_email,
+    source,
+    category: input.category ?? source.category,
+    language: input.language ?? source.language,
+    country: input.country ?? source.country
+  }
+}
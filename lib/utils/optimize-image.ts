@@ -0,0 +1,82 @@
+import sharp from 'sharp'
+import { IMAGE_OPTIMIZATION_CONFIG } from '@/lib/config/image-models'
+import { ImageUploadError } from '@/lib/utils/errors'
+import type { ImageFormat } from '@/types/image'
+
+export interface OptimizedRendition {
+  format: ImageFormat
+  width: number
+  height: number
+  data: Buffer
+}
+
+export interface OptimizedImage {
+  width: number
+  height: number
+  placeholder: string
+  // Ordered by format preference, then width
+  renditions: OptimizedRendition[]
+}
+
+// The configured widths narrower than the image, then the image's own width
+function targetWidths(width: number): number[] {
+  return [...IMAGE_OPTIMIZATION_CONFIG.widths.filter(target => target < width), width]
+}
+
+function encode(image: sharp.Sharp, format: ImageFormat): sharp.Sharp {
+  const { quality, avifEffort } = IMAGE_OPTIMIZATION_CONFIG
+  switch (format) {
+    case 'avif':
+      return image.avif({ quality: quality.avif, effort: avifEffort })
+    case 'webp':
+      return image.webp({ quality: quality.webp })
+    case 'png':
+      return image.png({ compressionLevel: 9 })
+  }
+}
+
+/**
+ * Server-side pipeline for a generated image: every configured format at
+ * every responsive width, plus a blurred placeholder. Output never
+ * carries the source's metadata (sharp drops EXIF, XMP and ICC unless
+ * asked to keep them), and nothing is upscaled. Images over
+ * maxInputPixels are refused before decoding. Node only; sharp has no
+ * edge build.
+ */
+export async function optimizeImage(input: Buffer): Promise<OptimizedImage> {
+  const { maxInputPixels } = IMAGE_OPTIMIZATION_CONFIG
+  // Only the header is read here; the source below still enforces the cap itself when decoding
+  const { width, height } = await sharp(input).metadata().catch(() => ({ width: undefined, height: undefined }))
+  if (!width || !height) {
+    throw new ImageUploadError('Unreadable image: no dimensions')
+  }
+  if (width * height > maxInputPixels) {
+    throw new ImageUploadError(`Image is ${width}x${height}, over the ${maxInputPixels} pixel limit`, 413)
+  }
+  const source = sharp(input, { limitInputPixels: maxInputPixels })
+
+  const renditions: OptimizedRendition[] = []
+  for (const targetWidth of targetWidths(width)) {
+    const resized = source.clone().resize({ width: targetWidth })
+    const encoded = await Promise.all(IMAGE_OPTIMIZATION_CONFIG.formats.map(async format => {
+      const { data, info } = await encode(resized.clone(), format).toBuffer({ resolveWithObject: true })
+      return { format, width: info.width, height: info.height, data }
+    }))
+    renditions.push(...encoded)
+  }
+
+  const preview = await source.clone()
+    .resize({ width: IMAGE_OPTIMIZATION_CONFIG.placeholderWidth })
+    .webp({ quality: 40 })
+    .toBuffer()
+
+  const formatOrder = IMAGE_OPTIMIZATION_CONFIG.formats
+  renditions.sort((a, b) => formatOrder.indexOf(a.format) - formatOrder.indexOf(b.format) || a.width - b.width)
+
+  return {
+    width,
+    height,
+    placeholder: `data:image/webp;base64,${preview.toString('base64')}`,
+    renditions
+  }
+}
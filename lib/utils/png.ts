@@ -0,0 +1,84 @@
+// Minimal PNG encoder on web APIs only (CompressionStream, btoa), so it runs on the edge runtime too
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+let crcTable: Uint32Array | null = null
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i)
+  out.set(data, 8)
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)))
+  return out
+}
+
+// zlib-wrapped deflate, which is what IDAT expects
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Encodes packed RGB pixels (3 bytes per pixel, rows top to bottom) as an
+ * 8-bit truecolor PNG.
+ */
+export async function encodePng(width: number, height: number, rgb: Uint8Array): Promise<Uint8Array> {
+  if (rgb.length !== width * height * 3) {
+    throw new Error(`Expected ${width * height * 3} bytes of RGB data, got ${rgb.length}`)
+  }
+
+  // Each scanline starts with filter type 0 (none)
+  const stride = width * 3
+  const raw = new Uint8Array((stride + 1) * height)
+  for (let y = 0; y < height; y++) {
+    raw.set(rgb.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1)
+  }
+
+  const header = new Uint8Array(13)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, width)
+  view.setUint32(4, height)
+  header[8] = 8 // bit depth
+  header[9] = 2 // truecolor
+
+  const parts = [
+    Uint8Array.from(PNG_SIGNATURE),
+    chunk('IHDR', header),
+    chunk('IDAT', await deflate(raw)),
+    chunk('IEND', new Uint8Array(0))
+  ]
+
+  const png = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    png.set(part, offset)
+    offset += part.length
+  }
+  return png
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  // Chunked so String.fromCharCode never gets more arguments than the engine allows
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
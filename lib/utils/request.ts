@@ -0,0 +1,8 @@
+import { headers } from 'next/headers'
+
+// The client's address as the edge proxy saw it, the first hop of `x-forwarded-for`
+export async function getIPAddress(): Promise<string> {
+  const headersList = await headers()
+  const forwardedFor = headersList.get('x-forwarded-for')?.split(',')[0]?.trim()
+  return forwardedFor || headersList.get('x-real-ip') || 'unknown'
+}
@@ -0,0 +1,58 @@
+import type { HeadlineSentiment } from '@/types/art'
+
+export interface SentimentScore {
+  sentiment: HeadlineSentiment
+  // -1 (grim) to 1 (upbeat)
+  score: number
+}
+
+// Headline vocabulary, not general prose: news leans on a small set of loaded words
+const NEGATIVE_WORDS = new Set([
+  'attack', 'attacks', 'ban', 'bans', 'bankrupt', 'bankruptcy', 'collapse', 'collapses', 'conflict', 'crash',
+  'crashes', 'crisis', 'cut', 'cuts', 'dead', 'death', 'deaths', 'decline', 'declines', 'defeat', 'deficit',
+  'disaster', 'drop', 'drops', 'fall', 'falls', 'fear', 'fears', 'fire', 'flood', 'fraud', 'grief', 'indicted',
+  'inflation', 'injured', 'killed', 'kills', 'lawsuit', 'layoffs', 'loses', 'loss', 'losses', 'mourn', 'mourns',
+  'outbreak', 'plunge', 'plunges', 'protest', 'protests', 'recession', 'resigns', 'riot', 'scandal', 'shortage',
+  'sinks', 'slump', 'strike', 'suffer', 'threat', 'threatens', 'tragedy', 'tumble', 'tumbles', 'turmoil',
+  'violence', 'war', 'warns', 'worst'
+])
+
+const POSITIVE_WORDS = new Set([
+  'agreement', 'award', 'awards', 'best', 'boom', 'boost', 'boosts', 'breakthrough', 'celebrate', 'celebrates',
+  'champion', 'champions', 'cure', 'deal', 'discover', 'discovers', 'discovery', 'gain', 'gains', 'growth',
+  'hope', 'joy', 'launch', 'launches', 'milestone', 'peace', 'rally', 'rallies', 'record', 'recovery', 'rescue',
+  'rescued', 'rise', 'rises', 'soar', 'soars', 'success', 'surge', 'surges', 'triumph', 'victory', 'win', 'wins'
+])
+
+const NEGATORS = new Set(['no', 'not', 'never', 'without', "isn't", "won't", "can't"])
+
+// Below this magnitude a headline reads as neutral
+const NEUTRAL_BAND = 0.3
+
+/**
+ * Lexicon score of an English headline. Good enough to tell a grim story
+ * from a cheerful one; anything subtler comes out neutral.
+ */
+export function scoreSentiment(text: string): SentimentScore {
+  const words = text.toLowerCase().match(/[a-z']+/g) ?? []
+  let positive = 0
+  let negative = 0
+
+  words.forEach((word, index) => {
+    const polarity = POSITIVE_WORDS.has(word) ? 1 : NEGATIVE_WORDS.has(word) ? -1 : 0
+    if (!polarity) return
+
+    // A negator just before flips the word: "no deal" is bad news
+    const flipped = index > 0 && NEGATORS.has(words[index - 1])
+    if ((polarity > 0) !== flipped) positive++
+    else negative++
+  })
+
+  // The +1 keeps one loaded word from reading as certainty
+  const score = Math.round(((positive - negative) / (positive + negative + 1)) * 100) / 100
+  const sentiment: HeadlineSentiment = score <= -NEUTRAL_BAND
+    ? 'negative'
+    : score >= NEUTRAL_BAND ? 'positive' : 'neutral'
+
+  return { sentiment, score }
+}
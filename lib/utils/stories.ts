@@ -0,0 +1,167 @@
+import { ALL_SOURCES, STORY_CLUSTER_CONFIG, getPremiumSources } from '@/lib/config/news-sources'
+import type { NewsArticle, NewsCoverageLink, NewsItem, NewsStory } from '@/types/news'
+
+export const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from',
+  'as', 'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'after', 'over',
+  'into', 'amid', 'says', 'said', 'new', 'up', 'out', 'about', 'than', 'has', 'have', 'will'
+])
+
+// Crude stemming so "strikes"/"strike" and "talks"/"talk" collapse together
+export function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return token.slice(0, -3) + 'y'
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1)
+  return token
+}
+
+export function headlineTokens(headline: string): Set<string> {
+  return new Set(
+    headline
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/['\u2019]s\b/g, '')
+      // Drop trailing " - CNN" / " | Reuters" attributions that differ per outlet
+      .replace(/\s[-|\u2013\u2014]\s[^-|\u2013\u2014]+$/, '')
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 1 && !STOPWORDS.has(token))
+      .map(stem)
+  )
+}
+
+// Jaccard similarity over normalized headline tokens
+export function headlineSimilarity(a: string, b: string): number {
+  const tokensA = headlineTokens(a)
+  const tokensB = headlineTokens(b)
+  if (!tokensA.size || !tokensB.size) return 0
+
+  let shared = 0
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++
+  })
+  return shared / (tokensA.size + tokensB.size - shared)
+}
+
+// Stable id for a story, derived from its canonical headline (FNV-1a)
+export function storyKey(headline: string): string {
+  const signature = Array.from(headlineTokens(headline)).sort().join(' ')
+  let hash = 0x811c9dc5
+  for (let i = 0; i < signature.length; i++) {
+    hash ^= signature.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return `story_${(hash >>> 0).toString(16).padStart(8, '0')}`
+}
+
+function sourceRank(sourceName: string): number {
+  const name = sourceName.toLowerCase()
+  const matches = (source: { id: string; name: string }) =>
+    source.id === name || source.name.toLowerCase() === name
+  if (getPremiumSources().some(matches)) return 2
+  return ALL_SOURCES.some(matches) ? 1 : 0
+}
+
+// Most trusted source first, then whoever published first
+function compareCanonical(a: NewsArticle, b: NewsArticle): number {
+  const rank = sourceRank(b.source) - sourceRank(a.source)
+  if (rank !== 0) return rank
+  return (a.published_at ?? '\uffff').localeCompare(b.published_at ?? '\uffff')
+}
+
+export function toCoverageLink(article: NewsArticle): NewsCoverageLink {
+  return {
+    source: article.source,
+    url: article.url,
+    headline: article.headline,
+    published_at: article.published_at
+  }
+}
+
+/**
+ * Groups near-duplicate headlines into stories. Each story keeps one
+ * canonical article (the one that gets art and audio) and lists the
+ * other outlets as coverage links.
+ */
+export function clusterArticles(
+  articles: NewsArticle[],
+  threshold: number = STORY_CLUSTER_CONFIG.similarityThreshold
+): NewsStory[] {
+  // Union-find over pairwise similarity, so A~B and B~C land in one story
+  const parent = articles.map((_, index) => index)
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])))
+
+  for (let i = 0; i < articles.length; i++) {
+    for (let j = i + 1; j < articles.length; j++) {
+      if (headlineSimilarity(articles[i].headline, articles[j].headline) >= threshold) {
+        parent[find(j)] = find(i)
+      }
+    }
+  }
+
+  const groups = new Map<number, NewsArticle[]>()
+  articles.forEach((article, index) => {
+    const root = find(index)
+    groups.set(root, [...(groups.get(root) ?? []), article])
+  })
+
+  // Preserve the provider's ordering: stories appear where their first article did
+  return Array.from(groups.values()).map(group => {
+    const [canonical, ...others] = [...group].sort(compareCanonical)
+    const seenUrls = new Set([canonical.url])
+    const coverage = others
+      .filter(article => !seenUrls.has(article.url) && seenUrls.add(article.url))
+      .map(toCoverageLink)
+    const id = storyKey(canonical.headline)
+
+    return {
+      id,
+      canonical: { ...canonical, story_id: id, coverage },
+      coverage
+    }
+  })
+}
+
+/**
+ * The stored story a new headline most resembles, if any clears the
+ * threshold. Lets a later poll join a story from an earlier window
+ * instead of starting a new one (and paying for its media again).
+ */
+export function findStoredStory<T extends { headline: string }>(
+  headline: string,
+  stored: T[],
+  threshold: number = STORY_CLUSTER_CONFIG.similarityThreshold
+): T | undefined {
+  let best: T | undefined
+  let bestScore = threshold
+  for (const story of stored) {
+    const score = headlineSimilarity(headline, story.headline)
+    if (score >= bestScore) {
+      best = story
+      bestScore = score
+    }
+  }
+  return best
+}
+
+// Appends new outlets to a story's coverage, skipping URLs it already lists
+export function mergeCoverage(
+  story: { url: string; coverage?: NewsCoverageLink[] | null },
+  links: NewsCoverageLink[]
+): NewsCoverageLink[] {
+  const existing = story.coverage ?? []
+  const seenUrls = new Set([story.url, ...existing.map(link => link.url)])
+  return [...existing, ...links.filter(link => !seenUrls.has(link.url) && seenUrls.add(link.url))]
+}
+
+// Shape a canonical article's coverage for NewsItem.sourceInfo
+export function buildSourceInfo(article: NewsArticle): NonNullable<NewsItem['sourceInfo']> {
+  const coverageLinks = article.coverage ?? []
+  const outlets = [article.source, ...coverageLinks.map(link => link.source)]
+
+  return {
+    isTrusted: sourceRank(article.source) > 0,
+    coverage: outlets.length > 1 ? `Reported by ${outlets.length} sources` : 'Single source',
+    description: outlets.join(', '),
+    coverageLinks
+  }
+}
@@ -0,0 +1,135 @@
+import type { z } from 'zod'
+import { formatIssues } from '@/lib/schemas/news'
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T; repaired: boolean }
+  | { success: false; error: string }
+
+// Contents of the first ``` fence, or the text unchanged
+function stripCodeFences(text: string): string {
+  const fence = text.match(/```[a-zA-Z]*\s*([\s\S]*?)(?:```|$)/)
+  return fence ? fence[1] : text
+}
+
+/**
+ * The first `{...}` in the text, skipping prose around it. Quotes of either
+ * kind are respected; an object cut off mid-way is returned to the end of
+ * the text so the repair pass can close it.
+ */
+export function findJsonObject(text: string): string | null {
+  const start = text.indexOf('{')
+  if (start === -1) return null
+
+  let depth = 0
+  let quote: string | null = null
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+
+    if (quote) {
+      if (char === '\\') i++
+      else if (char === quote) quote = null
+      continue
+    }
+
+    if (char === '"' || char === '\'') quote = char
+    else if (char === '{') depth++
+    else if (char === '}' && --depth === 0) return text.slice(start, i + 1)
+  }
+
+  return text.slice(start)
+}
+
+function nextSignificant(text: string, from: number): string | undefined {
+  for (let i = from; i < text.length; i++) {
+    if (!/\s/.test(text[i])) return text[i]
+  }
+  return undefined
+}
+
+/**
+ * Rewrites the JSON-ish output models tend to produce into strict JSON:
+ * single-quoted strings, smart quotes, unquoted keys, raw newlines in
+ * strings, trailing commas and unclosed strings or brackets.
+ */
+export function repairJson(text: string): string {
+  const source = text.replace(/[\u201c\u201d]/g, '"')
+  const closers: string[] = []
+  let output = ''
+  let quote: string | null = null
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (quote) {
+      if (char === '\\') {
+        const escaped = source[i + 1] ?? ''
+        // \' is not a valid JSON escape
+        output += escaped === '\'' ? '\'' : char + escaped
+        i++
+      } else if (char === quote) {
+        output += '"'
+        quote = null
+      } else if (char === '"') {
+        output += '\\"'
+      } else if (char === '\n') {
+        output += '\\n'
+      } else if (char !== '\r') {
+        output += char
+      }
+      continue
+    }
+
+    if (char === '"' || char === '\'') {
+      quote = char
+      output += '"'
+    } else if (char === '{' || char === '[') {
+      closers.push(char === '{' ? '}' : ']')
+      output += char
+    } else if (char === '}' || char === ']') {
+      closers.pop()
+      output += char
+    } else if (char === ',') {
+      const next = nextSignificant(source, i + 1)
+      if (next !== '}' && next !== ']' && next !== undefined) output += char
+    } else if (/[A-Za-z_]/.test(char)) {
+      const word = source.slice(i).match(/^[A-Za-z_]\w*/)![0]
+      i += word.length - 1
+      output += nextSignificant(source, i + 1) === ':' ? `"${word}"` : word
+    } else {
+      output += char
+    }
+  }
+
+  if (quote) output += '"'
+  return output + closers.reverse().join('')
+}
+
+// Parsed JSON from a model reply, repairing it only when strict parsing fails
+export function extractJson(text: string): { value: unknown; repaired: boolean } {
+  const candidate = findJsonObject(stripCodeFences(text)) ?? findJsonObject(text)
+  if (!candidate) throw new Error('No JSON object found in response')
+
+  try {
+    return { value: JSON.parse(candidate), repaired: false }
+  } catch {
+    return { value: JSON.parse(repairJson(candidate)), repaired: true }
+  }
+}
+
+export function parseStructuredOutput<T extends z.ZodTypeAny>(
+  schema: T,
+  text: string
+): StructuredParseResult<z.output<T>> {
+  let extracted: { value: unknown; repaired: boolean }
+  try {
+    extracted = extractJson(text)
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Invalid JSON' }
+  }
+
+  const result = schema.safeParse(extracted.value)
+  return result.success
+    ? { success: true, data: result.data, repaired: extracted.repaired }
+    : { success: false, error: formatIssues(result.error) }
+}
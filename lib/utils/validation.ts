@@ -150,6 +150,34 @@ export function validateTogetherApiKey(): ValidationResult {
   }
 }
 
+// Compares every character whatever the input, so response time says nothing about the secret
+function constantTimeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0)
+  }
+  return diff === 0
+}
+
+/**
+ * Checks a `Bearer` secret from the environment, as the cron (CRON_SECRET)
+ * and art style admin (ADMIN_SECRET) routes use. Without the variable the
+ * routes are only open outside production, so they can be driven locally.
+ */
+export function validateBearerSecret(request: Request, envName: string): ValidationResult {
+  const secret = process.env[envName]
+
+  if (!secret) {
+    return process.env.NODE_ENV === 'production'
+      ? { isValid: false, message: `${envName} is not configured` }
+      : { isValid: true, message: `${envName} not required outside production` }
+  }
+
+  return constantTimeEqual(request.headers.get('authorization') ?? '', `Bearer ${secret}`)
+    ? { isValid: true, message: 'Request authorized' }
+    : { isValid: false, message: `Invalid ${envName}` }
+}
+
 /**
  * Provides information about the development environment
  */
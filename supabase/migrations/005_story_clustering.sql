@@ -0,0 +1,7 @@
+-- Story clustering: one canonical row per story, other outlets kept as coverage links
+ALTER TABLE news_history
+ADD COLUMN story_id TEXT,
+ADD COLUMN coverage JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Look up existing stories before generating media for a duplicate
+CREATE INDEX IF NOT EXISTS idx_news_history_story_id ON news_history(story_id);
@@ -0,0 +1,3 @@
+-- Track when a provider published the article, separate from when we stored it
+ALTER TABLE news_history
+ADD COLUMN published_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,28 @@
+-- Per-source polling cursor for the scheduled headline poller
+CREATE TABLE IF NOT EXISTS news_source_cursors (
+  source_id TEXT PRIMARY KEY,
+  last_published_at TIMESTAMP WITH TIME ZONE,
+  last_seen_url TEXT,
+  last_polled_at TIMESTAMP WITH TIME ZONE,
+  next_poll_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  last_error TEXT
+);
+
+-- Media generation queue, filled by the poller and drained by the job runner
+CREATE TYPE media_job_status AS ENUM ('pending', 'processing', 'completed', 'failed');
+
+CREATE TABLE IF NOT EXISTS media_generation_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  news_id UUID NOT NULL REFERENCES news_history(id) ON DELETE CASCADE,
+  status media_job_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+
+  CONSTRAINT unique_media_job_news UNIQUE (news_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_generation_jobs_pending
+ON media_generation_jobs(created_at)
+WHERE status = 'pending';
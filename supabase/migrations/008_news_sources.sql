@@ -0,0 +1,33 @@
+-- Source registry: free vs premium outlets, seeded from lib/config/news-sources.ts
+CREATE TABLE IF NOT EXISTS news_sources (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'api' CHECK (type IN ('rss', 'api')),
+  feed_url TEXT,
+  category TEXT,
+  country TEXT,
+  language TEXT,
+  poll_interval_minutes INTEGER,
+  is_premium BOOLEAN NOT NULL DEFAULT FALSE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_news_sources_active
+ON news_sources(is_premium)
+WHERE is_active;
+
+-- Keep in sync with PREMIUM_SOURCES and FREE_SOURCES; sourceRegistry.seed() upserts the same rows
+INSERT INTO news_sources (id, name, url, type, feed_url, category, country, language, poll_interval_minutes, is_premium, is_active)
+VALUES
+  ('cnn', 'CNN', 'https://www.cnn.com', 'api', NULL, 'general', 'us', 'en', NULL, TRUE, TRUE),
+  ('bbc', 'BBC News', 'https://www.bbc.com/news', 'rss', 'https://feeds.bbci.co.uk/news/rss.xml', 'general', 'gb', 'en', 15, TRUE, TRUE),
+  ('reuters', 'Reuters', 'https://www.reuters.com', 'rss', 'https://www.reutersagency.com/feed/?taxonomy=best-topics&post_type=best', 'general', 'gb', 'en', 15, TRUE, TRUE),
+  ('ap', 'Associated Press', 'https://apnews.com', 'api', NULL, 'general', 'us', 'en', NULL, TRUE, TRUE),
+  ('abc-news', 'ABC News', 'https://abcnews.go.com', 'api', NULL, 'general', 'us', 'en', NULL, FALSE, TRUE),
+  ('cbs-news', 'CBS News', 'https://www.cbsnews.com', 'api', NULL, 'general', 'us', 'en', NULL, FALSE, TRUE),
+  ('nbc-news', 'NBC News', 'https://www.nbcnews.com', 'api', NULL, 'general', 'us', 'en', NULL, FALSE, TRUE),
+  ('fox-news', 'Fox News', 'https://www.foxnews.com', 'api', NULL, 'general', 'us', 'en', NULL, FALSE, TRUE)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,76 @@
+-- Full-text search over past visualizations: headline, source, prompt and art style
+-- Art style keys are CamelCase (VanGogh), split them so "van gogh" matches
+ALTER TABLE news_history
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(headline, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(regexp_replace(art_style, '([a-z])([A-Z])', '\1 \2', 'g'), '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(source, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(prompt, '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_news_history_search_vector
+ON news_history USING GIN (search_vector);
+
+-- Headlines and prompts are stored as plain text; escape them before <mark> goes in,
+-- so a highlight is always safe to render as HTML
+CREATE OR REPLACE FUNCTION escape_html(value TEXT)
+RETURNS TEXT AS $$
+  SELECT replace(replace(replace(replace(value, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ranked search with highlighted snippets and keyset pagination on (rank, id).
+-- Pass the rank and id of the last row from the previous page as the cursor.
+-- style_filter lists every stored spelling of a style (key and display name).
+CREATE OR REPLACE FUNCTION search_news_history(
+  search_query TEXT,
+  style_filter TEXT[] DEFAULT NULL,
+  cursor_rank DOUBLE PRECISION DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  headline TEXT,
+  source TEXT,
+  url TEXT,
+  image_url TEXT,
+  audio_url TEXT,
+  art_style TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank DOUBLE PRECISION,
+  headline_highlight TEXT,
+  prompt_highlight TEXT
+) AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsq
+  ),
+  ranked AS (
+    SELECT
+      n.*,
+      ts_rank_cd(n.search_vector, query.tsq)::DOUBLE PRECISION AS rank,
+      query.tsq
+    FROM news_history n, query
+    WHERE n.search_vector @@ query.tsq
+      AND (style_filter IS NULL OR n.art_style = ANY(style_filter))
+  )
+  SELECT
+    r.id,
+    r.headline,
+    r.source,
+    r.url,
+    r.image_url,
+    r.audio_url,
+    r.art_style,
+    r.created_at,
+    r.rank,
+    ts_headline('english', escape_html(r.headline), r.tsq,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    CASE WHEN r.prompt IS NULL THEN NULL ELSE ts_headline('english', escape_html(r.prompt), r.tsq,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2') END
+  FROM ranked r
+  WHERE cursor_rank IS NULL
+     OR r.rank < cursor_rank
+     OR (r.rank = cursor_rank AND r.id < cursor_id)
+  ORDER BY r.rank DESC, r.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$ LANGUAGE sql STABLE;
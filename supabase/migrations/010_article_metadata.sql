@@ -0,0 +1,3 @@
+-- Free-form per-article data, starting with the extracted summary and entities
+ALTER TABLE news_history
+ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
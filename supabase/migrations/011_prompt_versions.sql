@@ -0,0 +1,7 @@
+-- Prompt template version used for each visualization, for comparing variants
+ALTER TABLE news_history
+ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_news_history_prompt_version
+ON news_history(prompt_version)
+WHERE prompt_version IS NOT NULL;
@@ -0,0 +1,4 @@
+-- Headline language as ingested, and the English form the art prompt was written from
+ALTER TABLE news_history
+ADD COLUMN IF NOT EXISTS language TEXT,
+ADD COLUMN IF NOT EXISTS headline_en TEXT;
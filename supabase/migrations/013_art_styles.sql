@@ -0,0 +1,71 @@
+-- Art style catalog read by the prompt and image pipeline; curators add styles through /api/admin/art-styles
+CREATE TABLE IF NOT EXISTS art_styles (
+  key TEXT PRIMARY KEY CHECK (key ~ '^[A-Za-z][A-Za-z0-9]{1,39}$'),
+  name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  keywords TEXT[] NOT NULL DEFAULT '{}',
+  negative_prompt TEXT,
+  composition TEXT,
+  lighting TEXT,
+  color_palette TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_art_styles_name
+ON art_styles(LOWER(name));
+
+-- Keep in sync with artStyleDescriptions in lib/art-styles.ts, the fallback when this table is empty
+INSERT INTO art_styles (key, name, description, keywords, negative_prompt, composition, lighting, color_palette)
+VALUES
+  ('VanGogh', 'Vincent Van Gogh',
+   'Post-impressionist style characterized by bold, expressive brushstrokes, vibrant colors, and emotional intensity. Features swirling patterns, thick impasto technique, and dramatic use of color to convey emotion and movement.',
+   ARRAY['swirling', 'bold', 'expressive', 'vibrant', 'impasto', 'emotional', 'dramatic', 'movement', 'textured', 'intense'],
+   'blurry, flat, dull, oversaturated, cartoonish, artificial, digital, smooth, perfect, clean',
+   'dynamic composition with strong diagonal lines and swirling patterns',
+   'dramatic lighting with strong contrasts and emotional impact',
+   'vibrant, pure colors with emphasis on yellows, blues, and greens'),
+  ('Picasso', 'Pablo Picasso',
+   'Cubist style featuring geometric shapes, multiple viewpoints, and abstracted forms. Characterized by fragmented objects, bold lines, and a revolutionary approach to perspective and representation.',
+   ARRAY['geometric', 'abstract', 'fragmented', 'bold', 'revolutionary', 'multi-perspective', 'cubist', 'structured', 'innovative', 'deconstructed'],
+   'realistic, smooth, natural, organic, traditional, photographic, perfect, clean, simple, flat',
+   'fragmented composition with multiple viewpoints and geometric shapes',
+   'flat lighting with emphasis on form over light and shadow',
+   'monochromatic or limited color palette with emphasis on form'),
+  ('DaVinci', 'Leonardo da Vinci',
+   'Renaissance master style known for sfumato technique, anatomical precision, and scientific observation. Features soft transitions, detailed realism, and perfect balance of light and shadow.',
+   ARRAY['realistic', 'detailed', 'sfumato', 'balanced', 'precise', 'anatomical', 'scientific', 'harmonious', 'masterful', 'refined'],
+   'cartoonish, exaggerated, artificial, digital, modern, harsh, oversaturated, flat, rough, imperfect',
+   'balanced composition with perfect proportions and golden ratio',
+   'soft, natural lighting with subtle sfumato transitions',
+   'natural, muted colors with emphasis on earth tones'),
+  ('Monet', 'Claude Monet',
+   'Impressionist style capturing light and atmosphere through loose brushwork and pure colors. Characterized by outdoor scenes, emphasis on light effects, and visible brushstrokes that create movement.',
+   ARRAY['impressionist', 'atmospheric', 'light', 'outdoor', 'movement', 'colorful', 'natural', 'spontaneous', 'luminous', 'ethereal'],
+   'dark, gloomy, artificial, digital, harsh, oversaturated, flat, static, perfect, clean',
+   'natural composition with emphasis on light and atmosphere',
+   'natural outdoor lighting with emphasis on light effects and reflections',
+   'pure, bright colors with emphasis on light and atmosphere'),
+  ('Rembrandt', 'Rembrandt',
+   'Baroque master style known for dramatic lighting, rich textures, and psychological depth. Features chiaroscuro technique, emotional intensity, and masterful use of dark and light contrasts.',
+   ARRAY['dramatic', 'chiaroscuro', 'textured', 'psychological', 'rich', 'contrasting', 'emotional', 'masterful', 'deep', 'atmospheric'],
+   'bright, flat, artificial, digital, oversaturated, cartoonish, perfect, clean, simple, modern',
+   'dramatic composition with strong chiaroscuro effects',
+   'dramatic lighting with strong contrasts and deep shadows',
+   'rich, deep colors with emphasis on dark tones and dramatic lighting'),
+  ('Dali', 'Salvador Dali',
+   'Surrealist style characterized by dreamlike imagery, melting forms, and bizarre juxtapositions. Features precise rendering of impossible scenes, symbolic elements, and exploration of the subconscious.',
+   ARRAY['surreal', 'dreamlike', 'melting', 'symbolic', 'precise', 'bizarre', 'subconscious', 'impossible', 'fantastical', 'mysterious'],
+   'realistic, natural, traditional, simple, clean, perfect, modern, digital, artificial, flat',
+   'surreal composition with impossible perspectives and dreamlike elements',
+   'dramatic lighting with emphasis on surreal atmosphere',
+   'vibrant, surreal colors with emphasis on dreamlike atmosphere'),
+  ('Pollock', 'Jackson Pollock',
+   'Abstract Expressionist style known for drip painting technique, dynamic energy, and rhythmic patterns. Features layered drips, splatters, and poured paint creating complex webs of color and movement.',
+   ARRAY['drip', 'dynamic', 'rhythmic', 'energetic', 'layered', 'splattered', 'poured', 'abstract', 'expressive', 'movement'],
+   'representational, figurative, controlled, geometric, structured, clean, perfect, digital, artificial, flat',
+   'dynamic, all-over composition with emphasis on movement and rhythm',
+   'natural lighting emphasizing the texture and depth of layered paint',
+   'bold, contrasting colors with emphasis on primary colors and black')
+ON CONFLICT (key) DO NOTHING;
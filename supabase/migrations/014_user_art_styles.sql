@@ -0,0 +1,50 @@
+-- Personal art styles for paid subscribers; the per-tier cap is enforced by create_user_art_style
+CREATE TABLE IF NOT EXISTS user_art_styles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_email TEXT NOT NULL REFERENCES emails(email) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  keywords TEXT[] NOT NULL DEFAULT '{}',
+  color_palette TEXT NOT NULL,
+  negative_prompt TEXT,
+  composition TEXT,
+  lighting TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_art_styles_name
+ON user_art_styles(user_email, LOWER(name));
+
+-- Inserts a style only while the owner has fewer than p_limit (their plan's customStyles).
+-- The per-owner lock makes count-then-insert atomic, so parallel creates can't pass the cap.
+-- Returns no row when the cap is reached.
+CREATE OR REPLACE FUNCTION create_user_art_style(
+  p_email TEXT,
+  p_limit INTEGER,
+  p_name TEXT,
+  p_description TEXT,
+  p_keywords TEXT[],
+  p_color_palette TEXT,
+  p_negative_prompt TEXT DEFAULT NULL,
+  p_composition TEXT DEFAULT NULL,
+  p_lighting TEXT DEFAULT NULL
+)
+RETURNS SETOF user_art_styles AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('user_art_styles:' || p_email));
+
+  IF (SELECT COUNT(*) FROM user_art_styles WHERE user_email = p_email) >= p_limit THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO user_art_styles (user_email, name, description, keywords, color_palette, negative_prompt, composition, lighting)
+  VALUES (p_email, p_name, p_description, p_keywords, p_color_palette, p_negative_prompt, p_composition, p_lighting)
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The limit comes from the server's plan lookup; browsers must not pick their own
+REVOKE EXECUTE ON FUNCTION create_user_art_style(TEXT, INTEGER, TEXT, TEXT, TEXT[], TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_user_art_style(TEXT, INTEGER, TEXT, TEXT, TEXT[], TEXT, TEXT, TEXT, TEXT) TO service_role;
@@ -0,0 +1,32 @@
+-- Article category and reader engagement, the history the art style recommender learns from
+ALTER TABLE news_history
+ADD COLUMN IF NOT EXISTS category TEXT,
+ADD COLUMN IF NOT EXISTS engagement JSONB NOT NULL DEFAULT '{"views": 0, "shares": 0, "saves": 0}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_news_history_art_style ON news_history(art_style);
+
+-- Bumps one engagement counter in place so concurrent readers never overwrite each other
+CREATE OR REPLACE FUNCTION record_news_engagement(
+  news_id UUID,
+  kind TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  updated JSONB;
+BEGIN
+  IF kind NOT IN ('views', 'shares', 'saves') THEN
+    RAISE EXCEPTION 'Unknown engagement kind: %', kind;
+  END IF;
+
+  UPDATE news_history
+  SET engagement = jsonb_set(
+    engagement,
+    ARRAY[kind],
+    to_jsonb(COALESCE((engagement ->> kind)::INTEGER, 0) + 1)
+  )
+  WHERE id = news_id
+  RETURNING engagement INTO updated;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,3 @@
+-- Size, steps, seed, provider and model each image was drawn with, so it can be regenerated exactly
+ALTER TABLE news_history
+ADD COLUMN IF NOT EXISTS image_params JSONB;
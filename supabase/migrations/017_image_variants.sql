@@ -0,0 +1,65 @@
+-- Variants the reader didn't pick, kept with their params so any of them can be promoted or redrawn
+ALTER TABLE news_history
+ADD COLUMN IF NOT EXISTS image_alternates JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Signed-in reader who drew the current image and its alternates, the only one who may pick among them
+ALTER TABLE news_history
+ADD COLUMN IF NOT EXISTS image_generated_by TEXT;
+
+-- Multi-variant requests charge several visualizations at once. Server only:
+-- increment_usage (003) stays the browser's one-at-a-time counter
+CREATE OR REPLACE FUNCTION charge_usage(p_email TEXT, p_amount INTEGER)
+RETURNS void AS $$
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'charge_usage amount must be positive, got %', p_amount;
+  END IF;
+
+  INSERT INTO usage_metrics (user_email, date, visualizations_count)
+  VALUES (p_email, CURRENT_DATE, p_amount)
+  ON CONFLICT (user_email, date)
+  DO UPDATE SET visualizations_count = usage_metrics.visualizations_count + p_amount;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION charge_usage(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION charge_usage(TEXT, INTEGER) TO service_role;
+
+-- Swaps an alternate with the current image in one statement, so two quick picks can't lose a variant.
+-- Server only: the image-variant route checks who is picking first
+CREATE OR REPLACE FUNCTION promote_image_alternate(
+  news_id UUID,
+  alternate_url TEXT
+)
+RETURNS SETOF news_history AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE news_history AS news
+  SET image_url = chosen.alternate ->> 'image_url',
+      art_style = chosen.alternate ->> 'art_style',
+      image_params = chosen.alternate -> 'params',
+      image_alternates = (
+        SELECT COALESCE(jsonb_agg(rest.alternate), '[]'::jsonb)
+        FROM jsonb_array_elements(news.image_alternates) AS rest(alternate)
+        WHERE rest.alternate ->> 'image_url' <> alternate_url
+      ) || CASE
+        WHEN news.image_url IS NULL THEN '[]'::jsonb
+        ELSE jsonb_build_array(jsonb_build_object(
+          'image_url', news.image_url,
+          'art_style', news.art_style,
+          'params', news.image_params
+        ))
+      END
+  FROM (
+    SELECT alternate
+    FROM news_history, jsonb_array_elements(image_alternates) AS alternate
+    WHERE id = news_id AND alternate ->> 'image_url' = alternate_url
+    LIMIT 1
+  ) AS chosen
+  WHERE news.id = news_id
+  RETURNING news.*;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION promote_image_alternate(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION promote_image_alternate(UUID, TEXT) TO service_role;
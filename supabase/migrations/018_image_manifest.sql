@@ -0,0 +1,43 @@
+-- Optimized renditions (AVIF, WebP, PNG per width) and the blurred placeholder of each image
+ALTER TABLE news_history
+ADD COLUMN IF NOT EXISTS image_manifest JSONB;
+
+-- Same swap as 017, now carrying each image's manifest along with it
+CREATE OR REPLACE FUNCTION promote_image_alternate(
+  news_id UUID,
+  alternate_url TEXT
+)
+RETURNS SETOF news_history AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE news_history AS news
+  SET image_url = chosen.alternate ->> 'image_url',
+      art_style = chosen.alternate ->> 'art_style',
+      image_params = chosen.alternate -> 'params',
+      image_manifest = chosen.alternate -> 'image_manifest',
+      image_alternates = (
+        SELECT COALESCE(jsonb_agg(rest.alternate), '[]'::jsonb)
+        FROM jsonb_array_elements(news.image_alternates) AS rest(alternate)
+        WHERE rest.alternate ->> 'image_url' <> alternate_url
+      ) || CASE
+        WHEN news.image_url IS NULL THEN '[]'::jsonb
+        ELSE jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+          'image_url', news.image_url,
+          'art_style', news.art_style,
+          'params', news.image_params,
+          'image_manifest', news.image_manifest
+        )))
+      END
+  FROM (
+    SELECT alternate
+    FROM news_history, jsonb_array_elements(image_alternates) AS alternate
+    WHERE id = news_id AND alternate ->> 'image_url' = alternate_url
+    LIMIT 1
+  ) AS chosen
+  WHERE news.id = news_id
+  RETURNING news.*;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION promote_image_alternate(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION promote_image_alternate(UUID, TEXT) TO service_role;
@@ -0,0 +1,24 @@
+-- Appends one decision to metadata.moderation in a single statement, so
+-- concurrent generations of the same story can't drop each other's entries
+CREATE OR REPLACE FUNCTION append_moderation_decision(
+  p_news_id UUID,
+  p_decision JSONB
+)
+RETURNS void AS $$
+BEGIN
+  UPDATE news_history
+  SET metadata = jsonb_set(
+    COALESCE(metadata, '{}'::jsonb),
+    '{moderation}',
+    CASE
+      WHEN jsonb_typeof(metadata -> 'moderation') = 'array' THEN metadata -> 'moderation'
+      ELSE '[]'::jsonb
+    END || jsonb_build_array(p_decision)
+  )
+  WHERE id = p_news_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the image route records decisions; browsers must not write the audit trail
+REVOKE EXECUTE ON FUNCTION append_moderation_decision(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION append_moderation_decision(UUID, JSONB) TO service_role;
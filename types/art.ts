@@ -1,4 +1,5 @@
 import { devLog } from '@/lib/utils/log'
+import type { NewsCategory } from './news'
 
 export const ArtStyle = {
   VanGogh: 'Vincent Van Gogh',
@@ -13,6 +14,101 @@ export const ArtStyle = {
 export type ArtStyleKey = keyof typeof ArtStyle
 export type ArtStyleValue = typeof ArtStyle[ArtStyleKey]
 
+// What the prompt and image pipeline need to paint in a style
+export interface ArtStyleDescription {
+  name: string
+  description: string
+  keywords: string[]
+  negativePrompt?: string
+  composition?: string
+  lighting?: string
+  colorPalette?: string
+}
+
+// Catalog entry; the built-in styles use their ArtStyleKey as `key`
+export interface ArtStyleDefinition extends ArtStyleDescription {
+  key: string
+  isActive: boolean
+  // Set on a subscriber's personal style, whose key is `custom:<id>`
+  custom?: boolean
+}
+
+// One side of a blend; `style` is any art style key, `weight` a percentage
+export interface ArtStyleBlendPart {
+  style: string
+  weight: number
+}
+
+// Two styles mixed by weight, stored in news_history.art_style as `blend:Monet@70+Dali@30`
+export interface ArtStyleBlend {
+  parts: [ArtStyleBlendPart, ArtStyleBlendPart]
+}
+
+// Mood of a headline, as scored by lib/utils/sentiment
+export type HeadlineSentiment = 'negative' | 'neutral' | 'positive'
+
+/**
+ * One row of the recommender's rule table. Every condition a rule sets
+ * must hold (any listed value matches); `weight` is added to the style's score.
+ */
+export interface StyleRecommendationRule {
+  style: string
+  weight: number
+  // Shown to readers, so phrase it as why the style fits the story
+  reason: string
+  categories?: NewsCategory[]
+  sentiments?: HeadlineSentiment[]
+  // Words in the English headline or summary; plurals and -ed/-ing forms match too
+  keywords?: string[]
+  // Matched against detected entity names, case-insensitively
+  entities?: string[]
+}
+
+// What the recommender read from a headline
+export interface StyleRecommendationSignals {
+  category?: NewsCategory
+  sentiment: HeadlineSentiment
+  sentimentScore: number
+  entities: string[]
+}
+
+export interface StyleRecommendation {
+  style: string
+  name: string
+  score: number
+  reasons: string[]
+}
+
+// art_styles row
+export interface ArtStyleRecord {
+  key: string
+  name: string
+  description: string
+  keywords: string[]
+  negative_prompt: string | null
+  composition: string | null
+  lighting: string | null
+  color_palette: string | null
+  is_active: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+// user_art_styles row: a subscriber's personal style
+export interface UserArtStyleRecord {
+  id: string
+  user_email: string
+  name: string
+  description: string
+  keywords: string[]
+  color_palette: string
+  negative_prompt: string | null
+  composition: string | null
+  lighting: string | null
+  created_at?: string
+  updated_at?: string
+}
+
 // Keep art-related interfaces
 export interface AnonymousSession {
   id: string
@@ -37,6 +133,13 @@ export function getArtStyleKey(displayValue: string): ArtStyleKey {
   return (entry?.[0] as ArtStyleKey) || 'VanGogh'
 }
 
+// Key for either a key or a display value, defaulting to VanGogh
+export function toArtStyleKey(style?: string | null): ArtStyleKey {
+  if (isArtStyleKey(style)) return style
+  if (isArtStyleValue(style)) return getArtStyleKey(style)
+  return 'VanGogh'
+}
+
 export function getArtStyleDisplay(style: ArtStyleKey): string {
   return ArtStyle[style]
 }
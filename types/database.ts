@@ -1,3 +1,5 @@
+import type { ImageGenerationParams, ImageManifest, ImageVariant } from './image'
+
 export interface Database {
   public: {
     Tables: {
@@ -12,6 +14,28 @@ export interface Database {
           audio_alignment: string
           art_style: string
           prompt: string
+          prompt_version: string | null
+          image_params: ImageGenerationParams | null
+          image_alternates: ImageVariant[]
+          image_manifest: ImageManifest | null
+          image_prompt: string | null
+          image_negative_prompt: string | null
+          language: string | null
+          headline_en: string | null
+          category: string | null
+          engagement: {
+            views: number
+            shares: number
+            saves: number
+          }
+          published_at: string | null
+          story_id: string | null
+          coverage: Array<{
+            source: string
+            url: string
+            headline: string
+            published_at?: string
+          }>
           user_email: string | null
           created_at: string
         }
@@ -0,0 +1,101 @@
+export type ImageProviderId = 'together' | 'helicone' | 'openai' | 'procedural'
+
+// Named sizes: 4:3 card, 16:9 hero, 1:1 social, 9:16 story
+export type ImageAspectPreset = 'landscape' | 'hero' | 'social' | 'story'
+
+/**
+ * Everything needed to draw the same image again, stored in
+ * news_history.image_params and accepted back by /api/generate-image.
+ */
+export interface ImageGenerationParams {
+  width: number
+  height: number
+  steps: number
+  seed: number
+  preset?: ImageAspectPreset
+  provider: ImageProviderId
+  model: string
+}
+
+export interface ImageProviderRequest {
+  prompt: string
+  // Raw inputs, for renderers that don't call a model
+  headline?: string
+  colorPalette?: string
+  // art_styles key
+  style: string
+  width: number
+  height: number
+  steps: number
+  seed?: number
+  // Only sent when the provider supports one for the model; otherwise it is folded into `prompt`
+  negativePrompt?: string
+  // Overrides the provider's default model
+  model?: string
+}
+
+export interface ImageProviderResponse {
+  // Base64-encoded image bytes
+  base64: string
+  mimeType: string
+  provider: ImageProviderId
+  model: string
+}
+
+export interface ImageProvider {
+  id: ImageProviderId
+  name: string
+  defaultModel: string
+  // Whether the model takes a separate negative prompt; see ImageProviderRequest.negativePrompt
+  supportsNegativePrompt(model: string): boolean
+  isConfigured(): boolean
+  generate(request: ImageProviderRequest): Promise<ImageProviderResponse>
+}
+
+export interface GeneratedImage extends ImageProviderResponse {
+  params: ImageGenerationParams
+  // Exactly what the provider was sent
+  prompt: string
+  negativePrompt?: string
+}
+
+// One drawing of a multi-variant request, with the art_styles key it was drawn in
+export interface GeneratedImageVariant extends GeneratedImage {
+  style: string
+}
+
+/**
+ * A stored variant. The one the reader picked is news_history.image_url;
+ * the others stay in image_alternates and can be promoted later.
+ */
+export interface ImageVariant {
+  image_url: string
+  art_style: string
+  params: ImageGenerationParams
+  image_manifest?: ImageManifest
+  image_prompt?: string
+  image_negative_prompt?: string
+}
+
+export type ImageFormat = 'avif' | 'webp' | 'png'
+
+export interface ImageRendition {
+  url: string
+  format: ImageFormat
+  width: number
+  height: number
+  bytes: number
+}
+
+/**
+ * Every stored rendition of one image, saved to news_history.image_manifest.
+ * image_url is the widest PNG; renditions are ordered by format
+ * preference, then width.
+ */
+export interface ImageManifest {
+  width: number
+  height: number
+  // Tiny blurred WebP as a data URL, shown while the real image loads
+  placeholder: string
+  renditions: ImageRendition[]
+}
@@ -45,4 +45,17 @@ export interface MediaCache {
   timestamp: number
   type: MediaType
   data?: AudioAlignment // For audio alignment data
-} 
\ No newline at end of file
+}
+
+export type MediaJobStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+// Queued media generation for a polled headline (media_generation_jobs row)
+export interface MediaJob {
+  id: string
+  news_id: string
+  status: MediaJobStatus
+  attempts: number
+  last_error: string | null
+  created_at: string
+  updated_at: string
+}
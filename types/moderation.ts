@@ -0,0 +1,37 @@
+export type ModerationAction = 'allow' | 'soften' | 'block'
+
+export type ModerationCategory = 'blocklist' | 'violence' | 'disaster' | 'public_figure' | 'classifier'
+
+export interface ModerationFlag {
+  category: ModerationCategory
+  // The rule or classifier category that fired
+  rule: string
+  match: string
+  action: ModerationAction
+}
+
+export interface ModerationClassification {
+  provider: string
+  action: ModerationAction
+  categories: string[]
+  error?: string
+}
+
+// One moderation decision, appended to news_history.metadata.moderation for audit
+export interface ModerationDecision {
+  action: ModerationAction
+  flags: ModerationFlag[]
+  classifier?: ModerationClassification
+  policy_version: string
+  original_prompt: string
+  // Rewritten prompt when softened
+  prompt?: string
+  negative_prompt?: string
+  decided_at: string
+}
+
+export interface ModerationClassifier {
+  id: string
+  isConfigured(): boolean
+  classify(text: string): Promise<ModerationClassification>
+}
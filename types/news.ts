@@ -1,9 +1,14 @@
 import type { ArtStyleKey } from './art'
 import { ArtStyle } from './art'
+import type { ImageGenerationParams, ImageManifest, ImageVariant } from './image'
+import { toNewsItem } from '@/lib/utils/news-item'
 
 export interface NewsItem {
   id: string
+  // Headline as published, in `language`
   headline: string
+  // English form used for the art prompt, only set when the headline was translated
+  headline_en?: string
   source_name: string
   source_url: string
   url: string
@@ -14,8 +19,20 @@ export interface NewsItem {
     character_start_times_seconds: number[]
     character_end_times_seconds: number[]
   } | null
-  art_style: ArtStyleKey
+  // art_styles key; one of ArtStyleKey for the built-in styles
+  art_style: string
   prompt?: string
+  // Template version that produced `prompt`
+  prompt_version?: string
+  // What the image was drawn with; send back to /api/generate-image to redraw it
+  image_params?: ImageGenerationParams
+  // Variants drawn alongside the image and not picked; POST one to /api/news/[id]/image-variant to swap
+  image_alternates?: ImageVariant[]
+  // Optimized renditions of image.url and its placeholder; see imageSources in lib/utils/image-manifest.ts
+  image_manifest?: ImageManifest
+  // Prompt and negative prompt exactly as the image provider got them
+  image_prompt?: string
+  image_negative_prompt?: string
   metadata?: Record<string, any>
   image: {
     url?: string
@@ -34,7 +51,9 @@ export interface NewsItem {
     isTrusted: boolean
     coverage: string
     description: string
+    coverageLinks?: NewsCoverageLink[]
   }
+  story_id?: string
   created_at?: string
   user_email?: string | null
   source: NewsSource
@@ -43,20 +62,145 @@ export interface NewsItem {
   country?: NewsCountry
 }
 
+// Reader actions counted in news_history.engagement
+export type NewsEngagementKind = keyof NonNullable<NewsItem['engagement']>
+
 export interface DBError {
   code: string
   message: string
   details?: string
 }
 
+// Normalized article shape shared by every news provider
+export interface NewsArticle {
+  headline: string
+  source: string
+  url: string
+  published_at?: string
+  author?: string
+  description?: string
+  image_url?: string
+  category?: NewsCategory
+  language?: NewsLanguage
+  country?: NewsCountry
+  story_id?: string
+  coverage?: NewsCoverageLink[]
+}
+
+// Another outlet's version of the same story
+export interface NewsCoverageLink {
+  source: string
+  url: string
+  headline: string
+  published_at?: string
+}
+
+export interface NewsStory {
+  id: string
+  canonical: NewsArticle
+  coverage: NewsCoverageLink[]
+}
+
 export interface NewsResponse {
   success: boolean
   error?: string
-  news: Array<{
-    headline: string
-    source: string
-    url: string
-  }>
+  provider?: NewsProviderId
+  news: NewsArticle[]
+}
+
+// Why one upstream or ingested record was rejected
+export interface NewsRecordError {
+  index?: number
+  url?: string
+  headline?: string
+  message: string
+}
+
+// A page of normalized items from NewsService, with any records that failed validation
+export interface NewsPage {
+  items: NewsItem[]
+  pagination: {
+    limit: number
+    offset: number
+    count: number
+    total: number
+  }
+  rejected: NewsRecordError[]
+}
+
+export interface NewsBatchResult {
+  provider: NewsProviderId
+  fetched: number
+  inserted: number
+  duplicates: number
+  rejected: number
+  items: NewsArticle[]
+  errors: NewsRecordError[]
+  pagination: {
+    limit: number
+    offset: number
+    nextOffset: number | null
+  }
+}
+
+// One row from search_news_history; highlights are HTML-escaped, with matches wrapped in <mark>
+export interface NewsSearchHit {
+  id: string
+  headline: string
+  source: string
+  url: string
+  image_url: string | null
+  audio_url: string | null
+  art_style: string | null
+  created_at: string
+  rank: number
+  headline_highlight: string
+  prompt_highlight: string | null
+}
+
+export interface NewsSearchPage {
+  query: string
+  results: NewsSearchHit[]
+  nextCursor: string | null
+}
+
+// Main readable content pulled from an article page
+export interface ExtractedArticle {
+  title?: string
+  byline?: string
+  siteName?: string
+  publishedAt?: string
+  description?: string
+  paragraphs: string[]
+  text: string
+  wordCount: number
+}
+
+export interface ArticleEntity {
+  name: string
+  mentions: number
+}
+
+// Stored under news_history.metadata.enrichment and fed to the prompt
+export interface ArticleEnrichment {
+  summary: string
+  entities: ArticleEntity[]
+  word_count: number
+  byline?: string
+  extracted_at: string
+  origin: 'live' | 'fixture'
+}
+
+// The part of an enrichment the prompt template uses
+export type ArticleContext = Pick<ArticleEnrichment, 'summary' | 'entities'>
+
+export type NewsProviderId = 'mediastack' | 'rss' | 'fixture'
+
+export interface NewsProvider {
+  id: NewsProviderId
+  name: string
+  isConfigured(): boolean
+  fetchLatest(filter?: NewsSourceFilter): Promise<NewsArticle[]>
 }
 
 export interface ImageResponse {
@@ -122,6 +266,7 @@ export interface NewsCardProps {
     isTrusted: boolean
     coverage: string
     description: string
+    coverageLinks?: NewsCoverageLink[]
   }
   error?: string
   isLoading?: boolean
@@ -138,6 +283,9 @@ export interface NewsCardProps {
     error?: Error | null
   }
   onGenerateImage?: () => Promise<void>
+  // Variants to offer in the card's picker, and what to do when one is picked
+  imageAlternates?: ImageVariant[]
+  onPickImageVariant?: (imageUrl: string) => Promise<void>
 }
 
 export interface NewsHistoryItem extends NewsItem {
@@ -166,27 +314,13 @@ export function convertToNewsData(item: NewsItem): NewsData {
 export function convertNewsDataToState(data: NewsData | null): NewsState | null {
   if (!data) return null
   
-  const newsItem: NewsItem = {
-    id: Date.now().toString(), // Generate a temporary ID
+  const newsItem = toNewsItem({
     headline: data.headline,
-    source_name: data.source,
-    source_url: '',
+    source: data.source,
     url: data.url,
-    published_at: new Date().toISOString(),
     art_style: data.art_style,
-    image: {
-      url: data.image_url,
-      isGenerating: false,
-      isPending: false,
-      error: null
-    },
-    source: {
-      id: data.source,
-      name: data.source,
-      url: data.url,
-      type: 'api'
-    }
-  }
+    image_url: data.image_url
+  })
   
   return {
     data: newsItem,
@@ -241,28 +375,76 @@ export interface NewsSource {
   name: string
   url: string
   type: 'rss' | 'api'
+  category?: NewsCategory
+  country?: NewsCountry
+  language?: NewsLanguage
+  feedUrl?: string
+  pollIntervalMinutes?: number
+  // Premium sources are only served to PRO and UNLIMITED subscribers
+  isPremium?: boolean
+  isActive?: boolean
   lastFetched?: string
 }
 
+// news_sources row
+export interface NewsSourceRecord {
+  id: string
+  name: string
+  url: string
+  type: NewsSource['type']
+  feed_url: string | null
+  category: NewsCategory | null
+  country: NewsCountry | null
+  language: NewsLanguage | null
+  poll_interval_minutes: number | null
+  is_premium: boolean
+  is_active: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+// Persisted poller position for one source (news_source_cursors row)
+export interface NewsSourceCursor {
+  source_id: string
+  last_published_at: string | null
+  last_seen_url: string | null
+  last_polled_at: string | null
+  next_poll_at: string
+  last_error: string | null
+}
+
+// Feed entry in NewsItem field names, produced by the RSS/Atom parser
+export interface FeedItem {
+  headline: string
+  url: string
+  source_name: string
+  source_url: string
+  published_at?: string
+  author?: string
+  description?: string
+  image_url?: string
+  guid: string
+}
+
+export interface ParsedFeed {
+  format: 'rss' | 'atom'
+  title: string
+  link: string
+  items: FeedItem[]
+}
+
 export interface NewsSourceFilter {
   categories?: NewsCategory[]
   countries?: NewsCountry[]
   languages?: NewsLanguage[]
   search?: string
+  // Source ids to restrict to, and source ids to leave out
+  sources?: string[]
+  excludeSources?: string[]
   limit?: number
   offset?: number
 }
 
-export interface NewsSourceResponse {
-  pagination: {
-    limit: number
-    offset: number
-    count: number
-    total: number
-  }
-  data: NewsSource[]
-}
-
 export interface MediaGenerationResult {
   imageUrl: string
   audioUrl?: string
@@ -291,5 +473,6 @@ export interface NewsSourceConfig {
   name: string
   url: string
   type: 'rss' | 'api'
+  feedUrl?: string
   lastFetched?: string
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import type { ArtStyleDefinition } from './art'
+import type { ArticleContext, NewsLanguage } from './news'
+
+export type PromptModelProviderId = 'together' | 'openai' | 'template'
+
+export interface PromptChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface PromptModelRequest {
+  messages: PromptChatMessage[]
+  // Raw inputs, for adapters that don't call a model
+  headline: string
+  // Catalog entry the requested style resolved to
+  artStyle: ArtStyleDefinition
+  context?: ArticleContext | null
+  // Overrides the adapter's default model
+  model?: string
+  maxTokens: number
+  temperature: number
+}
+
+export interface PromptModelResponse {
+  // JSON text in the shape the system message asks for
+  content: string
+  provider: PromptModelProviderId
+  model: string
+}
+
+export interface PromptModelProvider {
+  id: PromptModelProviderId
+  name: string
+  defaultModel: string
+  isConfigured(): boolean
+  complete(request: PromptModelRequest): Promise<PromptModelResponse>
+}
+
+// A versioned user-prompt template; `{name}` placeholders must be listed in `variables`
+export interface PromptTemplate {
+  version: string
+  description: string
+  variables: readonly string[]
+  body: string
+  // Relative share of requests assigned to this version; 0 keeps it out of rotation
+  weight: number
+}
+
+export interface PromptMetadata {
+  style: string
+  headline: string
+  // Detected language of `headline`, and its English form when it had to be translated
+  headline_language: NewsLanguage
+  headline_en?: string
+  has_article_context: boolean
+  timestamp: string
+  provider: PromptModelProviderId
+  model: string
+  prompt_version: string
+  // 2 when the first reply needed a corrective re-ask
+  parse_attempts: number
+  template_fallback: boolean
+  // Served from the headline + style cache
+  cached: boolean
+  style_notes: string[]
+  composition: string
+  lighting: string
+  color_palette: string
+  negative_prompt?: string
+}
+
+export interface PromptResponse {
+  prompt: string
+  metadata: PromptMetadata
+}
@@ -0,0 +1,27 @@
+import type { NewsLanguage } from './news'
+
+export type TranslationProviderId = 'libretranslate' | 'deepl' | 'dictionary' | 'noop'
+
+export interface TranslationRequest {
+  text: string
+  from: NewsLanguage
+  to: NewsLanguage
+}
+
+export interface TranslationProvider {
+  id: TranslationProviderId
+  name: string
+  isConfigured(): boolean
+  translate(request: TranslationRequest): Promise<string>
+}
+
+export interface TranslationResult {
+  text: string
+  from: NewsLanguage
+  to: NewsLanguage
+  // False when the text was already in the target language or no translator could help
+  translated: boolean
+  provider: TranslationProviderId
+  // Detection confidence for `from`, 1 when it was given
+  confidence: number
+}